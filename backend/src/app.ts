@@ -1,27 +1,56 @@
 import express, { Request, Response, NextFunction } from 'express';
+import cookieParser from 'cookie-parser';
 import { connectDB } from './mongodb';
+import { scheduleAccountPurge } from './jobs/accountPurge';
+import { prunePasswordHistory } from './jobs/passwordHistoryPrune';
 import authenticationRoutes from './routes/v1/auth.routes';
 import postsRoutes from './routes/v1/post.routes';
+import sessionRoutes from './routes/v1/session.routes';
+import twoFactorRoutes from './routes/v1/twoFactor.routes';
+import passkeyRoutes from './routes/v1/passkey.routes';
+import oauthRoutes from './routes/v1/oauth.routes';
+import oidcRoutes from './routes/v1/oidc.routes';
+import apiKeyRoutes from './routes/v1/apiKey.routes';
+import adminRoutes from './routes/v1/admin.routes';
+import meRoutes from './routes/v1/me.routes';
+import passwordPolicyRoutes from './routes/v1/passwordPolicy.routes';
+import wellKnownRoutes from './routes/wellKnown.routes';
 import errorHandler from './middlewares/errorHandler';
+import correlationId, { CORRELATION_ID_HEADER } from './middlewares/correlationId';
 
 const app = express();
 
+app.use(correlationId);
 app.use(express.json());
+app.use(cookieParser());
 
 app.use((request: Request, response: Response, next: NextFunction) => {
   response.setHeader('Access-Control-Allow-Origin', '*');
   response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE');
-  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  response.setHeader('Access-Control-Allow-Headers', `Content-Type, Authorization, ${CORRELATION_ID_HEADER}`);
+  response.setHeader('Access-Control-Expose-Headers', CORRELATION_ID_HEADER);
   next();
 });
 
+app.use('/.well-known', wellKnownRoutes);
 app.use('/api/v1', authenticationRoutes);
 app.use('/api/v1', postsRoutes);
+app.use('/api/v1', sessionRoutes);
+app.use('/api/v1', twoFactorRoutes);
+app.use('/api/v1', passkeyRoutes);
+app.use('/api/v1', oauthRoutes);
+app.use('/api/v1', oidcRoutes);
+app.use('/api/v1', apiKeyRoutes);
+app.use('/api/v1', adminRoutes);
+app.use('/api/v1', meRoutes);
+app.use('/api/v1', passwordPolicyRoutes);
 
 app.use(errorHandler);
 
 const startServer = async (): Promise<void> => {
   await connectDB();
+  scheduleAccountPurge();
+  void prunePasswordHistory();
 
   app.listen(8080, async () => {
     console.log("Server running on port 8080");
@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { ValidatedQuery } from '../middlewares/validate';
+import logger from '../utils/logger';
+import { getClientContext } from '../utils/clientContext';
+import { AdminUserService } from '../services/adminUser.service';
+import { AuditService } from '../services/audit.service';
+import { AdminUserParams, AdminUserSearchQuery, UpdateUserAccessBody } from '../schemas/admin.schema';
+
+/**
+ * Records an administrator's action, whether it succeeded or failed.
+ */
+const audit = (
+  req: Request,
+  action: string,
+  error?: unknown,
+  details?: Record<string, unknown>
+): Promise<void> =>
+  AuditService.record({
+    action: `admin.${action}`,
+    actorId: req.userId,
+    targetUserId: req.params.id,
+    outcome: error ? 'failure' : 'success',
+    context: getClientContext(req),
+    details: error
+      ? { ...details, error: error instanceof HttpError ? error.message : 'Internal error' }
+      : details,
+  });
+
+export const searchUsers = async (
+  req: Request,
+  res: Response<unknown, ValidatedQuery<AdminUserSearchQuery>>,
+  next: NextFunction
+): Promise<void> => {
+  const { q, page, limit } = res.locals.query;
+
+  try {
+    const result = await AdminUserService.searchUsers(q, page, limit);
+    await audit(req, 'users.search', undefined, { q, page, limit });
+
+    res.status(200).json({
+      meta: result,
+    });
+  } catch (error) {
+    await audit(req, 'users.search', error, { q, page, limit });
+    next(error instanceof HttpError ? error : new HttpError('Error searching users!', 500));
+  }
+};
+
+export const getUser = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await AdminUserService.getUser(req.params.id);
+    await audit(req, 'user.view');
+
+    res.status(200).json({
+      meta: { user },
+    });
+  } catch (error) {
+    await audit(req, 'user.view', error);
+    next(error instanceof HttpError ? error : new HttpError('Error fetching user!', 500));
+  }
+};
+
+export const verifyUserEmail = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await AdminUserService.verifyEmail(req.params.id);
+    await audit(req, 'user.verify_email');
+
+    logger.info(`Admin ${req.userId} verified the email of user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'Email marked as verified.',
+      meta: { user },
+    });
+  } catch (error) {
+    await audit(req, 'user.verify_email', error);
+    next(error instanceof HttpError ? error : new HttpError('Error verifying email!', 500));
+  }
+};
+
+export const lockUser = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { user, revokedSessions } = await AdminUserService.lockUser(req.userId!, req.params.id);
+    await audit(req, 'user.lock', undefined, { revokedSessions });
+
+    logger.info(`Admin ${req.userId} locked user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'User locked and signed out of all sessions.',
+      meta: { user, revokedSessions },
+    });
+  } catch (error) {
+    await audit(req, 'user.lock', error);
+    next(error instanceof HttpError ? error : new HttpError('Error locking user!', 500));
+  }
+};
+
+export const unlockUser = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await AdminUserService.unlockUser(req.params.id);
+    await audit(req, 'user.unlock');
+
+    logger.info(`Admin ${req.userId} unlocked user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'User unlocked.',
+      meta: { user },
+    });
+  } catch (error) {
+    await audit(req, 'user.unlock', error);
+    next(error instanceof HttpError ? error : new HttpError('Error unlocking user!', 500));
+  }
+};
+
+export const forcePasswordReset = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { user, revokedSessions } = await AdminUserService.forcePasswordReset(req.params.id);
+    await audit(req, 'user.force_password_reset', undefined, { revokedSessions });
+
+    logger.info(`Admin ${req.userId} required a password reset for user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'Password reset required. The user was signed out and notified by email.',
+      meta: { user, revokedSessions },
+    });
+  } catch (error) {
+    await audit(req, 'user.force_password_reset', error);
+    next(error instanceof HttpError ? error : new HttpError('Error forcing password reset!', 500));
+  }
+};
+
+export const revokeUserSessions = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revokedSessions = await AdminUserService.revokeSessions(req.params.id);
+    await audit(req, 'user.revoke_sessions', undefined, { revokedSessions });
+
+    logger.info(`Admin ${req.userId} revoked all sessions of user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'All sessions revoked.',
+      meta: { revokedSessions },
+    });
+  } catch (error) {
+    await audit(req, 'user.revoke_sessions', error);
+    next(error instanceof HttpError ? error : new HttpError('Error revoking sessions!', 500));
+  }
+};
+
+export const updateUserAccess = async (
+  req: Request<AdminUserParams, {}, UpdateUserAccessBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await AdminUserService.updateAccess(req.userId!, req.params.id, req.body);
+    await audit(req, 'user.update_access', undefined, { ...req.body });
+
+    logger.info(`Admin ${req.userId} updated the roles and permissions of user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'Roles and permissions updated.',
+      meta: { user },
+    });
+  } catch (error) {
+    await audit(req, 'user.update_access', error, { ...req.body });
+    next(error instanceof HttpError ? error : new HttpError('Error updating roles and permissions!', 500));
+  }
+};
+
+export const deleteUser = async (
+  req: Request<AdminUserParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await AdminUserService.deleteUser(req.userId!, req.params.id);
+    await audit(req, 'user.delete');
+
+    logger.info(`Admin ${req.userId} deleted user ${req.params.id}`);
+
+    res.status(200).json({
+      message: 'User deleted.',
+    });
+  } catch (error) {
+    await audit(req, 'user.delete', error);
+    next(error instanceof HttpError ? error : new HttpError('Error deleting user!', 500));
+  }
+};
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { ApiKeyService } from '../services/apiKey.service';
+import { ApiKeyParams, CreateApiKeyBody } from '../schemas/apiKey.schema';
+
+export const createApiKey = async (
+  req: Request<{}, {}, CreateApiKeyBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { apiKey, key } = await ApiKeyService.createKey(req.userId!, req.body, req.permissions ?? []);
+
+    logger.info(`API key ${apiKey.id} created for user ${req.userId}`);
+
+    res.status(201).json({
+      message: 'API key created. Copy it now, it will not be shown again.',
+      meta: { apiKey, key },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error creating API key!', 500));
+  }
+};
+
+export const listApiKeys = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const apiKeys = await ApiKeyService.listKeys(req.userId!);
+
+    res.status(200).json({
+      meta: { apiKeys },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing API keys!', 500));
+  }
+};
+
+export const revokeApiKey = async (
+  req: Request<ApiKeyParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revoked = await ApiKeyService.revokeKey(req.userId!, req.params.id);
+    if (!revoked) throw new HttpError('API key not found.', 404);
+
+    logger.info(`API key ${req.params.id} revoked for user ${req.userId}`);
+
+    res.status(200).json({
+      message: 'API key revoked.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error revoking API key!', 500));
+  }
+};
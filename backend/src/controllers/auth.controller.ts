@@ -3,14 +3,84 @@ import { UserDocument } from '../models/user';
 import logger from '../utils/logger';
 import HttpError from '../utils/HttpError';
 import { EmailService } from '../utils/email/emailService';
-import { AuthService } from '../services/auth.service';
-import { CreateUserRequestBody, LoginUserRequestBody, RequestPasswordResetOtpBody, RequestResendVerifyEmailBody, RequestResetPasswordBody, RequestVerifyEmailQueryParam, RequestVerifyResetOtpBody } from '../schemas/auth.schema';
+import { AuthService, LoginResult } from '../services/auth.service';
+import { PasskeyService } from '../services/passkey.service';
+import { OAuthService } from '../services/oauth.service';
+import { AuditService } from '../services/audit.service';
+import { LockoutService } from '../services/lockout.service';
+import { EmailChangeService } from '../services/emailChange.service';
+import { AccountService } from '../services/account.service';
+import { ChangePasswordRequestBody, ConfirmAccountDeletionQueryParam, ConsumeMagicLinkBody, CreateUserRequestBody, EmailChangeQueryParam, LoginTwoFactorRequestBody, RequestMagicLinkBody, LoginUserRequestBody, RequestPasswordResetOtpBody, RequestResendVerifyEmailBody, RequestResetPasswordBody, RequestVerifyEmailQueryParam, RequestVerifyResetOtpBody, RestoreAccountQueryParam, UnlockAccountQueryParam } from '../schemas/auth.schema';
 import { UserService } from '../services/user.service';
 import { OtpService } from '../services/otp.service';
+import { BackupCodeService } from '../services/backupCode.service';
 import { ResetTokenService } from '../services/resetToken.service';
 import { TokenPayloadData, TokenService } from '../services/token.service';
 import { env } from '../env';
+import { getClientContext } from '../utils/clientContext';
+import { LoginWithPasskeyRequestBody } from '../schemas/passkey.schema';
+import { ConfirmOAuthLinkBody } from '../schemas/oauth.schema';
+import { DeleteAccountRequestBody } from '../schemas/profile.schema';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+
+const REFRESH_COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const refreshCookieOptions = (persistent: boolean): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  ...(persistent ? { maxAge: REFRESH_COOKIE_MAX_AGE_MS } : {}),
+  path: '/api/v1/refresh',
+});
+
+const clearRefreshCookie = (res: Response): Response =>
+  res.clearCookie('refreshToken', refreshCookieOptions(false));
+
+const sendLoginResult = (res: Response, result: LoginResult, rememberMe: boolean): void => {
+  if ('mfaToken' in result) {
+    res.status(200).json({
+      message: 'Two-factor authentication required.',
+      meta: { mfaRequired: true, mfaToken: result.mfaToken }
+    });
+    return;
+  }
+
+  res
+    .cookie('refreshToken', result.refreshToken, refreshCookieOptions(rememberMe))
+    .status(200)
+    .json({
+      message: 'Login successful!',
+      meta: { accessToken: result.accessToken }
+    });
+};
+
+const failureReason = (failure: unknown): string => {
+  if (typeof failure === 'string') return failure;
+  return failure instanceof HttpError ? failure.message : 'Internal error';
+};
 
+/**
+ * Records an authentication event for the user, or for an unknown account when the request
+ * named an email that is not registered. `failure` is the error that ended the request, or
+ * a short reason when it was refused without one.
+ */
+const audit = (
+  req: Request,
+  action: string,
+  userId: string | undefined,
+  failure?: unknown,
+  details?: Record<string, unknown>
+): Promise<void> =>
+  AuditService.record({
+    action: `auth.${action}`,
+    actorId: userId,
+    targetUserId: userId,
+    outcome: failure ? 'failure' : 'success',
+    context: getClientContext(req),
+    details: failure
+      ? { ...details, reason: failureReason(failure) }
+      : details,
+  });
 
 export const createUser = async (
   req: Request<{}, {}, CreateUserRequestBody>,
@@ -18,13 +88,16 @@ export const createUser = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    await AuthService.registerUser(req.body);
+    const userId = await AuthService.registerUser(req.body);
+    await audit(req, 'signup', userId);
+
     res
       .status(201)
       .json({
         message: 'User created successfully!'
       });
   } catch (error) {
+    await audit(req, 'signup', undefined, error, { email: req.body.email });
     next(error instanceof HttpError ? error : new HttpError('Error Creating User!', 500));
   }
 };
@@ -37,41 +110,147 @@ export const loginUser = async (
 ): Promise<void> => {
   try {
     const { email, password, rememberMe } = req.body;
-    const { accessToken, refreshToken } = await AuthService.loginUser(email, password);
-
-    const cookieOptions: CookieOptions = {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict' as const,
-      ...(rememberMe ? { maxAge: 30 * 24 * 60 * 60 * 1000 } : {}),
-      path: '/api/v1/refresh',
-    }
+    const result = await AuthService.loginUser(email, password, rememberMe, getClientContext(req));
+
+    sendLoginResult(res, result, rememberMe);
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error logging in user!', 500));
+  }
+}
+
+export const loginWithTwoFactor = async (
+  req: Request<{}, {}, LoginTwoFactorRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { mfaToken, code, backupCode } = req.body;
+    const { accessToken, refreshToken, persistent } = await AuthService.completeMfaLogin(
+      mfaToken,
+      { code, backupCode },
+      getClientContext(req)
+    );
 
     res
-      .cookie('refreshToken', refreshToken, cookieOptions)
+      .cookie('refreshToken', refreshToken, refreshCookieOptions(persistent))
       .status(200)
       .json({
         message: 'Login successful!',
         meta: { accessToken }
-      })
+      });
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error logging in user!', 500));
+  }
+}
+
+export const requestMagicLink = async (
+  req: Request<{}, {}, RequestMagicLinkBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, rememberMe } = req.body;
+    await AuthService.requestMagicLink(email, rememberMe);
+
+    const maskedEmail = OtpService.maskEmail(email);
+
+    res.status(200).json({
+      message: `If the email ${maskedEmail} exists, a sign-in link was sent.`
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error sending sign-in link!', 500));
+  }
+}
+
+export const consumeMagicLink = async (
+  req: Request<{}, {}, ConsumeMagicLinkBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { result, persistent } = await AuthService.consumeMagicLink(req.body.token, getClientContext(req));
+
+    sendLoginResult(res, result, persistent);
 
   } catch (error) {
     next(error instanceof HttpError ? error : new HttpError('Error logging in user!', 500));
   }
 }
 
+export const confirmOAuthLink = async (
+  req: Request<{}, {}, ConfirmOAuthLinkBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { linkToken, password } = req.body;
+    const context = getClientContext(req);
+    const { user, rememberMe } = await OAuthService.confirmLink(linkToken, password, context);
+
+    logger.info(`OAuth account linked for ${user.email}`);
+
+    const result = await AuthService.completeLogin(user, rememberMe, context, 'oauth');
+    sendLoginResult(res, result, rememberMe);
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error linking account!', 500));
+  }
+}
+
+export const getPasskeyLoginOptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+
+    res.status(200).json({
+      meta: { challengeId, options }
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error starting passkey sign-in!', 500));
+  }
+}
+
+export const loginWithPasskey = async (
+  req: Request<{}, {}, LoginWithPasskeyRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeId, credential, rememberMe } = req.body;
+    const result = await AuthService.loginWithPasskey(
+      challengeId,
+      credential as AuthenticationResponseJSON,
+      rememberMe,
+      getClientContext(req)
+    );
+
+    sendLoginResult(res, result, rememberMe);
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error logging in with passkey!', 500));
+  }
+}
+
 export const requestPasswordResetOtp = async (
   req: Request<{}, {}, RequestPasswordResetOtpBody>,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
+  const { email } = req.body;
+  let user: UserDocument | null = null;
+
   try {
-    const { email } = req.body;
-    const user: UserDocument | null = await UserService.getUserByEmail(email);
+    user = await UserService.getUserByEmail(email);
 
     const maskedEmail = OtpService.maskEmail(email);
 
     if (!user) {
+      await audit(req, 'otp_requested', undefined, 'Unknown email', { email });
       res.status(200).json({
         message: `If the email ${maskedEmail} exists, a reset code was sent.`
       });
@@ -79,12 +258,14 @@ export const requestPasswordResetOtp = async (
     }
 
     await OtpService.generateAndSendOtp(user);
+    await audit(req, 'otp_requested', user._id.toString());
 
     res.status(200).json({
       message: `If the email ${maskedEmail} exists, a reset code was sent.`
     });
 
   } catch (error) {
+    await audit(req, 'otp_requested', user?._id.toString(), error, { email });
     next(error instanceof HttpError ? error : new HttpError('Error requesting password reset!', 500));
   }
 };
@@ -96,22 +277,38 @@ export const verifyResetOtp = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
+  const { email, otp, backupCode } = req.body;
+  const method = backupCode ? 'backup_code' : 'otp';
+  let user: UserDocument | null = null;
+
   try {
-    const { email, otp } = req.body;
-    const result = await OtpService.verifyOtp(email, otp);
+    user = await UserService.getUserByEmail(email);
 
-    if (!result.success) {
-      if (typeof result.attemptsLeft === 'number') {
-        throw new HttpError('Invalid OTP!', 401, undefined, { attemptsLeft: result.attemptsLeft })
+    if (backupCode) {
+      const isValid = user ? await BackupCodeService.consume(user, backupCode, 'password-reset') : false;
+
+      if (!isValid) {
+        throw new HttpError('Invalid backup code', 401);
+      }
+    } else {
+      const result = await OtpService.verifyOtp(email, otp!);
+
+      if (!result.success) {
+        if (typeof result.attemptsLeft === 'number') {
+          throw new HttpError('Invalid OTP!', 401, undefined, { attemptsLeft: result.attemptsLeft })
+        }
+        throw new HttpError(`Invalid OTP`, 401);
       }
-      throw new HttpError(`Invalid OTP`, 401);
     }
     const resetToken = await ResetTokenService.createAndStore(email);
+    await audit(req, 'otp_verified', user?._id.toString(), undefined, { method });
+
     res.status(200).json({
       message: 'OTP verified successfully.',
       resetToken,
     });
   } catch (error) {
+    await audit(req, 'otp_verified', user?._id.toString(), error, { email, method });
     next(error instanceof HttpError ? error : new HttpError('Failed to verify OTP!', 500));
   }
 };
@@ -121,9 +318,9 @@ export const resetPassword = async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  try {
-    const { resetToken, newPassword, email } = req.body;
+  const { resetToken, newPassword, email } = req.body;
 
+  try {
     const verified = await ResetTokenService.verify(email, resetToken);
     if (!verified) {
       throw new HttpError('Invalid or expired reset token.', 401);
@@ -133,6 +330,7 @@ export const resetPassword = async (
     await ResetTokenService.delete(email);
 
     logger.info(`Password reset for ${email}`);
+    await audit(req, 'password_reset', user._id.toString());
 
     await EmailService.sendEmail('RESET_SUCCESS', {
       user
@@ -143,10 +341,46 @@ export const resetPassword = async (
     });
 
   } catch (error) {
+    await audit(req, 'password_reset', undefined, error, { email });
     next(error instanceof HttpError ? error : new HttpError('Failed to reset password.', 500));
   }
 };
 
+export const changePassword = async (
+  req: Request<{}, {}, ChangePasswordRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { currentPassword, newPassword } = req.body;
+
+  try {
+    const { user, refreshToken, persistent, revokedSessions } = await AuthService.updatePassword(
+      req.userId!,
+      req.sessionId!,
+      currentPassword,
+      newPassword
+    );
+
+    await audit(req, 'password_changed', req.userId, undefined, { revokedSessions });
+
+    await EmailService.sendEmail('RESET_SUCCESS', {
+      user
+    });
+
+    res
+      .cookie('refreshToken', refreshToken, refreshCookieOptions(persistent))
+      .status(200)
+      .json({
+        message: 'Password changed successfully.',
+        meta: { revokedSessions },
+      });
+
+  } catch (error) {
+    await audit(req, 'password_changed', req.userId, error);
+    next(error instanceof HttpError ? error : new HttpError('Failed to change password.', 500));
+  }
+};
+
 export const verifyEmail = async (
   req: Request<{}, {}, {}, RequestVerifyEmailQueryParam>,
   res: Response,
@@ -175,15 +409,139 @@ export const verifyEmail = async (
     await UserService.setEmailVerified(user, true);
 
     logger.info(`Email verified for ${user.email}`);
+    await audit(req, 'email_verified', user._id.toString());
 
     return res.redirect(`${env.frontendDomain}/email-verified?status=success`);
 
   } catch (error) {
     logger.error(`Email verification failed: ${(error as Error).message}`);
+    await audit(req, 'email_verified', undefined, error);
     return res.redirect(`${env.frontendDomain}/email-verified?status=invalid`);
   }
 };
 
+export const unlockAccount = async (
+  req: Request<{}, {}, {}, UnlockAccountQueryParam>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await LockoutService.unlockWithToken(req.query.token, getClientContext(req));
+
+    logger.info(`Account unlocked by email link for ${user.email}`);
+
+    return res.redirect(`${env.frontendDomain}/auth?unlock=success`);
+  } catch (error) {
+    logger.warn(`Account unlock failed: ${(error as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/auth?unlock=invalid`);
+  }
+};
+
+export const confirmEmailChange = async (
+  req: Request<{}, {}, {}, EmailChangeQueryParam>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await EmailChangeService.confirmChange(req.query.token, getClientContext(req));
+
+    logger.info(`Email change confirmed for user ${user._id.toString()}`);
+
+    return res.redirect(`${env.frontendDomain}/profile?emailChange=confirmed`);
+  } catch (error) {
+    logger.warn(`Email change confirmation failed: ${(error as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/profile?emailChange=invalid`);
+  }
+};
+
+export const cancelEmailChange = async (
+  req: Request<{}, {}, {}, EmailChangeQueryParam>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await EmailChangeService.cancelChange(req.query.token, getClientContext(req));
+
+    logger.info(`Email change cancelled for ${user.email}`);
+
+    return res.redirect(`${env.frontendDomain}/profile?emailChange=cancelled`);
+  } catch (error) {
+    logger.warn(`Email change cancellation failed: ${(error as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/profile?emailChange=invalid`);
+  }
+};
+
+export const deleteAccount = async (
+  req: Request<{}, {}, DeleteAccountRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const deletionScheduledAt = await AccountService.scheduleDeletion(
+      req.userId!,
+      req.body,
+      getClientContext(req)
+    );
+
+    clearRefreshCookie(res)
+      .status(202)
+      .json({
+        message: 'Your account will be deleted. Use the link we emailed you to keep it.',
+        meta: { deletionScheduledAt },
+      });
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error deleting account!', 500));
+  }
+};
+
+export const requestAccountDeletionLink = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await AccountService.requestDeletionLink(req.userId!);
+
+    res.status(202).json({ message: 'We emailed you a link to confirm deleting your account.' });
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error requesting account deletion!', 500));
+  }
+};
+
+export const confirmAccountDeletion = async (
+  req: Request<{}, {}, {}, ConfirmAccountDeletionQueryParam>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await AccountService.confirmDeletionWithToken(req.query.token, getClientContext(req));
+
+    return clearRefreshCookie(res).redirect(`${env.frontendDomain}/auth?accountDeletion=scheduled`);
+  } catch (error) {
+    logger.warn(`Account deletion confirmation failed: ${(error as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/auth?accountDeletion=invalid`);
+  }
+};
+
+export const restoreAccount = async (
+  req: Request<{}, {}, {}, RestoreAccountQueryParam>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await AccountService.restoreWithToken(req.query.token, getClientContext(req));
+
+    logger.info(`Account deletion cancelled by email link for ${user.email}`);
+
+    return res.redirect(`${env.frontendDomain}/auth?accountRestore=success`);
+  } catch (error) {
+    logger.warn(`Account restore failed: ${(error as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/auth?accountRestore=invalid`);
+  }
+};
+
 export const resendVerificationEmail = async (
   req: Request<{}, {}, RequestResendVerifyEmailBody>,
   res: Response,
@@ -235,24 +593,56 @@ export const refreshToken = async (
       throw new HttpError('No refresh token provided.', 401);
     }
 
-    const payload = TokenService.verifyToken(token);
-    if (payload.type !== 'refresh') throw new HttpError('Invalid token type.', 401);
+    const { accessToken, refreshToken, persistent } = await AuthService.refreshTokens(token, getClientContext(req));
 
-    const user = await UserService.getUserById(payload.userId);
-    if (!user) throw new HttpError('User no longer exists.', 401);
+    res
+      .cookie('refreshToken', refreshToken, refreshCookieOptions(persistent))
+      .status(200)
+      .json({
+        message: 'Token refreshed!',
+        meta: { accessToken }
+      });
 
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error refreshing token.', 401));
+  }
+};
 
-    const newAccessToken = TokenService.generateToken({
-      userId: payload.userId,
-      type: 'access'
-    }, '1h');
+export const logout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await AuthService.logout(req.auth!);
 
-    res.status(200).json({
-      message: 'Token refreshed!',
-      meta: { accessToken: newAccessToken }
-    });
+    clearRefreshCookie(res)
+      .status(200)
+      .json({
+        message: 'Logged out successfully.'
+      });
 
   } catch (error) {
-    next(error instanceof HttpError ? error : new HttpError('Error refreshing token.', 401));
+    next(error instanceof HttpError ? error : new HttpError('Error logging out.', 500));
+  }
+};
+
+export const logoutAll = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revokedCount = await AuthService.logoutAll(req.auth!);
+
+    clearRefreshCookie(res)
+      .status(200)
+      .json({
+        message: 'Logged out from all devices.',
+        meta: { revokedCount }
+      });
+
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error logging out.', 500));
   }
 };
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { env } from '../env';
+import { AuthService } from '../services/auth.service';
+import { OAuthService } from '../services/oauth.service';
+import { OtpService } from '../services/otp.service';
+import { OAuthAuthorizeQuery, OAuthCallbackQuery, OAuthProviderParams } from '../schemas/oauth.schema';
+
+// As long as the state itself is kept in Redis.
+const OAUTH_STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Lax, not strict: the provider sends the browser back with a cross-site redirect.
+const oauthStateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/api/v1/oauth',
+};
+
+export const listProviders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      meta: { providers: OAuthService.listProviders() },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing sign-in providers!', 500));
+  }
+};
+
+export const authorize = async (
+  req: Request<OAuthProviderParams, {}, {}, OAuthAuthorizeQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rememberMe = req.query.rememberMe === 'true';
+    const { url, state } = await OAuthService.createAuthorizationUrl(req.params.provider, rememberMe);
+
+    res
+      .cookie('oauthState', state, { ...oauthStateCookieOptions, maxAge: OAUTH_STATE_COOKIE_MAX_AGE_MS })
+      .redirect(url);
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error starting sign-in!', 500));
+  }
+};
+
+/**
+ * The provider redirects the browser here, so every outcome, including errors, ends in a
+ * redirect back to the frontend rather than a JSON response.
+ */
+export const callback = async (
+  req: Request<OAuthProviderParams, {}, {}, OAuthCallbackQuery>,
+  res: Response
+): Promise<void> => {
+  const { provider } = req.params;
+  const { code, state, error } = req.query;
+  const browserState: string | undefined = req.cookies?.oauthState;
+
+  // The state is single-use whatever the outcome.
+  res.clearCookie('oauthState', oauthStateCookieOptions);
+
+  try {
+    if (error) throw new HttpError(`Sign-in with ${provider} was cancelled.`, 400);
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      throw new HttpError('Invalid sign-in response.', 400);
+    }
+
+    const result = await OAuthService.handleCallback(provider, code, state, browserState);
+
+    if (result.type === 'link') {
+      const params = new URLSearchParams({
+        token: result.linkToken,
+        provider: result.provider,
+        email: OtpService.maskEmail(result.email),
+      });
+      return res.redirect(`${env.frontendDomain}/oauth/link?${params}`);
+    }
+
+    const ticket = await AuthService.issueLoginTicket(result.userId, result.rememberMe);
+    return res.redirect(`${env.frontendDomain}/magic-link?token=${ticket}`);
+
+  } catch (err) {
+    const message = err instanceof HttpError ? err.message : 'Sign-in failed. Please try again.';
+    logger.error(`OAuth callback for ${provider} failed: ${(err as Error).message}`);
+    return res.redirect(`${env.frontendDomain}/auth?oauthError=${encodeURIComponent(message)}`);
+  }
+};
@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { OidcService } from '../services/oidc.service';
+import {
+  OidcAuthorizationDecisionBody,
+  OidcAuthorizationRequestParams,
+  OidcAuthorizeQuery,
+  OidcClientParams,
+  oidcTokenRequestSchema,
+  RegisterOidcClientBody,
+} from '../schemas/oidc.schema';
+
+/**
+ * Reads client_secret_basic credentials. Both parts are form-encoded inside the
+ * base64 value (RFC 6749, section 2.3.1).
+ */
+const parseBasicAuth = (header?: string): { clientId: string; clientSecret: string } | null => {
+  if (!header?.startsWith('Basic ')) return null;
+
+  const decoded = Buffer.from(header.slice('Basic '.length), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return null;
+
+  return {
+    clientId: decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, ' ')),
+    clientSecret: decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, ' ')),
+  };
+};
+
+const sendOAuthError = (res: Response, error: unknown): void => {
+  if (error instanceof HttpError && typeof error.meta?.error === 'string') {
+    res.status(error.statusCode).json({ error: error.meta.error, error_description: error.message });
+    return;
+  }
+
+  logger.error(`OIDC token request failed: ${(error as Error).message}`);
+  res.status(500).json({ error: 'server_error' });
+};
+
+export const registerClient = async (
+  req: Request<{}, {}, RegisterOidcClientBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { client, clientSecret } = await OidcService.registerClient(req.userId!, req.body);
+
+    logger.info(`OIDC client ${client.clientId} registered by user ${req.userId}`);
+
+    res.status(201).json({
+      message: 'Client registered. Store the client secret now, it will not be shown again.',
+      meta: { client, clientSecret },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error registering client!', 500));
+  }
+};
+
+export const listClients = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const clients = await OidcService.listClients(req.userId!);
+
+    res.status(200).json({
+      meta: { clients },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing clients!', 500));
+  }
+};
+
+export const deleteClient = async (
+  req: Request<OidcClientParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const deleted = await OidcService.deleteClient(req.userId!, req.params.clientId);
+    if (!deleted) throw new HttpError('Client not found.', 404);
+
+    res.status(200).json({
+      message: 'Client deleted.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error deleting client!', 500));
+  }
+};
+
+export const authorize = async (
+  req: Request<{}, {}, {}, OidcAuthorizeQuery>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const redirectTo = await OidcService.startAuthorization(req.query);
+    res.redirect(redirectTo);
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error starting authorization!', 500));
+  }
+};
+
+export const getAuthorizationRequest = async (
+  req: Request<OidcAuthorizationRequestParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const request = await OidcService.getAuthorizationRequest(req.params.requestId, req.userId!);
+
+    res.status(200).json({
+      meta: request,
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error loading authorization request!', 500));
+  }
+};
+
+export const decideAuthorizationRequest = async (
+  req: Request<OidcAuthorizationRequestParams, {}, OidcAuthorizationDecisionBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const redirectTo = await OidcService.decideAuthorization(
+      req.params.requestId,
+      req.userId!,
+      req.sessionId!,
+      req.body.approved
+    );
+
+    res.status(200).json({
+      meta: { redirectTo },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error completing authorization!', 500));
+  }
+};
+
+export const token = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  res.set('Cache-Control', 'no-store').set('Pragma', 'no-cache');
+
+  const parsed = oidcTokenRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    const isGrantType = parsed.error.issues.some((issue) => issue.path[0] === 'grant_type');
+    res.status(400).json({
+      error: isGrantType ? 'unsupported_grant_type' : 'invalid_request',
+      error_description: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+    });
+    return;
+  }
+
+  const body = parsed.data;
+  const basic = parseBasicAuth(req.get('Authorization'));
+  const clientId = basic?.clientId ?? body.client_id;
+
+  if (!clientId) {
+    res.status(401).json({ error: 'invalid_client', error_description: 'Client authentication failed.' });
+    return;
+  }
+
+  try {
+    const tokens = await OidcService.exchangeCode({
+      code: body.code,
+      redirectUri: body.redirect_uri,
+      codeVerifier: body.code_verifier,
+      clientId,
+      clientSecret: basic?.clientSecret ?? body.client_secret,
+    });
+
+    res.status(200).json(tokens);
+  } catch (error) {
+    sendOAuthError(res, error);
+  }
+};
+
+export const userInfo = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const header = req.get('Authorization');
+  const accessToken = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+  try {
+    if (!accessToken) throw new HttpError('Missing access token.', 401);
+
+    res.status(200).json(await OidcService.getUserInfo(accessToken));
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 401) {
+      res
+        .set('WWW-Authenticate', 'Bearer error="invalid_token"')
+        .status(401)
+        .json({ error: 'invalid_token', error_description: error.message });
+      return;
+    }
+
+    logger.error(`OIDC userinfo request failed: ${(error as Error).message}`);
+    res.status(500).json({ error: 'server_error' });
+  }
+};
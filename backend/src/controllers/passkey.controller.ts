@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from 'express';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { UserService } from '../services/user.service';
+import { PasskeyService } from '../services/passkey.service';
+import { PasskeyParams, PasskeyRegistrationOptionsBody, VerifyPasskeyRegistrationBody } from '../schemas/passkey.schema';
+
+export const getRegistrationOptions = async (
+  req: Request<{}, {}, PasskeyRegistrationOptionsBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await UserService.getUserById(req.userId!);
+    if (!user) throw new HttpError('User not found', 404);
+
+    const options = await PasskeyService.generateRegistrationOptions(user, req.body);
+
+    res.status(200).json({
+      meta: { options },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error starting passkey registration!', 500));
+  }
+};
+
+export const verifyRegistration = async (
+  req: Request<{}, {}, VerifyPasskeyRegistrationBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await UserService.getUserById(req.userId!);
+    if (!user) throw new HttpError('User not found', 404);
+
+    const { credential, name, password, code } = req.body;
+    const passkey = await PasskeyService.verifyRegistration(
+      user,
+      credential as RegistrationResponseJSON,
+      { password, code },
+      name
+    );
+
+    logger.info(`Passkey registered for ${user.email}`);
+
+    res.status(201).json({
+      message: 'Passkey registered.',
+      passkey,
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error registering passkey!', 500));
+  }
+};
+
+export const listPasskeys = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const passkeys = await PasskeyService.listPasskeys(req.userId!);
+
+    res.status(200).json({
+      passkeys,
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing passkeys!', 500));
+  }
+};
+
+export const deletePasskey = async (
+  req: Request<PasskeyParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const deleted = await PasskeyService.deletePasskey(req.userId!, req.params.id);
+
+    if (!deleted) {
+      throw new HttpError('Passkey not found.', 404);
+    }
+
+    res.status(200).json({
+      message: 'Passkey removed.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error removing passkey!', 500));
+  }
+};
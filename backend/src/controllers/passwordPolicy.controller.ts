@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { describePasswordPolicy, passwordPolicy } from '../utils/passwordPolicy';
+
+const POLICY_MAX_AGE_SECONDS = 300;
+
+
+export const getPasswordPolicy = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    res
+      .set('Cache-Control', `public, max-age=${POLICY_MAX_AGE_SECONDS}`)
+      .status(200)
+      .json({
+        meta: {
+          policy: passwordPolicy,
+          rules: describePasswordPolicy(),
+        },
+      });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error loading password policy!', 500));
+  }
+};
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { getClientContext } from '../utils/clientContext';
+import { ProfileService } from '../services/profile.service';
+import { EmailChangeService } from '../services/emailChange.service';
+import { AccountService } from '../services/account.service';
+import { RequestEmailChangeBody, UpdateProfileRequestBody } from '../schemas/profile.schema';
+
+export const getProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const profile = await ProfileService.getProfile(req.userId!);
+
+    res.status(200).json({
+      meta: { user: profile },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error loading profile!', 500));
+  }
+};
+
+export const updateProfile = async (
+  req: Request<{}, {}, UpdateProfileRequestBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const profile = await ProfileService.updateProfile(req.userId!, req.body);
+
+    res.status(200).json({
+      message: 'Profile updated.',
+      meta: { user: profile },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error updating profile!', 500));
+  }
+};
+
+export const requestEmailChange = async (
+  req: Request<{}, {}, RequestEmailChangeBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await EmailChangeService.requestChange(req.userId!, req.body.email, getClientContext(req));
+
+    res.status(202).json({
+      message: `A confirmation link was sent to ${req.body.email}. Your email will change once you confirm it.`,
+      meta: { user: ProfileService.toView(user) },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error requesting email change!', 500));
+  }
+};
+
+export const exportAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const archive = await AccountService.exportData(req.userId!, getClientContext(req));
+    const filename = `account-export-${archive.exportedAt.toISOString().slice(0, 10)}.json`;
+
+    res
+      .status(200)
+      .attachment(filename)
+      .type('application/json')
+      .send(JSON.stringify(archive, null, 2));
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error exporting account data!', 500));
+  }
+};
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { ValidatedQuery } from '../middlewares/validate';
+import { getClientContext } from '../utils/clientContext';
+import { AuditService } from '../services/audit.service';
+import { AdminSecurityEventsQuery, SecurityEventsQuery } from '../schemas/audit.schema';
+
+export const listMySecurityEvents = async (
+  req: Request,
+  res: Response<unknown, ValidatedQuery<SecurityEventsQuery>>,
+  next: NextFunction
+): Promise<void> => {
+  const { page, limit } = res.locals.query;
+
+  try {
+    const result = await AuditService.listForUser(req.userId!, page, limit);
+
+    res.status(200).json({
+      meta: result,
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing security events!', 500));
+  }
+};
+
+export const searchSecurityEvents = async (
+  req: Request,
+  res: Response<unknown, ValidatedQuery<AdminSecurityEventsQuery>>,
+  next: NextFunction
+): Promise<void> => {
+  const { page, limit, ...filters } = res.locals.query;
+
+  try {
+    const result = await AuditService.search(filters, page, limit);
+
+    // Reading the audit log is itself an administrator action.
+    await AuditService.record({
+      action: 'admin.security_events.search',
+      actorId: req.userId,
+      context: getClientContext(req),
+      details: { ...filters, page, limit },
+    });
+
+    res.status(200).json({
+      meta: result,
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error searching security events!', 500));
+  }
+};
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { SessionService } from '../services/session.service';
+import { RevokeSessionParams } from '../schemas/session.schema';
+
+
+export const listSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessions = await SessionService.listSessions(req.userId!);
+
+    res.status(200).json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error listing sessions!', 500));
+  }
+};
+
+export const revokeSession = async (
+  req: Request<RevokeSessionParams>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revoked = await SessionService.revokeSession(req.userId!, req.params.id);
+
+    if (!revoked) {
+      throw new HttpError('Session not found.', 404);
+    }
+
+    res.status(200).json({
+      message: 'Session revoked.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error revoking session!', 500));
+  }
+};
+
+export const revokeOtherSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const revokedCount = await SessionService.revokeAllSessions(req.userId!, req.sessionId);
+
+    res.status(200).json({
+      message: 'All other sessions revoked.',
+      meta: { revokedCount },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error revoking sessions!', 500));
+  }
+};
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { UserDocument } from '../models/user';
+import { UserService } from '../services/user.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { BackupCodeService } from '../services/backupCode.service';
+import { ReauthBody, TwoFactorCodeBody } from '../schemas/twoFactor.schema';
+
+const getCurrentUser = async (req: Request): Promise<UserDocument> => {
+  const user = await UserService.getUserById(req.userId!);
+  if (!user) throw new HttpError('User not found', 404);
+  return user;
+};
+
+export const setupTotp = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    const { secret, otpauthUri } = await TwoFactorService.startTotpEnrollment(user);
+
+    res.status(200).json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code.',
+      meta: { secret, otpauthUri },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error starting two-factor setup!', 500));
+  }
+};
+
+export const confirmTotp = async (
+  req: Request<{}, {}, TwoFactorCodeBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    await TwoFactorService.confirmTotpEnrollment(user, req.body.code);
+
+    logger.info(`Two-factor authentication enabled for ${user.email}`);
+
+    res.status(200).json({
+      message: 'Two-factor authentication enabled.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error confirming two-factor setup!', 500));
+  }
+};
+
+export const disableTotp = async (
+  req: Request<{}, {}, TwoFactorCodeBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    await TwoFactorService.disableTotp(user, req.body.code);
+
+    logger.info(`Two-factor authentication disabled for ${user.email}`);
+
+    res.status(200).json({
+      message: 'Two-factor authentication disabled.',
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error disabling two-factor authentication!', 500));
+  }
+};
+
+export const regenerateBackupCodes = async (
+  req: Request<{}, {}, ReauthBody>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+    const codes = await BackupCodeService.regenerate(user, req.body);
+
+    logger.info(`Backup codes regenerated for ${user.email}`);
+
+    res.status(200).json({
+      message: 'Store these backup codes somewhere safe. Each code can be used once.',
+      meta: { codes },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error generating backup codes!', 500));
+  }
+};
+
+export const countBackupCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await getCurrentUser(req);
+
+    res.status(200).json({
+      meta: { remaining: BackupCodeService.countRemaining(user) },
+    });
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error counting backup codes!', 500));
+  }
+};
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { TokenService } from '../services/token.service';
+import { OidcService } from '../services/oidc.service';
+
+const JWKS_MAX_AGE_SECONDS = 300;
+const DISCOVERY_MAX_AGE_SECONDS = 300;
+
+
+export const getJwks = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    res
+      .set('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`)
+      .status(200)
+      .json(TokenService.getJwks());
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error loading signing keys!', 500));
+  }
+};
+
+export const getOpenIdConfiguration = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    res
+      .set('Cache-Control', `public, max-age=${DISCOVERY_MAX_AGE_SECONDS}`)
+      .status(200)
+      .json(OidcService.getDiscoveryDocument());
+  } catch (error) {
+    next(error instanceof HttpError ? error : new HttpError('Error loading OpenID configuration!', 500));
+  }
+};
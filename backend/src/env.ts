@@ -1,3 +1,4 @@
+import path from 'path';
 import { z } from 'zod';
 
 import dotenv from 'dotenv';
@@ -7,9 +8,60 @@ dotenv.config();
 const envSchema = z.object({
   MONGODB_URI: z.string().url({ message: 'MONGODB_URI must be a valid URL' }),
   BCRYPT_SALT_ROUNDS: z.string().regex(/^\d+$/, { message: 'Must be a number' }),
+  PASSWORD_HASH_ALGORITHM: z.enum(['argon2id', 'bcrypt']).default('argon2id'),
+  ARGON2_MEMORY_COST_KIB: z.string().regex(/^[1-9]\d*$/, { message: 'ARGON2_MEMORY_COST_KIB must be a positive number' }).default('65536'),
+  ARGON2_TIME_COST: z.string().regex(/^[1-9]\d*$/, { message: 'ARGON2_TIME_COST must be a positive number' }).default('3'),
+  ARGON2_PARALLELISM: z.string().regex(/^[1-9]\d*$/, { message: 'ARGON2_PARALLELISM must be a positive number' }).default('4'),
   ACCESS_TOKEN_SECRET: z.string().min(1, 'Missing ACCESS_TOKEN_SECRET'),
   REFRESH_TOKEN_SECRET: z.string().min(1, 'Missing REFRESH_TOKEN_SECRET'),
   VERIFICATION_TOKEN_SECRET: z.string().min(1, 'Missing VERIFICATION_TOKEN_SECRET'),
+  ACCESS_TOKEN_ALGORITHM: z.enum(['HS256', 'RS256', 'EdDSA']).default('HS256'),
+  ACCESS_TOKEN_PRIVATE_KEY_PATH: z.string().optional(),
+  ACCESS_TOKEN_KEY_ID: z.string().optional(),
+  JWT_KEYRING_PATH: z.string().optional(),
+  ID_TOKEN_ALGORITHM: z.enum(['RS256', 'EdDSA']).default('RS256'),
+  ID_TOKEN_PRIVATE_KEY_PATH: z.string().optional(),
+  ID_TOKEN_KEY_ID: z.string().optional(),
+  JWT_ISSUER: z.string().optional(),
+  JWT_AUDIENCE: z.string().optional(),
+  ACCESS_TOKEN_ISSUER: z.string().optional(),
+  ACCESS_TOKEN_AUDIENCE: z.string().optional(),
+  REFRESH_TOKEN_ISSUER: z.string().optional(),
+  REFRESH_TOKEN_AUDIENCE: z.string().optional(),
+  VERIFICATION_TOKEN_ISSUER: z.string().optional(),
+  VERIFICATION_TOKEN_AUDIENCE: z.string().optional(),
+  JWT_CLOCK_TOLERANCE_SECONDS: z.string().regex(/^\d+$/, { message: 'JWT_CLOCK_TOLERANCE_SECONDS must be a number' }).default('0'),
+  TOTP_ISSUER: z.string().min(1).default('JWT Auth Template'),
+  WEBAUTHN_RP_ID: z.string().optional(),
+  WEBAUTHN_RP_NAME: z.string().min(1).default('JWT Auth Template'),
+  WEBAUTHN_ORIGIN: z.string().url({ message: 'WEBAUTHN_ORIGIN must be a valid URL' }).optional(),
+  GOOGLE_CLIENT_ID: z.string().optional(),
+  GOOGLE_CLIENT_SECRET: z.string().optional(),
+  GITHUB_CLIENT_ID: z.string().optional(),
+  GITHUB_CLIENT_SECRET: z.string().optional(),
+  OIDC_PROVIDER_NAME: z.string().regex(/^[a-z0-9-]+$/, { message: 'OIDC_PROVIDER_NAME must be lowercase letters, digits or dashes' }).default('oidc'),
+  OIDC_ISSUER: z.string().url({ message: 'OIDC_ISSUER must be a valid URL' }).optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+  OIDC_SCOPES: z.string().default('openid email profile'),
+  ACCOUNT_LOCKOUT_THRESHOLD: z.string().regex(/^[1-9]\d*$/, { message: 'ACCOUNT_LOCKOUT_THRESHOLD must be a positive number' }).default('5'),
+  ACCOUNT_LOCKOUT_BASE_SECONDS: z.string().regex(/^[1-9]\d*$/, { message: 'ACCOUNT_LOCKOUT_BASE_SECONDS must be a positive number' }).default('60'),
+  ACCOUNT_LOCKOUT_MAX_SECONDS: z.string().regex(/^[1-9]\d*$/, { message: 'ACCOUNT_LOCKOUT_MAX_SECONDS must be a positive number' }).default('86400'),
+  ACCOUNT_DELETION_GRACE_DAYS: z.string().regex(/^[1-9]\d*$/, { message: 'ACCOUNT_DELETION_GRACE_DAYS must be a positive number' }).default('14'),
+  ACCOUNT_PURGE_INTERVAL_SECONDS: z.string().regex(/^[1-9]\d*$/, { message: 'ACCOUNT_PURGE_INTERVAL_SECONDS must be a positive number' }).default('3600'),
+  // The bundled corpus, found from this file so the server can start from any directory.
+  BREACHED_PASSWORDS_PATH: z.string().min(1).default(path.resolve(__dirname, '../data/breached-passwords.txt')),
+  PASSWORD_MIN_LENGTH: z.string().regex(/^[1-9]\d*$/, { message: 'PASSWORD_MIN_LENGTH must be a positive number' }).default('8'),
+  PASSWORD_MAX_LENGTH: z.string().regex(/^[1-9]\d*$/, { message: 'PASSWORD_MAX_LENGTH must be a positive number' }).default('128'),
+  PASSWORD_REQUIRE_UPPERCASE: z.enum(['true', 'false']).default('true'),
+  PASSWORD_REQUIRE_LOWERCASE: z.enum(['true', 'false']).default('true'),
+  PASSWORD_REQUIRE_DIGIT: z.enum(['true', 'false']).default('true'),
+  PASSWORD_REQUIRE_SYMBOL: z.enum(['true', 'false']).default('true'),
+  PASSWORD_MIN_STRENGTH: z.string().regex(/^[0-4]$/, { message: 'PASSWORD_MIN_STRENGTH must be a score from 0 to 4' }).default('2'),
+  // Each remembered password costs a hash check whenever a password is changed.
+  PASSWORD_HISTORY_SIZE: z.string().regex(/^(1?\d|2[0-4])$/, { message: 'PASSWORD_HISTORY_SIZE must be a number from 0 to 24' }).default('5'),
+  PASSWORD_FORBID_PERSONAL_INFO: z.enum(['true', 'false']).default('true'),
+  PASSWORD_REJECT_BREACHED: z.enum(['true', 'false']).default('true'),
   AES_256_CBC_ENCRYPTION_KEY: z
     .string()
     .length(64, 'AES key must be 64 hex characters for AES-256-CBC')
@@ -21,7 +73,20 @@ const envSchema = z.object({
   FRONTEND_DOMAIN: z.string().url({ message: 'FRONTEND_DOMAIN must be a valid URL' }),
   BACKEND_DOMAIN: z.string().url({ message: 'BACKEND_DOMAIN must be a valid URL' }),
   NODE_ENV: z.enum(['development', 'production', 'test']),
-});
+}).refine(
+  // A key ring file brings its own access keys; the PEM is only read without one.
+  (data) => data.ACCESS_TOKEN_ALGORITHM === 'HS256' || !!data.JWT_KEYRING_PATH || !!data.ACCESS_TOKEN_PRIVATE_KEY_PATH,
+  {
+    message: 'ACCESS_TOKEN_PRIVATE_KEY_PATH is required for asymmetric access token algorithms unless JWT_KEYRING_PATH is set',
+    path: ['ACCESS_TOKEN_PRIVATE_KEY_PATH'],
+  }
+).refine(
+  (data) => parseInt(data.PASSWORD_MIN_LENGTH, 10) <= parseInt(data.PASSWORD_MAX_LENGTH, 10),
+  {
+    message: 'PASSWORD_MIN_LENGTH must not exceed PASSWORD_MAX_LENGTH',
+    path: ['PASSWORD_MIN_LENGTH'],
+  }
+);
 
 const _env = envSchema.safeParse(process.env);
 
@@ -31,12 +96,89 @@ if (!_env.success) {
   process.exit(1);
 }
 
+const jwtIssuer = _env.data.JWT_ISSUER ?? _env.data.BACKEND_DOMAIN;
+const jwtAudience = _env.data.JWT_AUDIENCE ?? _env.data.BACKEND_DOMAIN;
+
 export const env = {
   mongodbUri: _env.data.MONGODB_URI,
   bcryptSaltRounds: parseInt(_env.data.BCRYPT_SALT_ROUNDS, 10),
+  passwordHashAlgorithm: _env.data.PASSWORD_HASH_ALGORITHM,
+  argon2: {
+    memoryCost: parseInt(_env.data.ARGON2_MEMORY_COST_KIB, 10),
+    timeCost: parseInt(_env.data.ARGON2_TIME_COST, 10),
+    parallelism: parseInt(_env.data.ARGON2_PARALLELISM, 10),
+  },
   accessTokenSecret: _env.data.ACCESS_TOKEN_SECRET,
   refreshTokenSecret: _env.data.REFRESH_TOKEN_SECRET,
   verificationTokenSecret: _env.data.VERIFICATION_TOKEN_SECRET,
+  accessTokenAlgorithm: _env.data.ACCESS_TOKEN_ALGORITHM,
+  accessTokenPrivateKeyPath: _env.data.ACCESS_TOKEN_PRIVATE_KEY_PATH,
+  accessTokenKeyId: _env.data.ACCESS_TOKEN_KEY_ID,
+  jwtKeyRingPath: _env.data.JWT_KEYRING_PATH,
+  idTokenAlgorithm: _env.data.ID_TOKEN_ALGORITHM,
+  idTokenPrivateKeyPath: _env.data.ID_TOKEN_PRIVATE_KEY_PATH,
+  idTokenKeyId: _env.data.ID_TOKEN_KEY_ID,
+  jwtClaims: {
+    access: {
+      issuer: _env.data.ACCESS_TOKEN_ISSUER ?? jwtIssuer,
+      audience: _env.data.ACCESS_TOKEN_AUDIENCE ?? jwtAudience,
+    },
+    refresh: {
+      issuer: _env.data.REFRESH_TOKEN_ISSUER ?? jwtIssuer,
+      audience: _env.data.REFRESH_TOKEN_AUDIENCE ?? jwtAudience,
+    },
+    verification: {
+      issuer: _env.data.VERIFICATION_TOKEN_ISSUER ?? jwtIssuer,
+      audience: _env.data.VERIFICATION_TOKEN_AUDIENCE ?? jwtAudience,
+    },
+  },
+  jwtClockToleranceSeconds: parseInt(_env.data.JWT_CLOCK_TOLERANCE_SECONDS, 10),
+  totpIssuer: _env.data.TOTP_ISSUER,
+  webauthn: {
+    rpId: _env.data.WEBAUTHN_RP_ID ?? new URL(_env.data.FRONTEND_DOMAIN).hostname,
+    rpName: _env.data.WEBAUTHN_RP_NAME,
+    origin: _env.data.WEBAUTHN_ORIGIN ?? _env.data.FRONTEND_DOMAIN,
+  },
+  oauth: {
+    callbackBaseUrl: `${_env.data.BACKEND_DOMAIN}/api/v1/oauth`,
+    google: _env.data.GOOGLE_CLIENT_ID && _env.data.GOOGLE_CLIENT_SECRET
+      ? { clientId: _env.data.GOOGLE_CLIENT_ID, clientSecret: _env.data.GOOGLE_CLIENT_SECRET }
+      : undefined,
+    github: _env.data.GITHUB_CLIENT_ID && _env.data.GITHUB_CLIENT_SECRET
+      ? { clientId: _env.data.GITHUB_CLIENT_ID, clientSecret: _env.data.GITHUB_CLIENT_SECRET }
+      : undefined,
+    oidc: _env.data.OIDC_ISSUER && _env.data.OIDC_CLIENT_ID && _env.data.OIDC_CLIENT_SECRET
+      ? {
+        name: _env.data.OIDC_PROVIDER_NAME,
+        issuer: _env.data.OIDC_ISSUER,
+        clientId: _env.data.OIDC_CLIENT_ID,
+        clientSecret: _env.data.OIDC_CLIENT_SECRET,
+        scopes: _env.data.OIDC_SCOPES.split(' ').filter(Boolean),
+      }
+      : undefined,
+  },
+  accountLockout: {
+    threshold: parseInt(_env.data.ACCOUNT_LOCKOUT_THRESHOLD, 10),
+    baseSeconds: parseInt(_env.data.ACCOUNT_LOCKOUT_BASE_SECONDS, 10),
+    maxSeconds: parseInt(_env.data.ACCOUNT_LOCKOUT_MAX_SECONDS, 10),
+  },
+  accountDeletion: {
+    graceDays: parseInt(_env.data.ACCOUNT_DELETION_GRACE_DAYS, 10),
+    purgeIntervalSeconds: parseInt(_env.data.ACCOUNT_PURGE_INTERVAL_SECONDS, 10),
+  },
+  breachedPasswordsPath: _env.data.BREACHED_PASSWORDS_PATH,
+  passwordPolicy: {
+    minLength: parseInt(_env.data.PASSWORD_MIN_LENGTH, 10),
+    maxLength: parseInt(_env.data.PASSWORD_MAX_LENGTH, 10),
+    requireUppercase: _env.data.PASSWORD_REQUIRE_UPPERCASE === 'true',
+    requireLowercase: _env.data.PASSWORD_REQUIRE_LOWERCASE === 'true',
+    requireDigit: _env.data.PASSWORD_REQUIRE_DIGIT === 'true',
+    requireSymbol: _env.data.PASSWORD_REQUIRE_SYMBOL === 'true',
+    minStrength: parseInt(_env.data.PASSWORD_MIN_STRENGTH, 10),
+    historySize: parseInt(_env.data.PASSWORD_HISTORY_SIZE, 10),
+    forbidPersonalInfo: _env.data.PASSWORD_FORBID_PERSONAL_INFO === 'true',
+    rejectBreached: _env.data.PASSWORD_REJECT_BREACHED === 'true',
+  },
   aesEncryptionKey: _env.data.AES_256_CBC_ENCRYPTION_KEY,
   emailUser: _env.data.EMAIL_USER,
   emailPass: _env.data.EMAIL_PASS,
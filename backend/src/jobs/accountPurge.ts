@@ -0,0 +1,21 @@
+import { env } from '../env';
+import { AccountService } from '../services/account.service';
+import logger from '../utils/logger';
+
+/**
+ * Purges accounts whose deletion grace period has ended, once at startup and then every
+ * `ACCOUNT_PURGE_INTERVAL_SECONDS`. The timer does not keep the process alive on its own.
+ */
+export const scheduleAccountPurge = (): NodeJS.Timeout => {
+  const run = async (): Promise<void> => {
+    try {
+      const purged = await AccountService.purgeDueAccounts();
+      if (purged > 0) logger.info(`Purged ${purged} deleted account(s)`);
+    } catch (error) {
+      logger.error(`Scheduled account purge failed: ${(error as Error).message}`);
+    }
+  };
+
+  void run();
+  return setInterval(run, env.accountDeletion.purgeIntervalSeconds * 1000).unref();
+};
@@ -0,0 +1,15 @@
+import { UserService } from '../services/user.service';
+import logger from '../utils/logger';
+
+/**
+ * Trims stored password histories to PASSWORD_HISTORY_SIZE, once at startup, so lowering
+ * the setting does not leave old hashes behind.
+ */
+export const prunePasswordHistory = async (): Promise<void> => {
+  try {
+    const pruned = await UserService.prunePasswordHistory();
+    if (pruned > 0) logger.info(`Pruned the password history of ${pruned} user(s)`);
+  } catch (error) {
+    logger.error(`Password history pruning failed: ${(error as Error).message}`);
+  }
+};
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../utils/HttpError';
+import { Permission, Role } from '../utils/permissions';
+
+/**
+ * Admits users holding at least one of the given roles. Must run after `loginRequired`.
+ */
+export const requireRole = (...roles: Role[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.userId) return next(new HttpError('Not authenticated', 401));
+
+  if (!roles.some((role) => req.roles?.includes(role))) {
+    return next(new HttpError('You do not have permission to perform this action.', 403, undefined, { requiredRoles: roles }));
+  }
+
+  next();
+};
+
+/**
+ * Admits users holding every one of the given permissions. Must run after `loginRequired`.
+ */
+export const requirePermission = (...permissions: Permission[]) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.userId) return next(new HttpError('Not authenticated', 401));
+
+  const missing = permissions.filter((permission) => !req.permissions?.includes(permission));
+  if (missing.length > 0) {
+    return next(new HttpError('You do not have permission to perform this action.', 403, undefined, { missingPermissions: missing }));
+  }
+
+  next();
+};
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Tags every request with a correlation id, so audit events and log lines written while
+ * handling it can be tied together. A well-formed id sent by the client or a proxy is
+ * kept; anything else is replaced with a fresh one. The id is echoed in the response.
+ */
+const correlationId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(CORRELATION_ID_HEADER);
+
+  req.correlationId = incoming && VALID_CORRELATION_ID.test(incoming) ? incoming : uuidv4();
+  res.setHeader(CORRELATION_ID_HEADER, req.correlationId);
+
+  next();
+};
+
+export default correlationId;
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import HttpError from '../utils/HttpError';
+import { getClientContext } from '../utils/clientContext';
+import { AuditService } from '../services/audit.service';
 
 
 // Global error handling middleware
@@ -21,6 +23,19 @@ const errorHandler = (
   const details = httpError.details;
   const meta = httpError.meta;
 
+  // Every rate limiter reports through a 429, so this is where their hits get audited.
+  // The path leaves out the query string, which can carry tokens.
+  if (statusCode === 429) {
+    void AuditService.record({
+      action: 'security.rate_limited',
+      actorId: request.userId,
+      targetUserId: request.userId,
+      outcome: 'failure',
+      context: getClientContext(request),
+      details: { method: request.method, path: `${request.baseUrl ?? ''}${request.path ?? ''}` },
+    });
+  }
+
   const errorResponse: Record<string, any> = { message };
   if (details !== undefined && details !== null) {
     errorResponse.details = details;
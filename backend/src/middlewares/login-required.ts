@@ -1,41 +1,121 @@
 import { Request, Response, NextFunction } from 'express';
-import { TokenPayloadData, TokenService } from '../services/token.service';
+import { DecodedToken, TokenService } from '../services/token.service';
+import { SessionService } from '../services/session.service';
+import { ApiKeyService } from '../services/apiKey.service';
+import { RbacService } from '../services/rbac.service';
+import { AccessTokenDenylistRedisService } from '../services/redis.service';
 import HttpError from '../utils/HttpError';
+import { getClientContext } from '../utils/clientContext';
+import { ApiKeyScope } from '../schemas/apiKey.schema';
+import { accessClaimsFor } from '../utils/permissions';
 
-const loginRequired = (request: Request, response: Response, next: NextFunction): void => {
-  // Retrieve the Authorization header
-  const header = request.get('Authorization');
-
-  // Check if the Authorization header is provided
-  if (!header) {
-    return next(new HttpError('No authorization header provided in the request', 401));
-  }
-
-  // Check if the header is in the correct format 'Bearer <token>'
-  const headerParts = header.split(' ');
-  if (headerParts.length !== 2 || headerParts[0] !== 'Bearer') {
-    return next(new HttpError('Invalid authorization header format', 401));
+const authenticateApiKey = async (
+  request: Request,
+  key: string,
+  scope: ApiKeyScope | undefined,
+  next: NextFunction
+): Promise<void> => {
+  // Routes opt in to API keys explicitly, so account and security endpoints stay
+  // reachable only from an interactive login.
+  if (!scope) {
+    return next(new HttpError('API keys cannot be used for this endpoint', 403));
   }
 
-  // Extract the token from the Authorization header
-  const token = headerParts[1];
-
-  let decoded: TokenPayloadData;
-
+  let apiKey;
   try {
-    // Verify the token using the secret key from environment variables
-    decoded = TokenService.verifyToken(token);
+    apiKey = await ApiKeyService.authenticate(key, getClientContext(request).ip);
   } catch (e) {
-    return next(new HttpError('Token verification failed', 401))
+    return next(new HttpError('Error verifying API key', 500));
   }
 
-  if (!decoded || decoded?.type !== 'access') return next(new HttpError('Not authenticated', 401))
+  if (!apiKey) return next(new HttpError('Invalid or expired API key', 401));
+
+  if (!apiKey.scopes.includes(scope)) {
+    return next(new HttpError(`API key is missing the ${scope} scope`, 403));
+  }
 
-  // Attach the userId from the token to the request object for further use in routes
-  request.userId = decoded.userId;
+  request.userId = apiKey.userId;
+  request.apiKey = { id: apiKey.keyId, scopes: apiKey.scopes };
+  // A key acts with its scopes only, never with its owner's roles.
+  request.roles = [];
+  request.permissions = apiKey.scopes;
 
-  // Proceed to the next middleware or route handler
   next();
 };
 
+const authenticate = (apiKeyScope?: ApiKeyScope) =>
+  async (request: Request, response: Response, next: NextFunction): Promise<void> => {
+    // Retrieve the Authorization header
+    const header = request.get('Authorization');
+
+    // Check if the Authorization header is provided
+    if (!header) {
+      return next(new HttpError('No authorization header provided in the request', 401));
+    }
+
+    // Check if the header is in the correct format 'Bearer <token>' or 'ApiKey <key>'
+    const headerParts = header.split(' ');
+    if (headerParts.length !== 2 || !['Bearer', 'ApiKey'].includes(headerParts[0])) {
+      return next(new HttpError('Invalid authorization header format', 401));
+    }
+
+    if (headerParts[0] === 'ApiKey') {
+      return authenticateApiKey(request, headerParts[1], apiKeyScope, next);
+    }
+
+    // Extract the token from the Authorization header
+    const token = headerParts[1];
+
+    let decoded: DecodedToken;
+
+    try {
+      // Verify the token using the secret key from environment variables
+      decoded = TokenService.verifyToken(token);
+    } catch (e) {
+      return next(new HttpError('Token verification failed', 401))
+    }
+
+    if (!decoded || decoded?.type !== 'access') return next(new HttpError('Not authenticated', 401))
+
+    try {
+      // Reject access tokens that were explicitly logged out
+      if (decoded.jti && await AccessTokenDenylistRedisService.has(decoded.jti)) {
+        return next(new HttpError('Token has been revoked', 401));
+      }
+
+      // Reject tokens whose session was revoked (logout, session list, refresh token reuse)
+      if (!decoded.sessionId || !(await SessionService.isActive(decoded.sessionId, decoded.userId))) {
+        return next(new HttpError('Session has been revoked', 401));
+      }
+
+      // Reject tokens whose role and permission claims are outdated; a refresh picks up the new ones
+      if (await RbacService.isStale(decoded.userId, decoded.authzVersion)) {
+        return next(new HttpError('Permissions changed, please refresh your access token', 401, undefined, { permissionsChanged: true }));
+      }
+
+      await SessionService.touch(decoded.userId, decoded.sessionId, getClientContext(request));
+    } catch (e) {
+      return next(new HttpError('Redis Server Error!', 500));
+    }
+
+    // Attach the userId, sessionId and decoded token to the request object for further use in routes
+    request.userId = decoded.userId;
+    request.sessionId = decoded.sessionId;
+    request.auth = decoded;
+    // Tokens issued before roles existed carry no claims and get the default role's
+    const claims = decoded.roles ? decoded : accessClaimsFor({});
+    request.roles = claims.roles ?? [];
+    request.permissions = claims.permissions ?? [];
+
+    // Proceed to the next middleware or route handler
+    next();
+  };
+
+const loginRequired = authenticate();
+
+/**
+ * Like `loginRequired`, but also admits API keys that were granted `scope`.
+ */
+export const allowApiKey = (scope: ApiKeyScope) => authenticate(scope);
+
 export default loginRequired;
@@ -0,0 +1,66 @@
+import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../../../utils/HttpError';
+import redisClient from '../../../utils/redisClient';
+
+const changePasswordShortTermLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:change-password:user:short-term',
+  points: 1,
+  duration: 5,
+});
+
+// Bounds guessing of the current password from a stolen session.
+const changePasswordHourlyLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:change-password:user:hourly',
+  points: 5,
+  duration: 60 * 60,
+});
+
+/**
+ * Runs after `loginRequired`, so attempts are counted per account rather than per IP.
+ */
+const changePasswordLimiter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userKey = req.userId ?? 'unknown';
+
+  try {
+    const hourlyRes = await changePasswordHourlyLimiter.get(userKey);
+    if (hourlyRes?.remainingPoints === 0) {
+      const retryAfterSeconds = Math.ceil((hourlyRes?.msBeforeNext || 0) / 1000);
+      return next(
+        new HttpError(
+          `Too many password change attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    await changePasswordShortTermLimiter.consume(userKey);
+    await changePasswordHourlyLimiter.consume(userKey);
+
+    next();
+  } catch (err: any) {
+    if (err && typeof err === 'object' && 'msBeforeNext' in err) {
+      const retryAfterSeconds = Math.ceil(err.msBeforeNext / 1000);
+      return next(
+        new HttpError(
+          `Too many password change attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    return next(new HttpError('Redis Server Error!', 500));
+  }
+};
+
+export default changePasswordLimiter;
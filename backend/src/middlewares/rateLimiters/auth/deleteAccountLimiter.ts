@@ -0,0 +1,66 @@
+import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../../../utils/HttpError';
+import redisClient from '../../../utils/redisClient';
+
+const deleteAccountShortTermLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:delete-account:user:short-term',
+  points: 1,
+  duration: 5,
+});
+
+// Bounds guessing of the current password from a stolen session.
+const deleteAccountHourlyLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:delete-account:user:hourly',
+  points: 5,
+  duration: 60 * 60,
+});
+
+/**
+ * Runs after `loginRequired`, so attempts are counted per account rather than per IP.
+ */
+const deleteAccountLimiter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userKey = req.userId ?? 'unknown';
+
+  try {
+    const hourlyRes = await deleteAccountHourlyLimiter.get(userKey);
+    if (hourlyRes?.remainingPoints === 0) {
+      const retryAfterSeconds = Math.ceil((hourlyRes?.msBeforeNext || 0) / 1000);
+      return next(
+        new HttpError(
+          `Too many account deletion attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    await deleteAccountShortTermLimiter.consume(userKey);
+    await deleteAccountHourlyLimiter.consume(userKey);
+
+    next();
+  } catch (err: any) {
+    if (err && typeof err === 'object' && 'msBeforeNext' in err) {
+      const retryAfterSeconds = Math.ceil(err.msBeforeNext / 1000);
+      return next(
+        new HttpError(
+          `Too many account deletion attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    return next(new HttpError('Redis Server Error!', 500));
+  }
+};
+
+export default deleteAccountLimiter;
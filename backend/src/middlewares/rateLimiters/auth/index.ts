@@ -5,4 +5,16 @@ export { default as requestOtpLimiter } from './requestOtpLimiter';
 export { default as verifyOtpLimiter } from './verifyOtpLimiter';
 export { default as resetPasswordLimiter } from './resetPasswordLimiter';
 export { default as verifyEmailLimiter } from './verifyEmailLimiter';
-export { default as resendVerificationLimiter } from './resendVerificationLimiter';
\ No newline at end of file
+export { default as resendVerificationLimiter } from './resendVerificationLimiter';
+export { default as twoFactorLimiter } from './twoFactorLimiter';
+export { default as passkeyLoginLimiter } from './passkeyLoginLimiter';
+export { default as magicLinkLimiter } from './magicLinkLimiter';
+export { default as unlockAccountLimiter } from './unlockAccountLimiter';
+export { default as changePasswordLimiter } from './changePasswordLimiter';
+export { default as requestEmailChangeLimiter } from './requestEmailChangeLimiter';
+export { default as emailChangeLinkLimiter } from './emailChangeLinkLimiter';
+export { default as deleteAccountLimiter } from './deleteAccountLimiter';
+export { default as restoreAccountLimiter } from './restoreAccountLimiter';
+export { default as confirmAccountDeletionLimiter } from './confirmAccountDeletionLimiter';
+
+export { default as oauthLimiter } from './oauthLimiter';
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../../../utils/HttpError';
+import redisClient from '../../../utils/redisClient';
+
+const oauthShortTermLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:oauth:ip:short-term',
+  points: 5,
+  duration: 10,
+});
+
+const oauthHourlyLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:oauth:ip:hourly',
+  points: 60,
+  duration: 60 * 60,
+});
+
+const oauthLimiter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const ipKey = req.ip ?? 'unknown';
+
+  try {
+    const hourlyRes = await oauthHourlyLimiter.get(ipKey);
+    if (hourlyRes?.remainingPoints === 0) {
+      const retryAfterSeconds = Math.ceil((hourlyRes?.msBeforeNext || 0) / 1000);
+      return next(
+        new HttpError(
+          `Too many sign-in attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    await oauthShortTermLimiter.consume(ipKey);
+    await oauthHourlyLimiter.consume(ipKey);
+
+    next();
+  } catch (err: any) {
+    if (err && typeof err === 'object' && 'msBeforeNext' in err) {
+      const retryAfterSeconds = Math.ceil(err.msBeforeNext / 1000);
+      return next(
+        new HttpError(
+          `Too many sign-in attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    return next(new HttpError('Redis Server Error!', 500));
+  }
+};
+
+export default oauthLimiter;
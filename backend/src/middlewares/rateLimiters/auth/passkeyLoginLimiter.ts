@@ -0,0 +1,62 @@
+import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../../../utils/HttpError';
+import redisClient from '../../../utils/redisClient';
+
+const passkeyLoginShortTermLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:passkey-login:ip:short-term',
+  points: 4,
+  duration: 10,
+});
+
+const passkeyLoginHourlyLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:passkey-login:ip:hourly',
+  points: 40,
+  duration: 60 * 60,
+});
+
+const passkeyLoginLimiter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const ipKey = req.ip ?? 'unknown';
+
+  try {
+    const hourlyRes = await passkeyLoginHourlyLimiter.get(ipKey);
+    if (hourlyRes?.remainingPoints === 0) {
+      const retryAfterSeconds = Math.ceil((hourlyRes?.msBeforeNext || 0) / 1000);
+      return next(
+        new HttpError(
+          `Too many passkey sign-in attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    await passkeyLoginShortTermLimiter.consume(ipKey);
+    await passkeyLoginHourlyLimiter.consume(ipKey);
+
+    next();
+  } catch (err: any) {
+    if (err && typeof err === 'object' && 'msBeforeNext' in err) {
+      const retryAfterSeconds = Math.ceil(err.msBeforeNext / 1000);
+      return next(
+        new HttpError(
+          `Too many passkey sign-in attempts. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    return next(new HttpError('Redis Server Error!', 500));
+  }
+};
+
+export default passkeyLoginLimiter;
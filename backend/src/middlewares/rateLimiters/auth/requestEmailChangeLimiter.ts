@@ -0,0 +1,66 @@
+import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { Request, Response, NextFunction } from 'express';
+import HttpError from '../../../utils/HttpError';
+import redisClient from '../../../utils/redisClient';
+
+const requestEmailChangeShortTermLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:request-email-change:user:short-term',
+  points: 1,
+  duration: 60,
+});
+
+// Every request sends two emails, one of them to an address of the user's choosing.
+const requestEmailChangeHourlyLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: 'rl:auth:request-email-change:user:hourly',
+  points: 5,
+  duration: 60 * 60,
+});
+
+/**
+ * Runs after `loginRequired`, so attempts are counted per account rather than per IP.
+ */
+const requestEmailChangeLimiter = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userKey = req.userId ?? 'unknown';
+
+  try {
+    const hourlyRes = await requestEmailChangeHourlyLimiter.get(userKey);
+    if (hourlyRes?.remainingPoints === 0) {
+      const retryAfterSeconds = Math.ceil((hourlyRes?.msBeforeNext || 0) / 1000);
+      return next(
+        new HttpError(
+          `Too many email change requests. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    await requestEmailChangeShortTermLimiter.consume(userKey);
+    await requestEmailChangeHourlyLimiter.consume(userKey);
+
+    next();
+  } catch (err: any) {
+    if (err && typeof err === 'object' && 'msBeforeNext' in err) {
+      const retryAfterSeconds = Math.ceil(err.msBeforeNext / 1000);
+      return next(
+        new HttpError(
+          `Too many email change requests. Try again in ${retryAfterSeconds} seconds.`,
+          429,
+          undefined,
+          { retryAfterSeconds }
+        )
+      );
+    }
+
+    return next(new HttpError('Redis Server Error!', 500));
+  }
+};
+
+export default requestEmailChangeLimiter;
@@ -25,6 +25,12 @@ export const validateBody = (schema: ZodSchema) => (
   next();
 };
 
+/**
+ * Locals set by `validateQuery`: Express 5 makes `req.query` read-only, so the parsed
+ * query, with its defaults and coercions applied, is kept on `res.locals` instead.
+ */
+export type ValidatedQuery<T> = { query: T };
+
 export const validateQuery = (schema: ZodSchema) => (
   req: Request,
   res: Response,
@@ -44,5 +50,29 @@ export const validateQuery = (schema: ZodSchema) => (
 
     return next(new HttpError('Invalid query parameters!', 400, errors));
   }
+
+  res.locals.query = result.data;
+  next();
+};
+
+export const validateParams = (schema: ZodSchema) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = schema.safeParse(req.params);
+
+  if (!result.success) {
+
+    const errors: { [key: string]: string[] } = {};
+
+    for (const issue of result.error.issues) {
+      const key = issue.path.length > 0 ? issue.path.join('.') : 'form';
+      if (!errors[key]) errors[key] = [];
+      errors[key].push(issue.message);
+    }
+
+    return next(new HttpError('Invalid route parameters!', 400, errors));
+  }
   next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,39 @@
+import { Schema, model, HydratedDocument, Types } from 'mongoose';
+
+const apiKeySchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true },
+    scopes: { type: [String], default: [] },
+    expiresAt: { type: Date },
+    lastUsedAt: { type: Date },
+    lastUsedIp: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Keys are random 256-bit values, so a plain SHA-256 is enough to store them and lets a
+ * key be looked up by its hash. `prefix` is kept in clear so users can tell keys apart.
+ */
+export type IApiKey = {
+  userId: Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdAt?: Date;
+};
+
+export type ApiKeyDocument = HydratedDocument<IApiKey>;
+
+const ApiKey = model<ApiKeyDocument>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,45 @@
+import { Schema, model, HydratedDocument, Types } from 'mongoose';
+
+const auditEventSchema = new Schema(
+  {
+    action: { type: String, required: true, index: true },
+    actorId: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+    targetUserId: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+    outcome: { type: String, enum: ['success', 'failure'], required: true },
+    ip: { type: String },
+    userAgent: { type: String },
+    correlationId: { type: String, index: true },
+    details: { type: Schema.Types.Mixed },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+auditEventSchema.index({ createdAt: -1 });
+
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * An append-only record of a security-relevant action. `actorId` is who performed it and
+ * `targetUserId` whose account it affected; both are the same user for self-service actions,
+ * and both are missing when the account is unknown (a login with an unregistered email).
+ * `correlationId` ties together the events of one request.
+ */
+export type IAuditEvent = {
+  action: string;
+  actorId?: Types.ObjectId;
+  targetUserId?: Types.ObjectId;
+  outcome: AuditOutcome;
+  ip?: string;
+  userAgent?: string;
+  correlationId?: string;
+  details?: Record<string, unknown>;
+  createdAt?: Date;
+};
+
+export type AuditEventDocument = HydratedDocument<IAuditEvent>;
+
+const AuditEvent = model<AuditEventDocument>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
@@ -0,0 +1,34 @@
+import { Schema, model, HydratedDocument, Types } from 'mongoose';
+
+const oidcClientSchema = new Schema(
+  {
+    clientId: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    secretHash: { type: String },
+    redirectUris: { type: [String], required: true },
+    ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * An application allowed to sign users in through this service. Confidential clients
+ * authenticate at the token endpoint with a secret, stored bcrypt-hashed; public clients
+ * (single-page and native apps) have no secret and rely on PKCE alone.
+ */
+export type IOidcClient = {
+  clientId: string;
+  name: string;
+  secretHash?: string;
+  redirectUris: string[];
+  ownerId: Types.ObjectId;
+  createdAt?: Date;
+};
+
+export type OidcClientDocument = HydratedDocument<IOidcClient>;
+
+const OidcClient = model<OidcClientDocument>('OidcClient', oidcClientSchema);
+
+export default OidcClient;
@@ -0,0 +1,26 @@
+import { Schema, model, HydratedDocument, Types } from 'mongoose';
+
+const oidcConsentSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    clientId: { type: String, required: true },
+    scopes: { type: [String], default: [] },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+oidcConsentSchema.index({ userId: 1, clientId: 1 }, { unique: true });
+
+export type IOidcConsent = {
+  userId: Types.ObjectId;
+  clientId: string;
+  scopes: string[];
+};
+
+export type OidcConsentDocument = HydratedDocument<IOidcConsent>;
+
+const OidcConsent = model<OidcConsentDocument>('OidcConsent', oidcConsentSchema);
+
+export default OidcConsent;
@@ -0,0 +1,37 @@
+import { Schema, model, HydratedDocument, Types } from 'mongoose';
+
+const passkeySchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    credentialId: { type: String, required: true, unique: true },
+    publicKey: { type: Buffer, required: true },
+    counter: { type: Number, required: true, default: 0 },
+    transports: { type: [String], default: [] },
+    deviceType: { type: String, enum: ['singleDevice', 'multiDevice'], required: true },
+    backedUp: { type: Boolean, default: false },
+    name: { type: String, required: true },
+    lastUsedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export type IPasskey = {
+  userId: Types.ObjectId;
+  credentialId: string;
+  publicKey: Buffer;
+  counter: number;
+  transports: string[];
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  name: string;
+  lastUsedAt?: Date;
+  createdAt?: Date;
+};
+
+export type PasskeyDocument = HydratedDocument<IPasskey>;
+
+const Passkey = model<PasskeyDocument>('Passkey', passkeySchema);
+
+export default Passkey;
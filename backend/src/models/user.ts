@@ -1,30 +1,116 @@
 import { Schema, model, HydratedDocument } from 'mongoose';
+import { DEFAULT_ROLES, Permission, PERMISSIONS, Role, ROLES } from '../utils/permissions';
 
 const userSchema = new Schema(
   {
     firstName: { type: String, required: true },
     lastName: { type: String, required: true },
     email: { type: String, required: true, unique: true },
+    pendingEmail: { type: String },
+    pendingEmailExpiresAt: { type: Date },
     password: { type: String, required: true },
+    passwordHistory: { type: [String], default: [] },
     status: { type: String, default: 'On the path to success.' },
     verified: { type: Boolean, default: false },
+    roles: { type: [{ type: String, enum: ROLES }], default: DEFAULT_ROLES },
+    permissions: { type: [{ type: String, enum: PERMISSIONS }], default: [] },
+    authzVersion: { type: Number, default: 0 },
+    locked: { type: Boolean, default: false },
+    failedLoginAttempts: { type: Number, default: 0 },
+    lockedUntil: { type: Date },
+    passwordResetRequired: { type: Boolean, default: false },
+    deletionScheduledAt: { type: Date },
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String },
+      pendingSecret: { type: String },
+      lastUsedStep: { type: Number },
+    },
+    backupCodes: { type: [String], default: [] },
+    oauthAccounts: {
+      type: [
+        {
+          _id: false,
+          provider: { type: String, required: true },
+          providerUserId: { type: String, required: true },
+          linkedAt: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
   },
   {
     timestamps: true,
   }
 );
 
+/**
+ * TOTP secrets are stored AES-encrypted. `pendingSecret` holds a secret that was issued
+ * during enrollment but not yet confirmed with a valid code.
+ */
+export type TwoFactorSettings = {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string;
+  lastUsedStep?: number;
+};
+
+export type OAuthAccount = {
+  provider: string;
+  providerUserId: string;
+  linkedAt?: Date;
+};
+
+/**
+ * `locked` is set by an administrator and blocks every sign-in until it is lifted.
+ * `failedLoginAttempts` and `lockedUntil` drive the automatic lockout after repeated wrong
+ * passwords, which only blocks password sign-in (see `LockoutService`).
+ * `passwordResetRequired` blocks every sign-in until the user resets their password.
+ * `passwordHistory` holds the hashes of the passwords used before the current one, newest
+ * first, as many as the password policy needs to refuse reuse.
+ * `deletionScheduledAt` is when an account its owner asked to delete will be purged; until
+ * then it cannot be used, but can be restored from the link emailed with the request.
+ * `pendingEmail` is an address the user asked to switch to; it replaces `email` only once
+ * confirmed from the new inbox before `pendingEmailExpiresAt` (see `EmailChangeService`).
+ */
 export type IUser = {
   firstName: string;
   lastName: string;
   email: string;
+  pendingEmail?: string;
+  pendingEmailExpiresAt?: Date;
   password: string;
+  passwordHistory?: string[];
   status?: string;
   verified?: boolean;
+  roles?: Role[];
+  permissions?: Permission[];
+  authzVersion?: number;
+  locked?: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date;
+  passwordResetRequired?: boolean;
+  deletionScheduledAt?: Date;
+  twoFactor?: TwoFactorSettings;
+  backupCodes?: string[];
+  oauthAccounts?: OAuthAccount[];
+  createdAt?: Date;
+  updatedAt?: Date;
 };
 
 export type UserDocument = HydratedDocument<IUser>;
 
+userSchema.index({ 'oauthAccounts.provider': 1, 'oauthAccounts.providerUserId': 1 }, {
+  unique: true,
+  partialFilterExpression: { 'oauthAccounts.provider': { $exists: true } },
+});
+
+// Scanned by the scheduled purge of deleted accounts.
+userSchema.index({ deletionScheduledAt: 1 }, { sparse: true });
+
+// Looked up when checking that an address is free for another account.
+userSchema.index({ pendingEmail: 1 }, { sparse: true });
+
 const User = model<UserDocument>('User', userSchema);
 
 export default User;
\ No newline at end of file
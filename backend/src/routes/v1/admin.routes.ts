@@ -0,0 +1,85 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import { requirePermission, requireRole } from '../../middlewares/authorize';
+import * as adminUserController from '../../controllers/adminUser.controller';
+import * as securityEventController from '../../controllers/securityEvent.controller';
+import { validateBody, validateParams, validateQuery } from '../../middlewares/validate';
+import { adminUserParamsSchema, adminUserSearchQuerySchema, updateUserAccessSchema } from '../../schemas/admin.schema';
+import { adminSecurityEventsQuerySchema } from '../../schemas/audit.schema';
+
+const router = express.Router();
+
+router.use('/admin', loginRequired, requireRole('admin'));
+
+router.get(
+  '/admin/users',
+  requirePermission('users:read'),
+  validateQuery(adminUserSearchQuerySchema),
+  adminUserController.searchUsers
+);
+
+router.get(
+  '/admin/users/:id',
+  requirePermission('users:read'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.getUser
+);
+
+router.post(
+  '/admin/users/:id/verify-email',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.verifyUserEmail
+);
+
+router.post(
+  '/admin/users/:id/lock',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.lockUser
+);
+
+router.post(
+  '/admin/users/:id/unlock',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.unlockUser
+);
+
+router.post(
+  '/admin/users/:id/force-password-reset',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.forcePasswordReset
+);
+
+router.delete(
+  '/admin/users/:id/sessions',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.revokeUserSessions
+);
+
+router.put(
+  '/admin/users/:id/access',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  validateBody(updateUserAccessSchema),
+  adminUserController.updateUserAccess
+);
+
+router.delete(
+  '/admin/users/:id',
+  requirePermission('users:write'),
+  validateParams(adminUserParamsSchema),
+  adminUserController.deleteUser
+);
+
+router.get(
+  '/admin/security-events',
+  requirePermission('users:read'),
+  validateQuery(adminSecurityEventsQuerySchema),
+  securityEventController.searchSecurityEvents
+);
+
+export default router;
@@ -0,0 +1,29 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import * as apiKeyController from '../../controllers/apiKey.controller';
+import { validateBody, validateParams } from '../../middlewares/validate';
+import { apiKeyParamsSchema, createApiKeySchema } from '../../schemas/apiKey.schema';
+
+const router = express.Router();
+
+router.get(
+  '/api-keys',
+  loginRequired,
+  apiKeyController.listApiKeys
+);
+
+router.post(
+  '/api-keys',
+  loginRequired,
+  validateBody(createApiKeySchema),
+  apiKeyController.createApiKey
+);
+
+router.delete(
+  '/api-keys/:id',
+  loginRequired,
+  validateParams(apiKeyParamsSchema),
+  apiKeyController.revokeApiKey
+);
+
+export default router;
@@ -1,7 +1,10 @@
 import express from 'express';
 import * as authenticationController from '../../controllers/auth.controller';
 import { validateBody, validateQuery } from '../../middlewares/validate';
-import { createUserSchema, loginUserSchema, requestPasswordResetOtpSchema, ResendVerifyEmailSchema, resetPasswordSchema, verifyEmailQuerySchema, verifyResetOtpSchema } from '../../schemas/auth.schema';
+import loginRequired from '../../middlewares/login-required';
+import { loginWithPasskeySchema } from '../../schemas/passkey.schema';
+import { confirmOAuthLinkSchema } from '../../schemas/oauth.schema';
+import { confirmAccountDeletionQuerySchema, consumeMagicLinkSchema, createUserSchema, emailChangeQuerySchema, loginTwoFactorSchema, requestMagicLinkSchema, loginUserSchema, requestPasswordResetOtpSchema, ResendVerifyEmailSchema, resetPasswordSchema, restoreAccountQuerySchema, unlockAccountQuerySchema, verifyEmailQuerySchema, verifyResetOtpSchema } from '../../schemas/auth.schema';
 import {
   loginLimiter,
   signupLimiter,
@@ -10,7 +13,15 @@ import {
   resetPasswordLimiter,
   verifyEmailLimiter,
   resendVerificationLimiter,
-  refreshLimiter
+  refreshLimiter,
+  twoFactorLimiter,
+  passkeyLoginLimiter,
+  magicLinkLimiter,
+  unlockAccountLimiter,
+  emailChangeLinkLimiter,
+  restoreAccountLimiter,
+  confirmAccountDeletionLimiter,
+  oauthLimiter
 } from '../../middlewares/rateLimiters/auth';
 
 const router = express.Router();
@@ -29,6 +40,47 @@ router.post(
   authenticationController.loginUser
 );
 
+router.post(
+  '/login/2fa',
+  twoFactorLimiter,
+  validateBody(loginTwoFactorSchema),
+  authenticationController.loginWithTwoFactor
+);
+
+router.post(
+  '/login/passkey/options',
+  passkeyLoginLimiter,
+  authenticationController.getPasskeyLoginOptions
+);
+
+router.post(
+  '/login/passkey',
+  passkeyLoginLimiter,
+  validateBody(loginWithPasskeySchema),
+  authenticationController.loginWithPasskey
+);
+
+router.post(
+  '/login/magic-link',
+  magicLinkLimiter,
+  validateBody(requestMagicLinkSchema),
+  authenticationController.requestMagicLink
+);
+
+router.post(
+  '/login/magic-link/consume',
+  verifyEmailLimiter,
+  validateBody(consumeMagicLinkSchema),
+  authenticationController.consumeMagicLink
+);
+
+router.post(
+  '/login/oauth-link',
+  oauthLimiter,
+  validateBody(confirmOAuthLinkSchema),
+  authenticationController.confirmOAuthLink
+);
+
 router.post(
   '/request-password-reset-otp',
   requestOtpLimiter,
@@ -57,6 +109,41 @@ router.get(
   authenticationController.verifyEmail
 );
 
+router.get(
+  '/unlock-account',
+  unlockAccountLimiter,
+  validateQuery(unlockAccountQuerySchema),
+  authenticationController.unlockAccount
+);
+
+router.get(
+  '/confirm-email-change',
+  emailChangeLinkLimiter,
+  validateQuery(emailChangeQuerySchema),
+  authenticationController.confirmEmailChange
+);
+
+router.get(
+  '/cancel-email-change',
+  emailChangeLinkLimiter,
+  validateQuery(emailChangeQuerySchema),
+  authenticationController.cancelEmailChange
+);
+
+router.get(
+  '/restore-account',
+  restoreAccountLimiter,
+  validateQuery(restoreAccountQuerySchema),
+  authenticationController.restoreAccount
+);
+
+router.get(
+  '/confirm-account-deletion',
+  confirmAccountDeletionLimiter,
+  validateQuery(confirmAccountDeletionQuerySchema),
+  authenticationController.confirmAccountDeletion
+);
+
 router.post(
   '/resend-verification',
   resendVerificationLimiter,
@@ -70,4 +157,16 @@ router.post(
   authenticationController.refreshToken
 );
 
+router.post(
+  '/logout',
+  loginRequired,
+  authenticationController.logout
+);
+
+router.post(
+  '/logout-all',
+  loginRequired,
+  authenticationController.logoutAll
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,71 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import * as authenticationController from '../../controllers/auth.controller';
+import * as profileController from '../../controllers/profile.controller';
+import * as securityEventController from '../../controllers/securityEvent.controller';
+import { validateBody, validateQuery } from '../../middlewares/validate';
+import { changePasswordLimiter, deleteAccountLimiter, requestEmailChangeLimiter } from '../../middlewares/rateLimiters/auth';
+import { securityEventsQuerySchema } from '../../schemas/audit.schema';
+import { changePasswordSchema } from '../../schemas/auth.schema';
+import { deleteAccountSchema, requestEmailChangeSchema, updateProfileSchema } from '../../schemas/profile.schema';
+
+const router = express.Router();
+
+router.get(
+  '/me',
+  loginRequired,
+  profileController.getProfile
+);
+
+router.patch(
+  '/me',
+  loginRequired,
+  validateBody(updateProfileSchema),
+  profileController.updateProfile
+);
+
+router.delete(
+  '/me',
+  loginRequired,
+  deleteAccountLimiter,
+  validateBody(deleteAccountSchema),
+  authenticationController.deleteAccount
+);
+
+router.post(
+  '/me/deletion-link',
+  loginRequired,
+  deleteAccountLimiter,
+  authenticationController.requestAccountDeletionLink
+);
+
+router.get(
+  '/me/export',
+  loginRequired,
+  profileController.exportAccount
+);
+
+router.post(
+  '/me/password',
+  loginRequired,
+  changePasswordLimiter,
+  validateBody(changePasswordSchema),
+  authenticationController.changePassword
+);
+
+router.post(
+  '/me/email',
+  loginRequired,
+  requestEmailChangeLimiter,
+  validateBody(requestEmailChangeSchema),
+  profileController.requestEmailChange
+);
+
+router.get(
+  '/me/security-events',
+  loginRequired,
+  validateQuery(securityEventsQuerySchema),
+  securityEventController.listMySecurityEvents
+);
+
+export default router;
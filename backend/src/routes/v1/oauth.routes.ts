@@ -0,0 +1,29 @@
+import express from 'express';
+import * as oauthController from '../../controllers/oauth.controller';
+import { validateParams, validateQuery } from '../../middlewares/validate';
+import { oauthLimiter } from '../../middlewares/rateLimiters/auth';
+import { oauthAuthorizeQuerySchema, oauthProviderParamsSchema } from '../../schemas/oauth.schema';
+
+const router = express.Router();
+
+router.get(
+  '/oauth/providers',
+  oauthController.listProviders
+);
+
+router.get(
+  '/oauth/:provider/authorize',
+  oauthLimiter,
+  validateParams(oauthProviderParamsSchema),
+  validateQuery(oauthAuthorizeQuerySchema),
+  oauthController.authorize
+);
+
+router.get(
+  '/oauth/:provider/callback',
+  oauthLimiter,
+  validateParams(oauthProviderParamsSchema),
+  oauthController.callback
+);
+
+export default router;
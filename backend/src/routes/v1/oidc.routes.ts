@@ -0,0 +1,78 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import { requirePermission } from '../../middlewares/authorize';
+import * as oidcController from '../../controllers/oidc.controller';
+import { validateBody, validateParams, validateQuery } from '../../middlewares/validate';
+import { oauthLimiter } from '../../middlewares/rateLimiters/auth';
+import {
+  oidcAuthorizationDecisionSchema,
+  oidcAuthorizationRequestParamsSchema,
+  oidcAuthorizeQuerySchema,
+  oidcClientParamsSchema,
+  registerOidcClientSchema,
+} from '../../schemas/oidc.schema';
+
+const router = express.Router();
+
+router.post(
+  '/oidc/clients',
+  loginRequired,
+  requirePermission('clients:write'),
+  validateBody(registerOidcClientSchema),
+  oidcController.registerClient
+);
+
+router.get(
+  '/oidc/clients',
+  loginRequired,
+  requirePermission('clients:write'),
+  oidcController.listClients
+);
+
+router.delete(
+  '/oidc/clients/:clientId',
+  loginRequired,
+  requirePermission('clients:write'),
+  validateParams(oidcClientParamsSchema),
+  oidcController.deleteClient
+);
+
+router.get(
+  '/oidc/authorize',
+  oauthLimiter,
+  validateQuery(oidcAuthorizeQuerySchema),
+  oidcController.authorize
+);
+
+router.get(
+  '/oidc/authorize/requests/:requestId',
+  loginRequired,
+  validateParams(oidcAuthorizationRequestParamsSchema),
+  oidcController.getAuthorizationRequest
+);
+
+router.post(
+  '/oidc/authorize/requests/:requestId',
+  loginRequired,
+  validateParams(oidcAuthorizationRequestParamsSchema),
+  validateBody(oidcAuthorizationDecisionSchema),
+  oidcController.decideAuthorizationRequest
+);
+
+router.post(
+  '/oidc/token',
+  express.urlencoded({ extended: false }),
+  oidcController.token
+);
+
+router.get(
+  '/oidc/userinfo',
+  oidcController.userInfo
+);
+
+router.post(
+  '/oidc/userinfo',
+  oidcController.userInfo
+);
+
+export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import * as passkeyController from '../../controllers/passkey.controller';
+import { validateBody, validateParams } from '../../middlewares/validate';
+import { twoFactorLimiter } from '../../middlewares/rateLimiters/auth';
+import { passkeyParamsSchema, passkeyRegistrationOptionsSchema, verifyPasskeyRegistrationSchema } from '../../schemas/passkey.schema';
+
+const router = express.Router();
+
+router.post(
+  '/passkeys/registration/options',
+  loginRequired,
+  twoFactorLimiter,
+  validateBody(passkeyRegistrationOptionsSchema),
+  passkeyController.getRegistrationOptions
+);
+
+router.post(
+  '/passkeys/registration',
+  loginRequired,
+  twoFactorLimiter,
+  validateBody(verifyPasskeyRegistrationSchema),
+  passkeyController.verifyRegistration
+);
+
+router.get(
+  '/passkeys',
+  loginRequired,
+  passkeyController.listPasskeys
+);
+
+router.delete(
+  '/passkeys/:id',
+  loginRequired,
+  validateParams(passkeyParamsSchema),
+  passkeyController.deletePasskey
+);
+
+export default router;
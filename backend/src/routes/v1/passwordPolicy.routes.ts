@@ -0,0 +1,11 @@
+import express from 'express';
+import * as passwordPolicyController from '../../controllers/passwordPolicy.controller';
+
+const router = express.Router();
+
+router.get(
+  '/password-policy',
+  passwordPolicyController.getPasswordPolicy
+);
+
+export default router;
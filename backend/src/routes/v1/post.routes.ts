@@ -1,10 +1,12 @@
 import express from 'express';
-import loginRequired from '../../middlewares/login-required';
+import { allowApiKey } from '../../middlewares/login-required';
+import { requirePermission } from '../../middlewares/authorize';
 
 const router = express.Router();
 
 router.get('/posts',
-  loginRequired,
+  allowApiKey('posts:read'),
+  requirePermission('posts:read'),
   (req, res) => {
     res.json([
       { id: 1, title: 'First Post', content: 'This is the first post.' },
@@ -0,0 +1,28 @@
+import express from 'express';
+import loginRequired, { allowApiKey } from '../../middlewares/login-required';
+import * as sessionController from '../../controllers/session.controller';
+import { validateParams } from '../../middlewares/validate';
+import { revokeSessionParamsSchema } from '../../schemas/session.schema';
+
+const router = express.Router();
+
+router.get(
+  '/sessions',
+  allowApiKey('sessions:read'),
+  sessionController.listSessions
+);
+
+router.delete(
+  '/sessions/:id',
+  loginRequired,
+  validateParams(revokeSessionParamsSchema),
+  sessionController.revokeSession
+);
+
+router.delete(
+  '/sessions',
+  loginRequired,
+  sessionController.revokeOtherSessions
+);
+
+export default router;
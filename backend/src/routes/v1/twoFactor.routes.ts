@@ -0,0 +1,46 @@
+import express from 'express';
+import loginRequired from '../../middlewares/login-required';
+import * as twoFactorController from '../../controllers/twoFactor.controller';
+import { validateBody } from '../../middlewares/validate';
+import { reauthSchema, twoFactorCodeSchema } from '../../schemas/twoFactor.schema';
+import { twoFactorLimiter } from '../../middlewares/rateLimiters/auth';
+
+const router = express.Router();
+
+router.post(
+  '/2fa/totp/setup',
+  loginRequired,
+  twoFactorController.setupTotp
+);
+
+router.post(
+  '/2fa/totp/confirm',
+  loginRequired,
+  twoFactorLimiter,
+  validateBody(twoFactorCodeSchema),
+  twoFactorController.confirmTotp
+);
+
+router.post(
+  '/2fa/totp/disable',
+  loginRequired,
+  twoFactorLimiter,
+  validateBody(twoFactorCodeSchema),
+  twoFactorController.disableTotp
+);
+
+router.get(
+  '/2fa/backup-codes',
+  loginRequired,
+  twoFactorController.countBackupCodes
+);
+
+router.post(
+  '/2fa/backup-codes',
+  loginRequired,
+  twoFactorLimiter,
+  validateBody(reauthSchema),
+  twoFactorController.regenerateBackupCodes
+);
+
+export default router;
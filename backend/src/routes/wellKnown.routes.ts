@@ -0,0 +1,16 @@
+import express from 'express';
+import * as wellKnownController from '../controllers/wellKnown.controller';
+
+const router = express.Router();
+
+router.get(
+  '/jwks.json',
+  wellKnownController.getJwks
+);
+
+router.get(
+  '/openid-configuration',
+  wellKnownController.getOpenIdConfiguration
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { PERMISSIONS, ROLES } from '../utils/permissions';
+
+export const adminUserSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AdminUserSearchQuery = z.infer<typeof adminUserSearchQuerySchema>;
+
+export const adminUserParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid user id.'),
+});
+
+export type AdminUserParams = z.infer<typeof adminUserParamsSchema>;
+
+export const updateUserAccessSchema = z.object({
+  roles: z.array(z.enum(ROLES)).transform((roles) => [...new Set(roles)]).optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).transform((permissions) => [...new Set(permissions)]).optional(),
+}).refine((body) => body.roles || body.permissions, {
+  message: 'Provide roles, permissions or both.',
+});
+
+export type UpdateUserAccessBody = z.infer<typeof updateUserAccessSchema>;
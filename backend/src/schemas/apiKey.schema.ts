@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import type { Permission } from '../utils/permissions';
+
+/**
+ * Scopes are the permissions a key may carry. A key can only get scopes its owner holds.
+ */
+export const API_KEY_SCOPES = ['posts:read', 'sessions:read'] as const satisfies readonly Permission[];
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Select at least one scope.')
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresAt: z.coerce.date()
+    .refine((date) => date.getTime() > Date.now(), { message: 'Expiry must be in the future.' })
+    .optional(),
+});
+
+export type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
+
+export const apiKeyParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid API key id.'),
+});
+
+export type ApiKeyParams = z.infer<typeof apiKeyParamsSchema>;
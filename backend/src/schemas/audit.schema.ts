@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const securityEventsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type SecurityEventsQuery = z.infer<typeof securityEventsQuerySchema>;
+
+export const adminSecurityEventsQuerySchema = securityEventsQuerySchema.extend({
+  userId: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid user id.').optional(),
+  action: z.string().trim().max(100).optional(),
+  outcome: z.enum(['success', 'failure']).optional(),
+  ip: z.string().trim().max(64).optional(),
+  correlationId: z.string().trim().max(64).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AdminSecurityEventsQuery = z.infer<typeof adminSecurityEventsQuerySchema>;
@@ -1,4 +1,17 @@
 import { z } from 'zod';
+import { checkPersonalInfo } from '../utils/passwordPolicy';
+import { existingPasswordSchema, newPasswordSchema } from './password.schema';
+import { backupCodeSchema, totpCodeSchema } from './twoFactor.schema';
+
+export const firstNameSchema = z.string()
+  .trim()
+  .min(3).max(12)
+  .refine(val => !val.includes(' '), 'First name must not contain spaces.');
+
+export const lastNameSchema = z.string()
+  .trim()
+  .min(3).max(12)
+  .refine(val => !val.includes(' '), 'Last name must not contain spaces.');
 
 export const createUserSchema = z.object({
   email: z.string()
@@ -6,24 +19,15 @@ export const createUserSchema = z.object({
     .email({ message: 'Invalid email address.' })
     .transform((val) => val.trim().toLowerCase()),
 
-  password: z.string()
-    .min(5, { message: 'Password must be at least 5 characters.' })
-    .max(12, { message: 'Password must be at most 12 characters.' })
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter.')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter.')
-    .regex(/[0-9]/, 'Password must contain at least one number.')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character (e.g. @, #, $).')
-    .refine(val => !val.includes(' '), 'Password must not contain spaces.'),
-
-  firstName: z.string()
-    .trim()
-    .min(3).max(12)
-    .refine(val => !val.includes(' '), 'First name must not contain spaces.'),
-
-  lastName: z.string()
-    .trim()
-    .min(3).max(12)
-    .refine(val => !val.includes(' '), 'Last name must not contain spaces.'),
+  password: newPasswordSchema,
+
+  firstName: firstNameSchema,
+
+  lastName: lastNameSchema,
+}).superRefine((data, ctx) => {
+  for (const message of checkPersonalInfo(data.password, data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['password'] });
+  }
 });
 
 export type CreateUserRequestBody = z.infer<typeof createUserSchema>;
@@ -35,15 +39,7 @@ export const loginUserSchema = z.object({
     .email({ message: 'Please enter a valid email address.' })
     .transform((val) => val.trim().toLowerCase()),
 
-  password: z
-    .string()
-    .min(5, { message: 'Password must be at least 5 characters long.' })
-    .max(12, { message: 'Password must be between 5 and 12 characters long.' })
-    .regex(/[A-Z]/, { message: 'Password must contain at least one uppercase letter.' })
-    .regex(/[a-z]/, { message: 'Password must contain at least one lowercase letter.' })
-    .regex(/[0-9]/, { message: 'Password must contain at least one number.' })
-    .regex(/[^A-Za-z0-9]/, { message: 'Password must contain at least one special character (e.g. @, #, $).' })
-    .refine(val => !val.includes(' '), 'Password must not contain spaces.'),
+  password: existingPasswordSchema,
 
   rememberMe: z
     .boolean()
@@ -66,12 +62,18 @@ export const verifyResetOtpSchema = z.object({
   otp: z
     .string()
     .length(6, { message: 'Incorrect OTP format' })
-    .regex(/^\d+$/, { message: 'Incorrect OTP format' }),
+    .regex(/^\d+$/, { message: 'Incorrect OTP format' })
+    .optional(),
+
+  backupCode: backupCodeSchema.optional(),
 
   email: z
     .string()
     .email({ message: 'Invalid email address.' })
     .transform((val) => val.trim().toLowerCase()),
+}).refine((data) => !!data.otp !== !!data.backupCode, {
+  message: 'Provide either an OTP or a backup code.',
+  path: ['otp'],
 });
 
 export type RequestVerifyResetOtpBody = z.infer<typeof verifyResetOtpSchema>;
@@ -83,17 +85,7 @@ export const resetPasswordSchema = z.object({
     .email({ message: 'Invalid email address.' })
     .transform((val) => val.trim().toLowerCase()),
 
-  newPassword: z
-    .string()
-    .min(5, 'Password must be between 5 and 12 characters long.')
-    .max(12, 'Password must be between 5 and 12 characters long.')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter.')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter.')
-    .regex(/[0-9]/, 'Password must contain at least one number.')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character (e.g. @, #, $).')
-    .refine(val => !/\s/.test(val), {
-      message: 'Password must not contain spaces.',
-    }),
+  newPassword: newPasswordSchema,
 
   resetToken: z
     .string()
@@ -102,12 +94,50 @@ export const resetPasswordSchema = z.object({
 
 export type RequestResetPasswordBody = z.infer<typeof resetPasswordSchema>;
 
+
+export const changePasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, 'Current password is required.'),
+
+  newPassword: newPasswordSchema,
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: 'New password must be different from the current password.',
+  path: ['newPassword'],
+});
+
+export type ChangePasswordRequestBody = z.infer<typeof changePasswordSchema>;
+
 export const verifyEmailQuerySchema = z.object({
   token: z.string().min(1, 'Required'),
 });
 
 export type RequestVerifyEmailQueryParam = z.infer<typeof verifyEmailQuerySchema>;
 
+export const unlockAccountQuerySchema = z.object({
+  token: z.string().min(1, 'Required'),
+});
+
+export type UnlockAccountQueryParam = z.infer<typeof unlockAccountQuerySchema>;
+
+export const emailChangeQuerySchema = z.object({
+  token: z.string().min(1, 'Required'),
+});
+
+export type EmailChangeQueryParam = z.infer<typeof emailChangeQuerySchema>;
+
+export const restoreAccountQuerySchema = z.object({
+  token: z.string().min(1, 'Required'),
+});
+
+export type RestoreAccountQueryParam = z.infer<typeof restoreAccountQuerySchema>;
+
+export const confirmAccountDeletionQuerySchema = z.object({
+  token: z.string().min(1, 'Required'),
+});
+
+export type ConfirmAccountDeletionQueryParam = z.infer<typeof confirmAccountDeletionQuerySchema>;
+
 
 export const ResendVerifyEmailSchema = z.object({
   email: z
@@ -116,4 +146,35 @@ export const ResendVerifyEmailSchema = z.object({
     .transform((val) => val.trim().toLowerCase()),
 });
 
-export type RequestResendVerifyEmailBody = z.infer<typeof ResendVerifyEmailSchema>;
\ No newline at end of file
+export type RequestResendVerifyEmailBody = z.infer<typeof ResendVerifyEmailSchema>;
+
+export const loginTwoFactorSchema = z.object({
+  mfaToken: z.string().min(1, 'Required'),
+  code: totpCodeSchema.optional(),
+  backupCode: backupCodeSchema.optional(),
+}).refine((data) => !!data.code !== !!data.backupCode, {
+  message: 'Provide either an authenticator code or a backup code.',
+  path: ['code'],
+});
+
+export type LoginTwoFactorRequestBody = z.infer<typeof loginTwoFactorSchema>;
+
+
+export const requestMagicLinkSchema = z.object({
+  email: z
+    .string()
+    .email({ message: 'Invalid email address.' })
+    .transform((val) => val.trim().toLowerCase()),
+
+  rememberMe: z
+    .boolean()
+    .default(false)
+});
+
+export type RequestMagicLinkBody = z.infer<typeof requestMagicLinkSchema>;
+
+export const consumeMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Required'),
+});
+
+export type ConsumeMagicLinkBody = z.infer<typeof consumeMagicLinkSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const oauthProviderParamsSchema = z.object({
+  provider: z.string().regex(/^[a-z0-9-]{1,32}$/, 'Invalid provider.'),
+});
+
+export type OAuthProviderParams = z.infer<typeof oauthProviderParamsSchema>;
+
+export const oauthAuthorizeQuerySchema = z.object({
+  rememberMe: z.enum(['true', 'false']).optional(),
+});
+
+export type OAuthAuthorizeQuery = z.infer<typeof oauthAuthorizeQuerySchema>;
+
+export type OAuthCallbackQuery = {
+  code?: string;
+  state?: string;
+  error?: string;
+};
+
+export const confirmOAuthLinkSchema = z.object({
+  linkToken: z.string().min(1, 'Required'),
+  password: z.string().min(1, 'Required'),
+});
+
+export type ConfirmOAuthLinkBody = z.infer<typeof confirmOAuthLinkSchema>;
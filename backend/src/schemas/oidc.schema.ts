@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+const redirectUriSchema = z
+  .string()
+  .url({ message: 'Invalid redirect URI.' })
+  .refine((value) => {
+    const url = new URL(value);
+    const isLoopback = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    return !url.hash && (url.protocol === 'https:' || (url.protocol === 'http:' && isLoopback));
+  }, { message: 'Redirect URIs must use https (or http on localhost) and have no fragment.' });
+
+export const registerOidcClientSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  redirectUris: z.array(redirectUriSchema).min(1).max(10),
+  confidential: z.boolean().default(true),
+});
+
+export type RegisterOidcClientBody = z.infer<typeof registerOidcClientSchema>;
+
+export const oidcClientParamsSchema = z.object({
+  clientId: z.string().uuid('Invalid client id.'),
+});
+
+export type OidcClientParams = z.infer<typeof oidcClientParamsSchema>;
+
+export const oidcAuthorizeQuerySchema = z.object({
+  client_id: z.string().optional(),
+  redirect_uri: z.string().optional(),
+  response_type: z.string().optional(),
+  scope: z.string().optional(),
+  state: z.string().optional(),
+  nonce: z.string().optional(),
+  code_challenge: z.string().optional(),
+  code_challenge_method: z.string().optional(),
+  prompt: z.string().optional(),
+});
+
+export type OidcAuthorizeQuery = z.infer<typeof oidcAuthorizeQuerySchema>;
+
+export const oidcAuthorizationRequestParamsSchema = z.object({
+  requestId: z.string().uuid('Invalid request id.'),
+});
+
+export type OidcAuthorizationRequestParams = z.infer<typeof oidcAuthorizationRequestParamsSchema>;
+
+export const oidcAuthorizationDecisionSchema = z.object({
+  approved: z.boolean(),
+});
+
+export type OidcAuthorizationDecisionBody = z.infer<typeof oidcAuthorizationDecisionSchema>;
+
+/**
+ * Parsed by the token controller itself rather than `validateBody`, since token endpoint
+ * errors have to use the OAuth error format.
+ */
+export const oidcTokenRequestSchema = z.object({
+  grant_type: z.literal('authorization_code'),
+  code: z.string().min(1),
+  redirect_uri: z.string().min(1),
+  code_verifier: z.string().regex(/^[A-Za-z0-9\-._~]{43,128}$/),
+  client_id: z.string().optional(),
+  client_secret: z.string().optional(),
+});
+
+export type OidcTokenRequestBody = z.infer<typeof oidcTokenRequestSchema>;
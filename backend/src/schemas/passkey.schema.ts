@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { withReauth } from './twoFactor.schema';
+
+const base64url = z.string().min(1).regex(/^[A-Za-z0-9_-]+$/, { message: 'Must be base64url encoded.' });
+
+const credentialBase = {
+  id: base64url,
+  rawId: base64url,
+  type: z.literal('public-key'),
+  clientExtensionResults: z.record(z.unknown()).default({}),
+  authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+};
+
+export const registrationResponseSchema = z.object({
+  ...credentialBase,
+  response: z.object({
+    clientDataJSON: base64url,
+    attestationObject: base64url,
+    transports: z.array(z.string()).optional(),
+  }).passthrough(),
+});
+
+export const authenticationResponseSchema = z.object({
+  ...credentialBase,
+  response: z.object({
+    clientDataJSON: base64url,
+    authenticatorData: base64url,
+    signature: base64url,
+    userHandle: base64url.optional(),
+  }).passthrough(),
+});
+
+// A passkey signs in without the second factor, so adding one needs re-authentication.
+export const passkeyRegistrationOptionsSchema = withReauth({});
+
+export type PasskeyRegistrationOptionsBody = z.infer<typeof passkeyRegistrationOptionsSchema>;
+
+export const verifyPasskeyRegistrationSchema = withReauth({
+  name: z.string().trim().min(1).max(50).optional(),
+  credential: registrationResponseSchema,
+});
+
+export type VerifyPasskeyRegistrationBody = z.infer<typeof verifyPasskeyRegistrationSchema>;
+
+export const loginWithPasskeySchema = z.object({
+  challengeId: z.string().uuid('Invalid challenge id.'),
+  credential: authenticationResponseSchema,
+  rememberMe: z.boolean().default(false),
+});
+
+export type LoginWithPasskeyRequestBody = z.infer<typeof loginWithPasskeySchema>;
+
+export const passkeyParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid passkey id.'),
+});
+
+export type PasskeyParams = z.infer<typeof passkeyParamsSchema>;
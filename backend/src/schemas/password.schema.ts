@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { checkPassword } from '../utils/passwordPolicy';
+
+/**
+ * A password being set, checked against the configured password policy.
+ */
+export const newPasswordSchema = z.string().superRefine((val, ctx) => {
+  for (const message of checkPassword(val)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+/**
+ * A password being checked against the stored hash. Not held to the policy, which may
+ * have changed since the password was set.
+ */
+export const existingPasswordSchema = z.string().min(1, 'Password is required.');
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { firstNameSchema, lastNameSchema } from './auth.schema';
+import { reauthSchema } from './twoFactor.schema';
+
+export const updateProfileSchema = z.object({
+  firstName: firstNameSchema.optional(),
+
+  lastName: lastNameSchema.optional(),
+
+  status: z.string()
+    .trim()
+    .max(100, 'Status must be at most 100 characters.')
+    .optional(),
+}).strict()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update.',
+  });
+
+export type UpdateProfileRequestBody = z.infer<typeof updateProfileSchema>;
+
+export const requestEmailChangeSchema = z.object({
+  email: z.string()
+    .min(1, 'Email is required.')
+    .email({ message: 'Invalid email address.' })
+    .transform((val) => val.trim().toLowerCase()),
+});
+
+export type RequestEmailChangeBody = z.infer<typeof requestEmailChangeSchema>;
+
+// Confirmed with the current password or an authenticator code; see `ReauthService`.
+export const deleteAccountSchema = reauthSchema;
+
+export type DeleteAccountRequestBody = z.infer<typeof deleteAccountSchema>;
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const revokeSessionParamsSchema = z.object({
+  id: z.string().uuid('Invalid session id.'),
+});
+
+export type RevokeSessionParams = z.infer<typeof revokeSessionParamsSchema>;
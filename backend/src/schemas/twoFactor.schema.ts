@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { existingPasswordSchema } from './password.schema';
+
+export const totpCodeSchema = z
+  .string()
+  .length(6, { message: 'Incorrect code format' })
+  .regex(/^\d+$/, { message: 'Incorrect code format' });
+
+export const backupCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{5}-?[A-Za-z0-9]{5}$/, { message: 'Incorrect backup code format' });
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export type TwoFactorCodeBody = z.infer<typeof twoFactorCodeSchema>;
+
+/**
+ * A request body that also carries a re-authentication proof (see `ReauthService`): the
+ * current password or an authenticator code, exactly one of them.
+ */
+export const withReauth = <T extends z.ZodRawShape>(shape: T) =>
+  z.object({
+    ...shape,
+    password: existingPasswordSchema.optional(),
+    code: totpCodeSchema.optional(),
+  }).refine((data) => !!data.password !== !!data.code, {
+    message: 'Confirm with either your password or an authenticator code.',
+  });
+
+export const reauthSchema = withReauth({});
+
+export type ReauthBody = z.infer<typeof reauthSchema>;
@@ -0,0 +1,252 @@
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../env';
+import ApiKey from '../models/apiKey';
+import OidcClient from '../models/oidcClient';
+import OidcConsent from '../models/oidcConsent';
+import Passkey from '../models/passkey';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { ClientContext } from '../utils/clientContext';
+import { EmailService } from '../utils/email/emailService';
+import logger from '../utils/logger';
+import { AuditService, SecurityEventSummary } from './audit.service';
+import { ProfileService, ProfileView } from './profile.service';
+import { ReauthProof, ReauthService } from './reauth.service';
+import {
+  AccountDeletionRedisService,
+  AccountRestoreRedisService,
+  AuthzVersionRedisService,
+  EmailChangeRedisService,
+  OtpRedisService,
+  ResetTokenRedisService,
+} from './redis.service';
+import { SessionService, SessionSummary } from './session.service';
+import { TokenService } from './token.service';
+import { UserService } from './user.service';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DELETION_LINK_TTL_SECONDS = 30 * 60;
+
+export type AccountExport = {
+  exportedAt: Date;
+  profile: ProfileView;
+  sessions: SessionSummary[];
+  securityEvents: SecurityEventSummary[];
+};
+
+/**
+ * Operations on a user's account as a whole, across everything stored for it.
+ */
+export class AccountService {
+
+  /**
+   * Marks the account for deletion after the configured grace period, signs it out
+   * everywhere and emails a link that restores it. Requires the current password or an
+   * authenticator code, so a stolen session alone cannot delete the account; users with
+   * neither at hand confirm by email instead (see `requestDeletionLink`).
+   *
+   * @returns {Promise<Date>} When the account will be purged.
+   */
+  static async scheduleDeletion(userId: string, proof: ReauthProof, context: ClientContext): Promise<Date> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+
+    await ReauthService.verify(user, proof);
+
+    return this.schedule(user, context);
+  }
+
+  /**
+   * Emails a single-use link that schedules the deletion, for users who cannot confirm with
+   * a password or an authenticator code, such as those who only sign in with a provider.
+   * Reading the inbox is the proof.
+   */
+  static async requestDeletionLink(userId: string): Promise<void> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+
+    const jti = uuidv4();
+    await AccountDeletionRedisService.setToken(jti, userId, DELETION_LINK_TTL_SECONDS);
+    const token = TokenService.generateToken({ userId, type: 'account_deletion', jti }, DELETION_LINK_TTL_SECONDS);
+
+    await EmailService.sendEmail('ACCOUNT_DELETION_CONFIRM', {
+      user,
+      confirmLink: `${env.backendDomain}/api/v1/confirm-account-deletion?token=${token}`,
+    });
+  }
+
+  /**
+   * Redeems the link sent by `requestDeletionLink`.
+   *
+   * @returns {Promise<Date>} When the account will be purged.
+   */
+  static async confirmDeletionWithToken(token: string, context: ClientContext): Promise<Date> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'account_deletion' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const userId = await AccountDeletionRedisService.consumeToken(payload.jti);
+    if (!userId || userId !== payload.userId) {
+      throw new HttpError('Deletion link expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(userId);
+    if (!user || user.deletionScheduledAt) {
+      throw new HttpError('Deletion link expired or already used.', 401);
+    }
+
+    return this.schedule(user, context);
+  }
+
+  /**
+   * Redeems the link emailed with a deletion request, keeping the account.
+   */
+  static async restoreWithToken(token: string, context: ClientContext): Promise<UserDocument> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'account_restore' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const userId = await AccountRestoreRedisService.consumeToken(payload.jti);
+    if (!userId || userId !== payload.userId) {
+      throw new HttpError('Restore link expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(userId);
+    if (!user || !user.deletionScheduledAt) {
+      throw new HttpError('Restore link expired or already used.', 401);
+    }
+
+    const restored = await UserService.cancelDeletion(user);
+
+    await AuditService.record({
+      action: 'auth.account_restored',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+    });
+
+    return restored;
+  }
+
+  /**
+   * Purges every account whose grace period has ended. Run on a schedule; one failing
+   * account is logged and retried on the next run rather than stopping the others.
+   *
+   * @returns {Promise<number>} How many accounts were purged.
+   */
+  static async purgeDueAccounts(now = new Date()): Promise<number> {
+    const users = await UserService.getUsersDueForDeletion(now);
+    let purged = 0;
+
+    for (const user of users) {
+      const userId = user._id.toString();
+      try {
+        await this.purge(userId);
+        await AuditService.record({
+          action: 'auth.account_purged',
+          targetUserId: userId,
+          details: { deletionScheduledAt: user.deletionScheduledAt },
+        });
+        purged++;
+      } catch (error) {
+        logger.error(`Failed to purge account ${userId}: ${(error as Error).message}`);
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Permanently deletes a user and the data that belongs to them: sessions, passkeys,
+   * API keys, OpenID Connect consents and the clients they registered, and the Redis
+   * entries kept per user or per email (password reset OTPs and tokens, a pending email
+   * change, authorization versions). Short-lived links keyed by their own id expire on
+   * their own, and are refused once the user is gone.
+   *
+   * Sessions go first, so the user is signed out everywhere even if a later step fails.
+   *
+   * @returns {Promise<boolean>} False if the user did not exist.
+   */
+  static async purge(userId: string): Promise<boolean> {
+    await SessionService.revokeAllSessions(userId);
+
+    const user = await UserService.getUserById(userId);
+    if (user) {
+      await Promise.all([
+        OtpRedisService.deleteOtp(user.email),
+        ResetTokenRedisService.deleteToken(user.email),
+        EmailChangeRedisService.deleteRequest(userId),
+        AuthzVersionRedisService.deleteVersion(userId),
+      ]);
+    }
+
+    const clientIds = (await OidcClient.find({ ownerId: userId })).map((client) => client.clientId);
+
+    await Promise.all([
+      Passkey.deleteMany({ userId }),
+      ApiKey.deleteMany({ userId }),
+      OidcConsent.deleteMany({ $or: [{ userId }, { clientId: { $in: clientIds } }] }),
+      OidcClient.deleteMany({ ownerId: userId }),
+    ]);
+
+    return UserService.deleteUser(userId);
+  }
+
+  /**
+   * Everything a user may request under a data access request: their profile, their
+   * active sessions and the security events on their account.
+   */
+  static async exportData(userId: string, context: ClientContext): Promise<AccountExport> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+
+    const [sessions, securityEvents] = await Promise.all([
+      SessionService.listSessions(userId),
+      AuditService.exportForUser(userId),
+    ]);
+
+    await AuditService.record({
+      action: 'auth.data_exported',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+    });
+
+    return {
+      exportedAt: new Date(),
+      profile: ProfileService.toView(user),
+      sessions,
+      securityEvents,
+    };
+  }
+
+  private static async schedule(user: UserDocument, context: ClientContext): Promise<Date> {
+    const userId = user._id.toString();
+    const graceSeconds = env.accountDeletion.graceDays * DAY_SECONDS;
+    const deletionScheduledAt = new Date(Date.now() + graceSeconds * 1000);
+    const scheduled = await UserService.scheduleDeletion(user, deletionScheduledAt);
+    const revokedSessions = await SessionService.revokeAllSessions(userId);
+
+    const jti = uuidv4();
+    await AccountRestoreRedisService.setToken(jti, userId, graceSeconds);
+    const token = TokenService.generateToken({ userId, type: 'account_restore', jti }, graceSeconds);
+
+    await EmailService.sendEmail('ACCOUNT_DELETION_SCHEDULED', {
+      user: scheduled,
+      undoLink: `${env.backendDomain}/api/v1/restore-account?token=${token}`,
+      deletionScheduledAt,
+    });
+
+    await AuditService.record({
+      action: 'auth.account_deletion_scheduled',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+      details: { deletionScheduledAt, revokedSessions },
+    });
+
+    return deletionScheduledAt;
+  }
+}
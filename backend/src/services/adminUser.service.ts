@@ -0,0 +1,159 @@
+import { env } from '../env';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { EmailService } from '../utils/email/emailService';
+import { Permission, Role } from '../utils/permissions';
+import { AccountService } from './account.service';
+import { LockoutService } from './lockout.service';
+import { RbacService } from './rbac.service';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './twoFactor.service';
+import { UserService } from './user.service';
+
+/**
+ * What administrators see of a user. Built field by field so credentials, two-factor
+ * secrets and backup codes can never end up in a response.
+ */
+export type AdminUserView = {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  status?: string;
+  verified: boolean;
+  locked: boolean;
+  lockedUntil?: Date;
+  failedLoginAttempts: number;
+  passwordResetRequired: boolean;
+  deletionScheduledAt?: Date;
+  roles: Role[];
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+  oauthProviders: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+export type AdminUserPage = {
+  users: AdminUserView[];
+  page: number;
+  limit: number;
+  total: number;
+};
+
+/**
+ * User management for administrators. `actorId` is the administrator performing the
+ * action; actions that would lock them out of their own account are refused.
+ */
+export class AdminUserService {
+
+  static async searchUsers(query: string | undefined, page: number, limit: number): Promise<AdminUserPage> {
+    const { users, total } = await UserService.searchUsers(query, page, limit);
+    return { users: users.map((user) => this.toView(user)), page, limit, total };
+  }
+
+  static async getUser(userId: string): Promise<AdminUserView> {
+    return this.toView(await this.findUser(userId));
+  }
+
+  static async verifyEmail(userId: string): Promise<AdminUserView> {
+    const user = await this.findUser(userId);
+    return this.toView(await UserService.setEmailVerified(user, true));
+  }
+
+  /**
+   * Locks the account and signs it out everywhere. Locked users cannot sign in by any
+   * method, refresh tokens or use their API keys until they are unlocked.
+   */
+  static async lockUser(actorId: string, userId: string): Promise<{ user: AdminUserView; revokedSessions: number }> {
+    this.assertNotSelf(actorId, userId, 'lock');
+
+    const user = await UserService.setLocked(await this.findUser(userId), true);
+    const revokedSessions = await SessionService.revokeAllSessions(userId);
+
+    return { user: this.toView(user), revokedSessions };
+  }
+
+  /**
+   * Lifts both an administrator lock and an automatic lockout after failed passwords.
+   */
+  static async unlockUser(userId: string): Promise<AdminUserView> {
+    const user = await UserService.setLocked(await this.findUser(userId), false);
+    return this.toView(await LockoutService.reset(user));
+  }
+
+  /**
+   * Blocks password sign-in until the user resets their password through the regular
+   * reset flow, signs them out everywhere and tells them by email.
+   */
+  static async forcePasswordReset(userId: string): Promise<{ user: AdminUserView; revokedSessions: number }> {
+    const user = await UserService.requirePasswordReset(await this.findUser(userId));
+    const revokedSessions = await SessionService.revokeAllSessions(userId);
+
+    await EmailService.sendEmail('PASSWORD_RESET_REQUIRED', {
+      user,
+      resetLink: `${env.frontendDomain}/auth`,
+    });
+
+    return { user: this.toView(user), revokedSessions };
+  }
+
+  static async revokeSessions(userId: string): Promise<number> {
+    await this.findUser(userId);
+    return SessionService.revokeAllSessions(userId);
+  }
+
+  static async updateAccess(
+    actorId: string,
+    userId: string,
+    access: { roles?: Role[]; permissions?: Permission[] }
+  ): Promise<AdminUserView> {
+    if (access.roles && !access.roles.includes('admin')) {
+      this.assertNotSelf(actorId, userId, 'remove the admin role from');
+    }
+
+    const user = await RbacService.updateAccess(await this.findUser(userId), access);
+    return this.toView(user);
+  }
+
+  static async deleteUser(actorId: string, userId: string): Promise<void> {
+    this.assertNotSelf(actorId, userId, 'delete');
+
+    await this.findUser(userId);
+    await AccountService.purge(userId);
+  }
+
+  static toView(user: UserDocument): AdminUserView {
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      status: user.status,
+      verified: !!user.verified,
+      locked: !!user.locked,
+      lockedUntil: LockoutService.isLocked(user) ? user.lockedUntil : undefined,
+      failedLoginAttempts: user.failedLoginAttempts ?? 0,
+      passwordResetRequired: !!user.passwordResetRequired,
+      deletionScheduledAt: user.deletionScheduledAt,
+      roles: user.roles ?? [],
+      permissions: user.permissions ?? [],
+      twoFactorEnabled: TwoFactorService.isEnabled(user),
+      oauthProviders: (user.oauthAccounts ?? []).map((account) => account.provider),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  private static async findUser(userId: string): Promise<UserDocument> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+    return user;
+  }
+
+  private static assertNotSelf(actorId: string, userId: string, action: string): void {
+    if (actorId === userId) {
+      throw new HttpError(`You cannot ${action} your own account.`, 400);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+import ApiKey, { ApiKeyDocument } from '../models/apiKey';
+import HttpError from '../utils/HttpError';
+import { ApiKeyScope } from '../schemas/apiKey.schema';
+import { Permission, accessClaimsFor } from '../utils/permissions';
+import { UserService } from './user.service';
+
+const API_KEY_PREFIX = 'jat_';
+const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+const MAX_API_KEYS_PER_USER = 20;
+// Writing on every request would turn each authenticated read into a database write.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdAt?: Date;
+};
+
+export type ApiKeyAuthentication = {
+  userId: string;
+  keyId: string;
+  scopes: ApiKeyScope[];
+};
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Long-lived personal API keys for scripts and CI jobs, sent as `Authorization: ApiKey <key>`.
+ *
+ * The plain key is returned once, on creation. Keys only reach routes that opt in to a
+ * scope the key was created with (see `allowApiKey`), and only while the owner still holds
+ * that permission: scopes are narrowed to the owner's current permissions on every use.
+ */
+export class ApiKeyService {
+
+  static async createKey(
+    userId: string,
+    { name, scopes, expiresAt }: { name: string; scopes: ApiKeyScope[]; expiresAt?: Date },
+    grantedPermissions: readonly Permission[]
+  ): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const missing = scopes.filter((scope) => !grantedPermissions.includes(scope));
+    if (missing.length > 0) {
+      throw new HttpError('You cannot grant an API key permissions you do not have.', 403, undefined, { missingPermissions: missing });
+    }
+
+    const count = await ApiKey.countDocuments({ userId });
+    if (count >= MAX_API_KEYS_PER_USER) {
+      throw new HttpError(`You can have at most ${MAX_API_KEYS_PER_USER} API keys.`, 409);
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await ApiKey.create({
+      userId,
+      name,
+      prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+      keyHash: hashKey(key),
+      scopes,
+      expiresAt,
+    });
+
+    return { apiKey: this.toSummary(apiKey), key };
+  }
+
+  static async listKeys(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await ApiKey.find({ userId }).sort({ createdAt: -1 });
+    return keys.map((key) => this.toSummary(key));
+  }
+
+  static async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await ApiKey.deleteOne({ _id: keyId, userId });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Resolves a presented key and records its use.
+   *
+   * @returns {Promise<ApiKeyAuthentication | null>} The key's owner and scopes, or null
+   * for unknown and expired keys and keys of locked users.
+   */
+  static async authenticate(key: string, ip: string): Promise<ApiKeyAuthentication | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashKey(key) });
+    if (!apiKey) return null;
+
+    const now = Date.now();
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now) return null;
+
+    // Keys act for their owner, so they stop working while the owner is locked out or
+    // waiting for their account to be deleted.
+    const owner = await UserService.getUserById(apiKey.userId.toString());
+    if (!owner || owner.locked || owner.deletionScheduledAt) return null;
+
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS || apiKey.lastUsedIp !== ip) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(now), lastUsedIp: ip });
+    }
+
+    // A key never outlives its owner's permissions; RBAC changes apply to it immediately.
+    const { permissions } = accessClaimsFor(owner);
+
+    return {
+      userId: apiKey.userId.toString(),
+      keyId: apiKey._id.toString(),
+      scopes: (apiKey.scopes as ApiKeyScope[]).filter((scope) => permissions.includes(scope)),
+    };
+  }
+
+  private static toSummary(apiKey: ApiKeyDocument): ApiKeySummary {
+    return {
+      id: apiKey._id.toString(),
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { FilterQuery } from 'mongoose';
+import AuditEvent, { AuditEventDocument, AuditOutcome, IAuditEvent } from '../models/auditEvent';
+import { ClientContext } from '../utils/clientContext';
+import logger from '../utils/logger';
+import { SessionService } from './session.service';
+
+export type AuditEntry = {
+  action: string;
+  actorId?: string;
+  targetUserId?: string;
+  outcome?: AuditOutcome;
+  context?: ClientContext;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * What a user sees of the events on their own account. Details are left out: they can
+ * name other accounts (an administrator) or carry internal failure reasons.
+ */
+export type SecurityEventSummary = {
+  id: string;
+  action: string;
+  outcome: AuditOutcome;
+  ip?: string;
+  device: string;
+  byAdministrator: boolean;
+  createdAt?: Date;
+};
+
+export type AuditEventView = {
+  id: string;
+  action: string;
+  actorId?: string;
+  targetUserId?: string;
+  outcome: AuditOutcome;
+  ip?: string;
+  userAgent?: string;
+  correlationId?: string;
+  details?: Record<string, unknown>;
+  createdAt?: Date;
+};
+
+export type AuditEventFilters = {
+  userId?: string;
+  action?: string;
+  outcome?: AuditOutcome;
+  ip?: string;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export type AuditEventPage<T> = {
+  events: T[];
+  page: number;
+  limit: number;
+  total: number;
+};
+
+/**
+ * Persists and queries security audit events.
+ *
+ * Actions are dotted names: `auth.*` for sign-up, sign-in and recovery, `security.*` for
+ * protections such as rate limiting, and `admin.*` for actions taken by administrators.
+ *
+ * Recording runs after the action itself has happened, so a failed write is logged rather
+ * than thrown: the caller's response should describe the action, not the bookkeeping.
+ */
+export class AuditService {
+
+  static async record({
+    action,
+    actorId,
+    targetUserId,
+    outcome = 'success',
+    context,
+    details,
+  }: AuditEntry): Promise<void> {
+    try {
+      await AuditEvent.create({
+        action,
+        actorId,
+        targetUserId,
+        outcome,
+        ip: context?.ip,
+        userAgent: context?.userAgent,
+        correlationId: context?.correlationId,
+        details,
+      });
+    } catch (error) {
+      logger.error(`Failed to record audit event ${action}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Events affecting the user's account, newest first.
+   */
+  static async listForUser(userId: string, page: number, limit: number): Promise<AuditEventPage<SecurityEventSummary>> {
+    const { events, total } = await this.find({ targetUserId: userId }, page, limit);
+
+    return {
+      events: events.map((event) => this.toSummary(event, userId)),
+      page,
+      limit,
+      total,
+    };
+  }
+
+  /**
+   * Every event affecting the user's account, newest first, for a data export.
+   */
+  static async exportForUser(userId: string): Promise<SecurityEventSummary[]> {
+    const events = await AuditEvent.find({ targetUserId: userId }).sort({ createdAt: -1 });
+    return events.map((event) => this.toSummary(event, userId));
+  }
+
+  /**
+   * Events matching every given filter, newest first. `userId` matches events the user
+   * either performed or was affected by.
+   */
+  static async search(filters: AuditEventFilters, page: number, limit: number): Promise<AuditEventPage<AuditEventView>> {
+    const query: FilterQuery<IAuditEvent> = {};
+
+    if (filters.userId) query.$or = [{ actorId: filters.userId }, { targetUserId: filters.userId }];
+    if (filters.action) query.action = filters.action;
+    if (filters.outcome) query.outcome = filters.outcome;
+    if (filters.ip) query.ip = filters.ip;
+    if (filters.correlationId) query.correlationId = filters.correlationId;
+    if (filters.from || filters.to) {
+      query.createdAt = {
+        ...(filters.from ? { $gte: filters.from } : {}),
+        ...(filters.to ? { $lte: filters.to } : {}),
+      };
+    }
+
+    const { events, total } = await this.find(query, page, limit);
+
+    return {
+      events: events.map((event) => ({
+        id: event._id.toString(),
+        action: event.action,
+        actorId: event.actorId?.toString(),
+        targetUserId: event.targetUserId?.toString(),
+        outcome: event.outcome,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        correlationId: event.correlationId,
+        details: event.details,
+        createdAt: event.createdAt,
+      })),
+      page,
+      limit,
+      total,
+    };
+  }
+
+  private static toSummary(event: AuditEventDocument, userId: string): SecurityEventSummary {
+    return {
+      id: event._id.toString(),
+      action: event.action,
+      outcome: event.outcome,
+      ip: event.ip,
+      device: SessionService.describeDevice(event.userAgent ?? ''),
+      byAdministrator: !!event.actorId && event.actorId.toString() !== userId,
+      createdAt: event.createdAt,
+    };
+  }
+
+  private static async find(
+    query: FilterQuery<IAuditEvent>,
+    page: number,
+    limit: number
+  ): Promise<{ events: AuditEventDocument[]; total: number }> {
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      AuditEvent.countDocuments(query),
+    ]);
+
+    return { events, total };
+  }
+}
@@ -1,11 +1,38 @@
+import { v4 as uuidv4 } from "uuid";
 import { EmailService } from "../utils/email/emailService";
 import { UserService } from "./user.service";
 import { UserDocument } from "../models/user";
 import HttpError from "../utils/HttpError";
 import { CreateUserRequestBody } from "../schemas/auth.schema";
-import { TokenService, TokenPayloadData } from "./token.service";
+import { TokenService, TokenPayloadData, DecodedToken } from "./token.service";
 import { env } from "../env";
-import { compare, hash } from "../utils/encryption/bcrypt.encryption";
+import { compare, hash, needsRehash } from "../utils/encryption/hashing.encryption";
+import logger from "../utils/logger";
+import { RefreshTokenService } from "./refreshToken.service";
+import { SessionService } from "./session.service";
+import { ClientContext } from "../utils/clientContext";
+import { AccessTokenDenylistRedisService, MagicLinkRedisService, MfaChallengeRedisService, SessionRedisService } from "./redis.service";
+import { TwoFactorService } from "./twoFactor.service";
+import { accessClaimsFor } from "../utils/permissions";
+import { checkPersonalInfo, passwordPolicy, reusedPasswordMessage } from "../utils/passwordPolicy";
+import { BackupCodeService } from "./backupCode.service";
+import { AuditService } from "./audit.service";
+import { LockoutService } from "./lockout.service";
+import { PasskeyService } from "./passkey.service";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+
+const MFA_TOKEN_EXPIRES_IN = '5m';
+const MFA_TOKEN_TTL_SECONDS = 5 * 60;
+const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+const LOGIN_TICKET_TTL_SECONDS = 60;
+
+type AuthTokens = { accessToken: string; refreshToken: string };
+
+export type LoginResult = AuthTokens | { mfaToken: string };
+
+export type SecondFactor = { code?: string; backupCode?: string };
+
+export type LoginMethod = 'password' | 'magic_link' | 'oauth' | 'passkey' | 'totp' | 'backup_code';
 
 export class AuthService {
   static async changePassword(email: string, newPassword: string): Promise<UserDocument> {
@@ -13,19 +40,86 @@ export class AuthService {
     if (!user) {
       throw new HttpError('Invalid credentials', 401);
     }
+    await this.assertNewPasswordAllowed(user, newPassword);
     const hashedPassword = await hash(newPassword);
     const updated = await UserService.changePassword(user, hashedPassword);
     return updated;
   }
 
+  /**
+   * Changes the password of a signed-in user who proved they know the current one.
+   *
+   * Every other session is revoked, and the current session gets a new refresh token so
+   * the one issued before the change can no longer be exchanged.
+   */
+  static async updatePassword(
+    userId: string,
+    sessionId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<{ user: UserDocument; refreshToken: string; persistent: boolean; revokedSessions: number }> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+
+    const isMatch = await compare(currentPassword, user.password);
+    if (!isMatch) {
+      throw new HttpError('Current password is incorrect.', 400, { currentPassword: ['Current password is incorrect.'] });
+    }
+    await this.assertNewPasswordAllowed(user, newPassword, currentPassword);
+
+    const updated = await UserService.changePassword(user, await hash(newPassword));
+
+    const revokedSessions = await SessionService.revokeAllSessions(userId, sessionId);
+    const session = await SessionRedisService.getSession(sessionId);
+    const refreshToken = await RefreshTokenService.issue(sessionId, userId);
+
+    return { user: updated, refreshToken, persistent: !!session?.persistent, revokedSessions };
+  }
+
+  /**
+   * The password policy rules that depend on whose password it is. The rest were checked
+   * when the request was validated.
+   */
+  private static async assertNewPasswordAllowed(
+    user: UserDocument,
+    newPassword: string,
+    currentPassword?: string
+  ): Promise<void> {
+    const issues = checkPersonalInfo(newPassword, user);
+    if (await this.isRecentPassword(user, newPassword, currentPassword)) {
+      issues.push(reusedPasswordMessage(passwordPolicy.historySize));
+    }
+    if (issues.length > 0) {
+      throw new HttpError('Invalid Request Data!', 400, { newPassword: issues });
+    }
+  }
+
+  /**
+   * Whether `password` is the current password or one of the previous ones the policy
+   * still remembers. Every remembered hash is a full password hash check; callers that
+   * just verified the current password pass it, so it is compared in plain text instead.
+   */
+  private static async isRecentPassword(user: UserDocument, password: string, currentPassword?: string): Promise<boolean> {
+    const recent = [user.password, ...(user.passwordHistory ?? [])].slice(0, passwordPolicy.historySize);
+
+    if (recent.length > 0 && currentPassword !== undefined) {
+      if (password === currentPassword) return true;
+      recent.shift();
+    }
+
+    for (const hashed of recent) {
+      if (await compare(password, hashed)) return true;
+    }
+    return false;
+  }
+
 
   static async registerUser(data: CreateUserRequestBody): Promise<string> {
 
     const { password, email } = data;
 
-    const existingUser: UserDocument | null = await UserService.getUserByEmail(email);
-
-    if (existingUser) {
+    // Also refuses addresses another account is switching to, so the switch cannot collide.
+    if (await UserService.isEmailTaken(email)) {
       throw new HttpError('This email address is already registered.', 400, { email: ['Email already in use.'] });
     }
 
@@ -50,30 +144,360 @@ export class AuthService {
     return user._id.toString();
   }
 
-  static async loginUser(email: string, password: string): Promise<{ accessToken: string; refreshToken: string }> {
+  static async loginUser(
+    email: string,
+    password: string,
+    rememberMe: boolean,
+    context: ClientContext
+  ): Promise<LoginResult> {
 
     const user = await UserService.getUserByEmail(email);
+    const fail = async (reason: string, error: HttpError): Promise<HttpError> => {
+      await this.recordLoginFailure(user, context, 'password', reason, { email });
+      return error;
+    };
+
+    if (!user) throw await fail('unknown_email', new HttpError('Email and password do not match', 401));
 
-    if (!user) throw new HttpError('Email and password do not match', 401);
+    // Checked before the password, so a locked account gives no feedback on guesses.
+    if (LockoutService.isLocked(user)) throw await fail('temporarily_locked', LockoutService.lockedError(user));
 
     const isMatch = await compare(password, user.password);
 
-    if (!isMatch) throw new HttpError('Email and password do not match', 401);
+    if (!isMatch) {
+      const updated = await LockoutService.registerFailure(user, context);
+      throw await fail('wrong_password', LockoutService.isLocked(updated)
+        ? LockoutService.lockedError(updated)
+        : new HttpError('Email and password do not match', 401));
+    }
+
+    await LockoutService.reset(user);
+    if (!user.verified) throw await fail('email_not_verified', new HttpError('Email not verified', 403));
+
+    await this.upgradePasswordHash(user, password);
+
+    return this.completeLogin(user, rememberMe, context, 'password');
+  }
+
+  /**
+   * Rehashes a correct password whose stored hash uses an outdated algorithm or cost. The
+   * plain password is only at hand during sign-in, so this is where hashes get upgraded.
+   * A failure is logged and the old hash, which still works, is kept.
+   */
+  private static async upgradePasswordHash(user: UserDocument, password: string): Promise<void> {
+    if (!needsRehash(user.password)) return;
+
+    try {
+      await UserService.setPasswordHash(user, await hash(password));
+    } catch (error) {
+      logger.warn(`Failed to upgrade the password hash of user ${user._id.toString()}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Final step shared by every first-factor login: users with two-factor authentication
+   * get an mfa_pending token, everyone else gets a session.
+   */
+  static async completeLogin(
+    user: UserDocument,
+    rememberMe: boolean,
+    context: ClientContext,
+    method: LoginMethod
+  ): Promise<LoginResult> {
+    if (TwoFactorService.isEnabled(user)) {
+      const mfaToken = await this.createMfaChallenge(user, rememberMe, context, method);
+      return { mfaToken };
+    }
+
+    return this.startSession(user, rememberMe, context, method);
+  }
+
+  /**
+   * Emails a single-use sign-in link. Unknown and unverified addresses are skipped
+   * silently, so the response does not reveal which emails are registered.
+   */
+  static async requestMagicLink(email: string, rememberMe: boolean): Promise<void> {
+    const user = await UserService.getUserByEmail(email);
+    if (!user || !user.verified) return;
+
+    const token = await this.createMagicToken(user._id.toString(), rememberMe, MAGIC_LINK_TTL_SECONDS);
+    const magicLink = `${env.frontendDomain}/magic-link?token=${token}`;
+
+    await EmailService.sendEmail('MAGIC_LINK', {
+      user,
+      magicLink,
+    });
+  }
+
+  /**
+   * Exchanges a magic link for a session. The link proves access to the mailbox, which
+   * stands in for the password; users with two-factor enabled still get the second step.
+   */
+  static async consumeMagicLink(
+    token: string,
+    context: ClientContext
+  ): Promise<{ result: LoginResult; persistent: boolean }> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'magic' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const link = await MagicLinkRedisService.consumeLink(payload.jti);
+    if (!link || link.userId !== payload.userId) {
+      throw new HttpError('Sign-in link expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(payload.userId);
+    if (!user) throw new HttpError('Sign-in link expired or already used.', 401);
+
+    const result = await this.completeLogin(user, link.rememberMe, context, 'magic_link');
+    return { result, persistent: link.rememberMe };
+  }
+
+  /**
+   * Hands a login that finished on the backend (an OAuth callback) over to the frontend.
+   * The ticket is a short-lived magic-link token, redeemed through `consumeMagicLink`.
+   */
+  static async issueLoginTicket(userId: string, rememberMe: boolean): Promise<string> {
+    return this.createMagicToken(userId, rememberMe, LOGIN_TICKET_TTL_SECONDS);
+  }
+
+  /**
+   * Passwordless login with a passkey. A user-verified passkey already combines possession
+   * and a PIN or biometric, so it skips the two-factor step; a presence-only assertion
+   * still has to pass it.
+   */
+  static async loginWithPasskey(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    rememberMe: boolean,
+    context: ClientContext
+  ): Promise<LoginResult> {
+    const { userId, userVerified } = await PasskeyService.verifyAuthentication(challengeId, response);
+
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('Passkey not recognized.', 401);
     if (!user.verified) throw new HttpError('Email not verified', 403);
 
-    const accessPayload: TokenPayloadData = {
-      userId: user._id.toString(),
-      type: 'access'
-    };
+    if (!userVerified && TwoFactorService.isEnabled(user)) {
+      const mfaToken = await this.createMfaChallenge(user, rememberMe, context, 'passkey');
+      return { mfaToken };
+    }
 
-    const refreshPayload: TokenPayloadData = {
-      userId: user._id.toString(),
-      type: 'refresh'
+    return this.startSession(user, rememberMe, context, 'passkey');
+  }
+
+  /**
+   * Second login step for users with two-factor authentication enabled, accepting either
+   * an authenticator code or a backup code. The mfa_pending token is single-use: it is
+   * consumed on success and after too many wrong codes.
+   */
+  static async completeMfaLogin(
+    mfaToken: string,
+    { code, backupCode }: SecondFactor,
+    context: ClientContext
+  ): Promise<AuthTokens & { persistent: boolean }> {
+    const payload = TokenService.verifyToken(mfaToken);
+    if (payload.type !== 'mfa_pending' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const challenge = await MfaChallengeRedisService.getChallenge(payload.jti);
+    if (!challenge || challenge.userId !== payload.userId) {
+      throw new HttpError('Two-factor challenge expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(payload.userId);
+    if (!user || !TwoFactorService.isEnabled(user)) {
+      await MfaChallengeRedisService.deleteChallenge(payload.jti);
+      throw new HttpError('Two-factor challenge expired or already used.', 401);
+    }
+
+    const isValid = backupCode
+      ? await BackupCodeService.consume(user, backupCode, 'login')
+      : !!code && await TwoFactorService.verifyTotpCode(user, code);
+    const method: LoginMethod = backupCode ? 'backup_code' : 'totp';
+    if (!isValid) {
+      await this.recordLoginFailure(user, context, method, 'invalid_code');
+      const attemptsLeft = await MfaChallengeRedisService.decreaseAttempts(payload.jti);
+      if (attemptsLeft) {
+        throw new HttpError('Invalid two-factor code.', 401, undefined, { attemptsLeft });
+      }
+      throw new HttpError('Invalid two-factor code.', 401);
+    }
+
+    await MfaChallengeRedisService.deleteChallenge(payload.jti);
+
+    const tokens = await this.startSession(user, challenge.rememberMe, context, method);
+    return { ...tokens, persistent: challenge.rememberMe };
+  }
+
+  static async refreshTokens(
+    token: string,
+    context: ClientContext
+  ): Promise<{ accessToken: string; refreshToken: string; persistent: boolean }> {
+    let rotated;
+    try {
+      rotated = await RefreshTokenService.rotate(token);
+    } catch (error) {
+      await AuditService.record({
+        action: 'auth.token_refresh',
+        outcome: 'failure',
+        context,
+        details: { reason: error instanceof HttpError ? error.message : 'invalid_token' },
+      });
+      throw error;
+    }
+    const { userId, sessionId, refreshToken, persistent } = rotated;
+
+    const user = await UserService.getUserById(userId);
+    if (!user) {
+      await SessionService.revokeSession(userId, sessionId);
+      throw new HttpError('User no longer exists.', 401);
+    }
+    if (user.locked) {
+      await SessionService.revokeSession(userId, sessionId);
+      throw new HttpError('Account is locked.', 403, undefined, { accountLocked: true });
+    }
+
+    await SessionService.touch(userId, sessionId, context);
+
+    const accessToken = TokenService.generateToken({
+      userId,
+      type: 'access',
+      sessionId,
+      ...accessClaimsFor(user),
+    }, '1h');
+
+    await AuditService.record({
+      action: 'auth.token_refresh',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+      details: { sessionId },
+    });
+
+    return { accessToken, refreshToken, persistent };
+  }
+
+  static async logout(accessToken: DecodedToken): Promise<void> {
+    const { userId, sessionId } = accessToken;
+
+    if (sessionId) {
+      await SessionService.revokeSession(userId, sessionId);
+    }
+
+    await this.denylistAccessToken(accessToken);
+  }
+
+  static async logoutAll(accessToken: DecodedToken): Promise<number> {
+    const revokedCount = await SessionService.revokeAllSessions(accessToken.userId);
+    await this.denylistAccessToken(accessToken);
+    return revokedCount;
+  }
+
+  private static async denylistAccessToken({ jti, exp }: DecodedToken): Promise<void> {
+    if (!jti || !exp) return;
+
+    const ttlSeconds = exp - Math.floor(Date.now() / 1000);
+    await AccessTokenDenylistRedisService.add(jti, ttlSeconds);
+  }
+
+  /**
+   * Every login path ends in either a session or an mfa_pending challenge, so checking
+   * here keeps locked accounts, accounts awaiting deletion and accounts that must reset
+   * their password out whichever first factor they used.
+   */
+  private static async assertNotLocked(user: UserDocument, context: ClientContext, method: LoginMethod): Promise<void> {
+    if (user.locked) {
+      await this.recordLoginFailure(user, context, method, 'account_locked');
+      throw new HttpError('Account is locked.', 403, undefined, { accountLocked: true });
+    }
+    if (user.deletionScheduledAt) {
+      await this.recordLoginFailure(user, context, method, 'deletion_scheduled');
+      throw new HttpError(
+        'This account is scheduled for deletion. Use the link we emailed you to restore it.',
+        403,
+        undefined,
+        { deletionScheduled: true }
+      );
+    }
+    if (user.passwordResetRequired) {
+      await this.recordLoginFailure(user, context, method, 'password_reset_required');
+      throw new HttpError('You must reset your password before signing in.', 403, undefined, { passwordResetRequired: true });
+    }
+  }
+
+  private static async recordLoginFailure(
+    user: UserDocument | null,
+    context: ClientContext,
+    method: LoginMethod,
+    reason: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    const userId = user?._id.toString();
+
+    await AuditService.record({
+      action: 'auth.login',
+      actorId: userId,
+      targetUserId: userId,
+      outcome: 'failure',
+      context,
+      details: { ...details, method, reason },
+    });
+  }
+
+  private static async startSession(
+    user: UserDocument,
+    rememberMe: boolean,
+    context: ClientContext,
+    method: LoginMethod
+  ): Promise<AuthTokens> {
+    await this.assertNotLocked(user, context, method);
+
+    const userId = user._id.toString();
+    const session = await SessionService.createSession(userId, rememberMe, context);
+
+    const accessPayload: TokenPayloadData = {
+      userId,
+      type: 'access',
+      sessionId: session.id,
+      ...accessClaimsFor(user),
     };
 
     const accessToken = TokenService.generateToken(accessPayload, '1h');
-    const refreshToken = TokenService.generateToken(refreshPayload, '30d');
+    const refreshToken = await RefreshTokenService.issue(session.id, userId);
+
+    await AuditService.record({
+      action: 'auth.login',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+      details: { method, sessionId: session.id },
+    });
 
     return { accessToken, refreshToken };
   }
+
+  private static async createMfaChallenge(
+    user: UserDocument,
+    rememberMe: boolean,
+    context: ClientContext,
+    method: LoginMethod
+  ): Promise<string> {
+    await this.assertNotLocked(user, context, method);
+
+    const userId = user._id.toString();
+    const jti = uuidv4();
+    await MfaChallengeRedisService.createChallenge(jti, userId, rememberMe, MFA_TOKEN_TTL_SECONDS);
+
+    return TokenService.generateToken({ userId, type: 'mfa_pending', jti }, MFA_TOKEN_EXPIRES_IN);
+  }
+
+  private static async createMagicToken(userId: string, rememberMe: boolean, ttlSeconds: number): Promise<string> {
+    const jti = uuidv4();
+    await MagicLinkRedisService.setLink(jti, userId, rememberMe, ttlSeconds);
+
+    return TokenService.generateToken({ userId, type: 'magic', jti }, ttlSeconds);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import * as crypto from 'crypto';
+import { UserDocument } from '../models/user';
+import logger from '../utils/logger';
+import { EmailService } from '../utils/email/emailService';
+import { BackupCodeUsedEmailData } from '../utils/email/emailTypes';
+import { compare, hashSecret } from '../utils/encryption/hashing.encryption';
+import { ReauthProof, ReauthService } from './reauth.service';
+import { UserService } from './user.service';
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_LENGTH = 10;
+// No 0/o, 1/l/i, so codes survive being read off paper.
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+type BackupCodeUsage = BackupCodeUsedEmailData['usage'];
+
+/**
+ * Offline, single-use backup codes. They stand in for the emailed OTP or an
+ * authenticator code when those are unavailable.
+ *
+ * Only hashes are stored; the plain codes are returned once, when generated.
+ */
+export class BackupCodeService {
+
+  static generateCode(): string {
+    let code = '';
+    for (let i = 0; i < BACKUP_CODE_LENGTH; i++) {
+      code += BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)];
+    }
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  static normalize(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  /**
+   * Replaces any existing codes with a fresh set and notifies the user by email. Requires
+   * re-authentication: backup codes reset the password, so minting them is as sensitive
+   * as changing it.
+   *
+   * @returns {Promise<string[]>} The plain codes, to be shown to the user once.
+   */
+  static async regenerate(user: UserDocument, proof: ReauthProof): Promise<string[]> {
+    await ReauthService.verify(user, proof);
+
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => this.generateCode());
+    const hashedCodes = await Promise.all(codes.map((code) => hashSecret(this.normalize(code))));
+
+    await UserService.setBackupCodes(user, hashedCodes);
+
+    try {
+      await EmailService.sendEmail('BACKUP_CODES_REGENERATED', { user });
+    } catch (error) {
+      logger.error(`Failed to send backup code regeneration notice to ${user.email}: ${(error as Error).message}`);
+    }
+
+    return codes;
+  }
+
+  static countRemaining(user: UserDocument): number {
+    return user.backupCodes?.length ?? 0;
+  }
+
+  /**
+   * Checks a code against the user's remaining codes and, if it matches, removes it
+   * and notifies the user by email.
+   */
+  static async consume(user: UserDocument, code: string, usage: BackupCodeUsage): Promise<boolean> {
+    const hashedCodes = user.backupCodes ?? [];
+    const normalized = this.normalize(code);
+
+    let matchIndex = -1;
+    for (let i = 0; i < hashedCodes.length; i++) {
+      if (await compare(normalized, hashedCodes[i])) {
+        matchIndex = i;
+        break;
+      }
+    }
+
+    if (matchIndex === -1) return false;
+
+    // Another request may have spent the same code since `user` was loaded.
+    const updated = await UserService.removeBackupCode(user, hashedCodes[matchIndex]);
+    if (!updated) return false;
+    const remaining = updated.backupCodes ?? [];
+
+    // The notification must not block the login or reset: backup codes exist for
+    // exactly the case where the mailbox is unavailable.
+    try {
+      await EmailService.sendEmail('BACKUP_CODE_USED', {
+        user,
+        usage,
+        remainingCodes: remaining.length,
+      });
+    } catch (error) {
+      logger.error(`Failed to send backup code notification to ${user.email}: ${(error as Error).message}`);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../env';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { ClientContext } from '../utils/clientContext';
+import { EmailService } from '../utils/email/emailService';
+import { AuditService } from './audit.service';
+import { EmailChangeRedisService } from './redis.service';
+import { TokenService } from './token.service';
+import { UserService } from './user.service';
+
+const EMAIL_CHANGE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Email changes with double confirmation.
+ *
+ * Requesting a change records the new address as `pendingEmail` and sends two links: a
+ * confirmation to the new address, which proves the user reads it, and a notice with a
+ * cancel link to the current address, so the owner can stop a change made from a stolen
+ * session. The account keeps its current email until the change is confirmed.
+ *
+ * A pending address counts as taken until it expires, so two accounts cannot race to
+ * claim it.
+ */
+export class EmailChangeService {
+
+  static async requestChange(userId: string, newEmail: string, context: ClientContext): Promise<UserDocument> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+
+    if (newEmail === user.email) {
+      throw new HttpError('This is already your email address.', 400, { email: ['This is already your email address.'] });
+    }
+    if (await UserService.isEmailTaken(newEmail, userId)) {
+      throw new HttpError('This email address is already registered.', 400, { email: ['Email already in use.'] });
+    }
+
+    const expiresAt = new Date(Date.now() + EMAIL_CHANGE_TTL_SECONDS * 1000);
+    const updated = await UserService.setPendingEmail(user, newEmail, expiresAt);
+
+    const confirmJti = uuidv4();
+    const cancelJti = uuidv4();
+    await EmailChangeRedisService.setRequest(userId, { email: newEmail, confirmJti, cancelJti }, EMAIL_CHANGE_TTL_SECONDS);
+
+    const linkFor = (action: 'confirm' | 'cancel', jti: string) => {
+      const token = TokenService.generateToken({ userId, type: 'email-change', jti }, EMAIL_CHANGE_TTL_SECONDS);
+      return `${env.backendDomain}/api/v1/${action}-email-change?token=${token}`;
+    };
+
+    await EmailService.sendEmail('EMAIL_CHANGE_CONFIRM', {
+      user: updated,
+      newEmail,
+      confirmationLink: linkFor('confirm', confirmJti),
+    });
+    await EmailService.sendEmail('EMAIL_CHANGE_NOTICE', {
+      user: updated,
+      newEmail,
+      cancelLink: linkFor('cancel', cancelJti),
+    });
+
+    await AuditService.record({
+      action: 'auth.email_change_requested',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+      details: { newEmail },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Redeems the link sent to the new address and switches the account over to it.
+   */
+  static async confirmChange(token: string, context: ClientContext): Promise<UserDocument> {
+    const { user, email } = await this.redeem(token, 'confirmJti');
+
+    // Someone may have signed up with the address while the change was pending.
+    if (await UserService.isEmailTaken(email, user._id.toString())) {
+      await UserService.clearPendingEmail(user);
+      throw new HttpError('This email address is already registered.', 409);
+    }
+
+    const previousEmail = user.email;
+    const updated = await UserService.applyPendingEmail(user);
+
+    await AuditService.record({
+      action: 'auth.email_changed',
+      actorId: updated._id.toString(),
+      targetUserId: updated._id.toString(),
+      context,
+      details: { previousEmail, newEmail: updated.email },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Redeems the link sent to the current address and drops the pending change.
+   */
+  static async cancelChange(token: string, context: ClientContext): Promise<UserDocument> {
+    const { user, email } = await this.redeem(token, 'cancelJti');
+    const updated = await UserService.clearPendingEmail(user);
+
+    await AuditService.record({
+      action: 'auth.email_change_cancelled',
+      actorId: updated._id.toString(),
+      targetUserId: updated._id.toString(),
+      context,
+      details: { newEmail: email },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Checks that `token` is the confirm or cancel link of the user's current request, and
+   * ends that request so neither link can be used again.
+   */
+  private static async redeem(
+    token: string,
+    link: 'confirmJti' | 'cancelJti'
+  ): Promise<{ user: UserDocument; email: string }> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'email-change' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const request = await EmailChangeRedisService.getRequest(payload.userId);
+    if (!request || request[link] !== payload.jti) {
+      throw new HttpError('Email change link expired or already used.', 401);
+    }
+
+    const consumed = await EmailChangeRedisService.consumeRequest(payload.userId);
+    if (!consumed || consumed[link] !== payload.jti) {
+      throw new HttpError('Email change link expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(payload.userId);
+    if (!user || user.pendingEmail !== consumed.email) {
+      throw new HttpError('Email change link expired or already used.', 401);
+    }
+
+    return { user, email: consumed.email };
+  }
+}
@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../env';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { ClientContext } from '../utils/clientContext';
+import { EmailService } from '../utils/email/emailService';
+import { AuditService } from './audit.service';
+import { AccountUnlockRedisService } from './redis.service';
+import { TokenService } from './token.service';
+import { UserService } from './user.service';
+
+const UNLOCK_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Progressive lockout after repeated wrong passwords.
+ *
+ * Once a user reaches `threshold` consecutive failures, password sign-in is blocked for
+ * `baseSeconds`, and every further failure doubles the wait up to `maxSeconds`. Unlike the
+ * rate limiters, the count lives on the account and only resets on a successful sign-in or
+ * through the unlock link emailed when the lockout starts.
+ *
+ * Other sign-in methods stay available, so the lockout cannot be used to keep the owner
+ * out of their own account.
+ */
+export class LockoutService {
+
+  static isLocked(user: UserDocument, now = Date.now()): boolean {
+    return !!user.lockedUntil && user.lockedUntil.getTime() > now;
+  }
+
+  /**
+   * How long an account stays locked after its `failedAttempts`-th consecutive failure.
+   */
+  static lockDurationSeconds(failedAttempts: number): number {
+    const { threshold, baseSeconds, maxSeconds } = env.accountLockout;
+    if (failedAttempts < threshold) return 0;
+
+    // Capping the exponent keeps the power finite for accounts with many failures.
+    const exponent = Math.min(failedAttempts - threshold, 32);
+    return Math.min(baseSeconds * 2 ** exponent, maxSeconds);
+  }
+
+  static lockedError(user: UserDocument): HttpError {
+    const lockedUntil = user.lockedUntil!;
+    const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+
+    return new HttpError(
+      'Too many failed sign-in attempts. Try again later or use the unlock link we emailed you.',
+      423,
+      undefined,
+      { lockedUntil: lockedUntil.toISOString(), retryAfterSeconds }
+    );
+  }
+
+  /**
+   * Counts a wrong password and locks the account once the threshold is reached. The
+   * unlock link is sent when the lockout starts, not on every escalation.
+   *
+   * @returns {Promise<UserDocument>} The user with the updated count and lock.
+   */
+  static async registerFailure(user: UserDocument, context: ClientContext): Promise<UserDocument> {
+    const userId = user._id.toString();
+    const updated = await UserService.incrementFailedLogins(userId);
+    if (!updated) return user;
+
+    const failedAttempts = updated.failedLoginAttempts ?? 0;
+    const lockSeconds = this.lockDurationSeconds(failedAttempts);
+    if (lockSeconds === 0) return updated;
+
+    const locked = await UserService.setLockedUntil(updated, new Date(Date.now() + lockSeconds * 1000));
+
+    await AuditService.record({
+      action: 'auth.account_locked',
+      actorId: userId,
+      targetUserId: userId,
+      outcome: 'failure',
+      context,
+      details: { failedAttempts, lockSeconds },
+    });
+
+    if (failedAttempts === env.accountLockout.threshold) {
+      await this.sendUnlockEmail(locked);
+    }
+
+    return locked;
+  }
+
+  static async reset(user: UserDocument): Promise<UserDocument> {
+    if (!user.failedLoginAttempts && !user.lockedUntil) return user;
+    return UserService.resetFailedLogins(user);
+  }
+
+  static async sendUnlockEmail(user: UserDocument): Promise<void> {
+    const userId = user._id.toString();
+    const jti = uuidv4();
+    await AccountUnlockRedisService.setToken(jti, userId, UNLOCK_LINK_TTL_SECONDS);
+
+    const token = TokenService.generateToken({ userId, type: 'account_unlock', jti }, UNLOCK_LINK_TTL_SECONDS);
+
+    await EmailService.sendEmail('ACCOUNT_LOCKED', {
+      user,
+      unlockLink: `${env.backendDomain}/api/v1/unlock-account?token=${token}`,
+    });
+  }
+
+  /**
+   * Redeems an unlock link, clearing the failure count and any lock.
+   */
+  static async unlockWithToken(token: string, context: ClientContext): Promise<UserDocument> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'account_unlock' || !payload.jti) {
+      throw new HttpError('Invalid token type.', 401);
+    }
+
+    const userId = await AccountUnlockRedisService.consumeToken(payload.jti);
+    if (!userId || userId !== payload.userId) {
+      throw new HttpError('Unlock link expired or already used.', 401);
+    }
+
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('Unlock link expired or already used.', 401);
+
+    const unlocked = await this.reset(user);
+
+    await AuditService.record({
+      action: 'auth.account_unlocked',
+      actorId: userId,
+      targetUserId: userId,
+      context,
+      details: { method: 'email_link' },
+    });
+
+    return unlocked;
+  }
+}
@@ -0,0 +1,244 @@
+import * as crypto from 'crypto';
+import { env } from '../env';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { ClientContext } from '../utils/clientContext';
+import logger from '../utils/logger';
+import { compare, hash } from '../utils/encryption/hashing.encryption';
+import { getOAuthProviders, OAuthProfile, OAuthProvider } from '../utils/oauth/providers';
+import { LockoutService } from './lockout.service';
+import { OAuthLinkRedisService, OAuthStateRedisService } from './redis.service';
+import { UserService } from './user.service';
+
+export type OAuthCallbackResult =
+  | { type: 'login'; userId: string; rememberMe: boolean }
+  | { type: 'link'; linkToken: string; provider: string; email: string };
+
+type TokenResponse = {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+};
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+/**
+ * Social login through external OAuth 2.0 / OpenID Connect providers, using the
+ * authorization code flow with PKCE.
+ *
+ * A provider account is matched by its stable user id, never by email. The first login
+ * with an unknown account either creates a user or, when the verified email already
+ * belongs to one, parks a pending link that the user confirms with their password, so a
+ * provider account cannot take over an existing user just by claiming the same address.
+ */
+export class OAuthService {
+
+  static listProviders(): string[] {
+    return [...getOAuthProviders().keys()];
+  }
+
+  static redirectUri(providerName: string): string {
+    return `${env.oauth.callbackBaseUrl}/${providerName}/callback`;
+  }
+
+  /**
+   * @returns The provider URL to redirect to, and the state the browser must present on
+   * the callback.
+   */
+  static async createAuthorizationUrl(
+    providerName: string,
+    rememberMe: boolean
+  ): Promise<{ url: string; state: string }> {
+    const provider = this.getProvider(providerName);
+    const { authorizationEndpoint } = await provider.getEndpoints();
+
+    const state = base64url(crypto.randomBytes(32));
+    const codeVerifier = base64url(crypto.randomBytes(32));
+    const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+    await OAuthStateRedisService.setState(state, { provider: provider.name, codeVerifier, rememberMe });
+
+    const url = new URL(authorizationEndpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.redirectUri(provider.name),
+      scope: provider.scopes.join(' '),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * `browserState` is the state remembered by the browser that started the flow. Requiring
+   * it to match stops an attacker from having a victim finish a flow the attacker started,
+   * which would sign the victim in to the attacker's account.
+   */
+  static async handleCallback(
+    providerName: string,
+    code: string,
+    state: string,
+    browserState: string | undefined
+  ): Promise<OAuthCallbackResult> {
+    const provider = this.getProvider(providerName);
+
+    if (!browserState || browserState !== state) {
+      throw new HttpError('Sign-in request expired. Please try again.', 400);
+    }
+
+    const stored = await OAuthStateRedisService.consumeState(state);
+    if (!stored || stored.provider !== provider.name) {
+      throw new HttpError('Sign-in request expired. Please try again.', 400);
+    }
+
+    const accessToken = await this.exchangeCode(provider, code, stored.codeVerifier);
+
+    let profile: OAuthProfile;
+    try {
+      profile = await provider.fetchProfile(accessToken);
+    } catch (error) {
+      logger.error(`Failed to fetch ${provider.name} profile: ${(error as Error).message}`);
+      throw new HttpError(`Could not sign in with ${provider.name}.`, 502);
+    }
+
+    const linkedUser = await UserService.getUserByOAuthAccount(provider.name, profile.providerUserId);
+    if (linkedUser) {
+      return { type: 'login', userId: linkedUser._id.toString(), rememberMe: stored.rememberMe };
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+      throw new HttpError(`Your ${provider.name} account has no verified email address.`, 400);
+    }
+
+    const existingUser = await UserService.getUserByEmail(profile.email);
+    if (existingUser) {
+      const linkToken = base64url(crypto.randomBytes(32));
+      await OAuthLinkRedisService.setPendingLink(linkToken, {
+        userId: existingUser._id.toString(),
+        provider: provider.name,
+        providerUserId: profile.providerUserId,
+        rememberMe: stored.rememberMe,
+      });
+      return { type: 'link', linkToken, provider: provider.name, email: existingUser.email };
+    }
+
+    const user = await this.createUser(provider.name, profile, profile.email);
+    return { type: 'login', userId: user._id.toString(), rememberMe: stored.rememberMe };
+  }
+
+  /**
+   * Links a pending provider account to the existing user once they prove they own it.
+   *
+   * Wrong passwords count towards the account lockout just like on the login form, and a
+   * pending link is dropped after a few of them.
+   */
+  static async confirmLink(
+    linkToken: string,
+    password: string,
+    context: ClientContext
+  ): Promise<{ user: UserDocument; rememberMe: boolean }> {
+    const pending = await OAuthLinkRedisService.getPendingLink(linkToken);
+    if (!pending) {
+      throw new HttpError('Account link request expired. Please sign in again.', 400);
+    }
+
+    const user = await UserService.getUserById(pending.userId);
+    if (!user) {
+      await OAuthLinkRedisService.deletePendingLink(linkToken);
+      throw new HttpError('Account link request expired. Please sign in again.', 400);
+    }
+
+    // Checked before the password, so a locked account gives no feedback on guesses.
+    if (LockoutService.isLocked(user)) throw LockoutService.lockedError(user);
+
+    const isMatch = await compare(password, user.password);
+    if (!isMatch) {
+      const updated = await LockoutService.registerFailure(user, context);
+      await OAuthLinkRedisService.decreaseAttempts(linkToken);
+      throw LockoutService.isLocked(updated)
+        ? LockoutService.lockedError(updated)
+        : new HttpError('Incorrect password.', 401);
+    }
+
+    await LockoutService.reset(user);
+
+    const alreadyLinked = await UserService.getUserByOAuthAccount(pending.provider, pending.providerUserId);
+    if (alreadyLinked) {
+      await OAuthLinkRedisService.deletePendingLink(linkToken);
+      throw new HttpError(`This ${pending.provider} account is already linked to a user.`, 409);
+    }
+
+    await UserService.linkOAuthAccount(user, {
+      provider: pending.provider,
+      providerUserId: pending.providerUserId,
+    });
+    await OAuthLinkRedisService.deletePendingLink(linkToken);
+
+    // Completing the link proves access to the mailbox as well, so an unverified
+    // account becomes verified.
+    if (!user.verified) {
+      await UserService.setEmailVerified(user, true);
+    }
+
+    return { user, rememberMe: pending.rememberMe };
+  }
+
+  private static getProvider(providerName: string): OAuthProvider {
+    const provider = getOAuthProviders().get(providerName);
+    if (!provider) throw new HttpError('Unknown sign-in provider.', 404);
+    return provider;
+  }
+
+  private static async exchangeCode(provider: OAuthProvider, code: string, codeVerifier: string): Promise<string> {
+    const { tokenEndpoint } = await provider.getEndpoints();
+
+    let body: TokenResponse;
+    try {
+      const response = await fetch(tokenEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: this.redirectUri(provider.name),
+          client_id: provider.clientId,
+          client_secret: provider.clientSecret,
+          code_verifier: codeVerifier,
+        }),
+      });
+      body = await response.json() as TokenResponse;
+    } catch (error) {
+      logger.error(`Token request to ${provider.name} failed: ${(error as Error).message}`);
+      throw new HttpError(`Could not sign in with ${provider.name}.`, 502);
+    }
+
+    if (!body.access_token) {
+      logger.warn(`${provider.name} rejected the authorization code: ${body.error ?? 'no access token'}`);
+      throw new HttpError(`Could not sign in with ${provider.name}.`, 401);
+    }
+
+    return body.access_token;
+  }
+
+  private static async createUser(providerName: string, profile: OAuthProfile, email: string): Promise<UserDocument> {
+    // The user never sees this password; they can set a real one through the reset flow.
+    const password = await hash(crypto.randomBytes(32).toString('hex'));
+
+    return UserService.createOAuthUser({
+      firstName: profile.firstName || email.split('@')[0],
+      lastName: profile.lastName || '-',
+      email,
+      password,
+      verified: true,
+    }, {
+      provider: providerName,
+      providerUserId: profile.providerUserId,
+    });
+  }
+}
@@ -0,0 +1,346 @@
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../env';
+import OidcClient, { OidcClientDocument } from '../models/oidcClient';
+import OidcConsent from '../models/oidcConsent';
+import HttpError from '../utils/HttpError';
+import { compare, hashSecret } from '../utils/encryption/hashing.encryption';
+import { IdTokenClaims, TokenService } from './token.service';
+import { UserService } from './user.service';
+import {
+  OidcAuthorizationCodeRedisService,
+  OidcAuthorizationRequestRedisService,
+  SessionRedisService,
+} from './redis.service';
+
+export const OIDC_SCOPES = ['openid', 'profile', 'email'];
+
+const CLIENT_ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+
+export type OidcClientSummary = {
+  clientId: string;
+  name: string;
+  redirectUris: string[];
+  confidential: boolean;
+  createdAt?: Date;
+};
+
+export type AuthorizationRequestParams = {
+  client_id?: string;
+  redirect_uri?: string;
+  response_type?: string;
+  scope?: string;
+  state?: string;
+  nonce?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  prompt?: string;
+};
+
+export type TokenRequestParams = {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  clientId: string;
+  clientSecret?: string;
+};
+
+export type TokenResponse = {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  id_token: string;
+  scope: string;
+};
+
+export type UserInfo = { sub: string } & Omit<IdTokenClaims, 'auth_time' | 'nonce'>;
+
+/**
+ * Builds the redirect back to the client, carrying either the code or an OAuth error.
+ */
+const clientRedirect = (redirectUri: string, params: Record<string, string | undefined>): string => {
+  const url = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(name, value);
+  }
+  return url.toString();
+};
+
+/**
+ * Token endpoint errors carry their RFC 6749 error code in `meta.error`.
+ */
+const tokenError = (error: string, description: string, statusCode = 400): HttpError =>
+  new HttpError(description, statusCode, undefined, { error });
+
+/**
+ * OpenID Connect provider: lets registered client applications sign their users in with
+ * an account on this service, using the authorization code flow with PKCE.
+ *
+ * /authorize validates the request and parks it in Redis, then hands over to the frontend,
+ * where the user signs in and consents. Consent is remembered per client and only asked
+ * again for new scopes or when the client sends prompt=consent.
+ */
+export class OidcService {
+
+  static async registerClient(
+    ownerId: string,
+    { name, redirectUris, confidential }: { name: string; redirectUris: string[]; confidential: boolean }
+  ): Promise<{ client: OidcClientSummary; clientSecret?: string }> {
+    const clientSecret = confidential ? crypto.randomBytes(32).toString('base64url') : undefined;
+
+    const client = await OidcClient.create({
+      clientId: uuidv4(),
+      name,
+      redirectUris,
+      ownerId,
+      secretHash: clientSecret ? await hashSecret(clientSecret) : undefined,
+    });
+
+    return { client: this.toSummary(client), clientSecret };
+  }
+
+  static async listClients(ownerId: string): Promise<OidcClientSummary[]> {
+    const clients = await OidcClient.find({ ownerId }).sort({ createdAt: -1 });
+    return clients.map((client) => this.toSummary(client));
+  }
+
+  static async deleteClient(ownerId: string, clientId: string): Promise<boolean> {
+    const result = await OidcClient.deleteOne({ clientId, ownerId });
+    if (result.deletedCount !== 1) return false;
+
+    await OidcConsent.deleteMany({ clientId });
+    return true;
+  }
+
+  /**
+   * Validates an authorization request.
+   *
+   * @returns {Promise<string>} Where to send the browser: the frontend consent page, or
+   * back to the client with an error.
+   * @throws {HttpError} If the client or redirect URI is invalid; the browser must not be
+   * redirected to an unverified URI, so these errors are shown to the user instead.
+   */
+  static async startAuthorization(params: AuthorizationRequestParams): Promise<string> {
+    const client = params.client_id ? await OidcClient.findOne({ clientId: params.client_id }) : null;
+    if (!client) throw new HttpError('Unknown client.', 400);
+
+    const redirectUri = params.redirect_uri;
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      throw new HttpError('Redirect URI is not registered for this client.', 400);
+    }
+
+    const fail = (error: string, description: string) =>
+      clientRedirect(redirectUri, { error, error_description: description, state: params.state });
+
+    if (params.response_type !== 'code') {
+      return fail('unsupported_response_type', 'Only the authorization code flow is supported.');
+    }
+
+    const requested = (params.scope ?? '').split(' ').filter(Boolean);
+    if (!requested.includes('openid')) {
+      return fail('invalid_scope', 'The openid scope is required.');
+    }
+
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+      return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+    }
+
+    if (params.prompt === 'none') {
+      return fail('interaction_required', 'User interaction is required.');
+    }
+
+    const requestId = uuidv4();
+    await OidcAuthorizationRequestRedisService.setRequest(requestId, {
+      clientId: client.clientId,
+      redirectUri,
+      // Unknown scopes are ignored rather than rejected, as OpenID Connect requires.
+      scopes: requested.filter((scope) => OIDC_SCOPES.includes(scope)),
+      codeChallenge: params.code_challenge,
+      state: params.state,
+      nonce: params.nonce,
+      forceConsent: params.prompt === 'consent',
+    });
+
+    return `${env.frontendDomain}/oidc/authorize?request=${requestId}`;
+  }
+
+  static async getAuthorizationRequest(
+    requestId: string,
+    userId: string
+  ): Promise<{ client: { name: string }; scopes: string[]; consentRequired: boolean }> {
+    const request = await OidcAuthorizationRequestRedisService.getRequest(requestId);
+    if (!request) throw new HttpError('Authorization request expired. Please start again.', 404);
+
+    const client = await OidcClient.findOne({ clientId: request.clientId });
+    if (!client) throw new HttpError('Authorization request expired. Please start again.', 404);
+
+    const consent = await OidcConsent.findOne({ userId, clientId: request.clientId });
+    const consentRequired = request.forceConsent ||
+      !consent ||
+      request.scopes.some((scope) => !consent.scopes.includes(scope));
+
+    return { client: { name: client.name }, scopes: request.scopes, consentRequired };
+  }
+
+  /**
+   * Records the signed-in user's answer to an authorization request.
+   *
+   * @returns {Promise<string>} The client redirect, with a code or error=access_denied.
+   */
+  static async decideAuthorization(
+    requestId: string,
+    userId: string,
+    sessionId: string,
+    approved: boolean
+  ): Promise<string> {
+    const request = await OidcAuthorizationRequestRedisService.getRequest(requestId);
+    if (!request || !(await OidcAuthorizationRequestRedisService.deleteRequest(requestId))) {
+      throw new HttpError('Authorization request expired. Please start again.', 404);
+    }
+
+    if (!approved) {
+      return clientRedirect(request.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user denied the request.',
+        state: request.state,
+      });
+    }
+
+    await OidcConsent.updateOne(
+      { userId, clientId: request.clientId },
+      { $addToSet: { scopes: { $each: request.scopes } } },
+      { upsert: true }
+    );
+
+    // auth_time is when the user last actually authenticated, i.e. when the session began.
+    const session = await SessionRedisService.getSession(sessionId);
+    const authTime = Math.floor((session?.createdAt ?? Date.now()) / 1000);
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    await OidcAuthorizationCodeRedisService.setCode(code, {
+      clientId: request.clientId,
+      userId,
+      redirectUri: request.redirectUri,
+      scopes: request.scopes,
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+      authTime,
+    });
+
+    return clientRedirect(request.redirectUri, { code, state: request.state });
+  }
+
+  static async exchangeCode({
+    code,
+    redirectUri,
+    codeVerifier,
+    clientId,
+    clientSecret,
+  }: TokenRequestParams): Promise<TokenResponse> {
+    const client = await OidcClient.findOne({ clientId });
+    if (!client) throw tokenError('invalid_client', 'Client authentication failed.', 401);
+
+    if (client.secretHash) {
+      if (!clientSecret || !(await compare(clientSecret, client.secretHash))) {
+        throw tokenError('invalid_client', 'Client authentication failed.', 401);
+      }
+    } else if (clientSecret) {
+      throw tokenError('invalid_client', 'Public clients must not send a client secret.', 401);
+    }
+
+    const grant = await OidcAuthorizationCodeRedisService.consumeCode(code);
+    if (!grant || grant.clientId !== clientId || grant.redirectUri !== redirectUri) {
+      throw tokenError('invalid_grant', 'Authorization code is invalid, expired or already used.');
+    }
+
+    const challenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      throw tokenError('invalid_grant', 'PKCE verification failed.');
+    }
+
+    const user = await UserService.getUserById(grant.userId);
+    if (!user || user.locked || user.deletionScheduledAt) throw tokenError('invalid_grant', 'Authorization code is invalid, expired or already used.');
+
+    const scope = grant.scopes.join(' ');
+    const accessToken = TokenService.generateToken({
+      userId: grant.userId,
+      type: 'client_access',
+      clientId,
+      scope,
+    }, CLIENT_ACCESS_TOKEN_TTL_SECONDS);
+
+    const idToken = TokenService.generateIdToken(grant.userId, clientId, {
+      auth_time: grant.authTime,
+      nonce: grant.nonce,
+      ...this.claimsFor(user, grant.scopes),
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: CLIENT_ACCESS_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+      scope,
+    };
+  }
+
+  static async getUserInfo(accessToken: string): Promise<UserInfo> {
+    const payload = TokenService.verifyToken(accessToken);
+    if (payload.type !== 'client_access') throw new HttpError('Invalid token type.', 401);
+
+    const user = await UserService.getUserById(payload.userId);
+    if (!user) throw new HttpError('User no longer exists.', 401);
+    if (user.locked) throw new HttpError('Account is locked.', 401);
+    if (user.deletionScheduledAt) throw new HttpError('Account is scheduled for deletion.', 401);
+
+    return {
+      sub: payload.userId,
+      ...this.claimsFor(user, (payload.scope ?? '').split(' ')),
+    };
+  }
+
+  static getDiscoveryDocument(): Record<string, unknown> {
+    const issuer = env.backendDomain;
+
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/api/v1/oidc/authorize`,
+      token_endpoint: `${issuer}/api/v1/oidc/token`,
+      userinfo_endpoint: `${issuer}/api/v1/oidc/userinfo`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      scopes_supported: OIDC_SCOPES,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [TokenService.getIdTokenSigningAlgorithm()],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce',
+        'email', 'email_verified', 'name', 'given_name', 'family_name',
+      ],
+    };
+  }
+
+  private static claimsFor(
+    user: { email: string; verified?: boolean; firstName: string; lastName: string },
+    scopes: string[]
+  ): Omit<IdTokenClaims, 'auth_time' | 'nonce'> {
+    return {
+      ...(scopes.includes('email') ? { email: user.email, email_verified: !!user.verified } : {}),
+      ...(scopes.includes('profile')
+        ? { name: `${user.firstName} ${user.lastName}`, given_name: user.firstName, family_name: user.lastName }
+        : {}),
+    };
+  }
+
+  private static toSummary(client: OidcClientDocument): OidcClientSummary {
+    return {
+      clientId: client.clientId,
+      name: client.name,
+      redirectUris: client.redirectUris,
+      confidential: !!client.secretHash,
+      createdAt: client.createdAt,
+    };
+  }
+}
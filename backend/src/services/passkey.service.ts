@@ -0,0 +1,219 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import Passkey, { PasskeyDocument } from '../models/passkey';
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { env } from '../env';
+import { ReauthProof, ReauthService } from './reauth.service';
+import { WebAuthnChallengeRedisService } from './redis.service';
+
+export type PasskeySummary = {
+  id: string;
+  name: string;
+  deviceType: string;
+  backedUp: boolean;
+  createdAt?: Date;
+  lastUsedAt?: Date;
+};
+
+type AuthenticationResult = {
+  userId: string;
+  userVerified: boolean;
+};
+
+type AuthenticationOptions = {
+  challengeId: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+};
+
+/**
+ * WebAuthn registration and authentication ceremonies for passkeys.
+ *
+ * Challenges live in Redis and are consumed on first use, whether or not the
+ * ceremony succeeds. Registration challenges are keyed by user; authentication
+ * happens before the user is known, so those are keyed by a random challenge id
+ * handed to the client alongside the options.
+ *
+ * A user-verified passkey signs in without the second factor, so both registration steps
+ * require re-authentication: a stolen access token alone must not be able to add one.
+ */
+export class PasskeyService {
+
+  static async generateRegistrationOptions(
+    user: UserDocument,
+    proof: ReauthProof
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    await ReauthService.verify(user, proof);
+
+    const existing = await Passkey.find({ userId: user._id });
+
+    const options = await generateRegistrationOptions({
+      rpName: env.webauthn.rpName,
+      rpID: env.webauthn.rpId,
+      userName: user.email,
+      userDisplayName: `${user.firstName} ${user.lastName}`,
+      userID: new TextEncoder().encode(user._id.toString()),
+      attestationType: 'none',
+      excludeCredentials: existing.map((passkey) => ({
+        id: passkey.credentialId,
+        transports: passkey.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'preferred',
+      },
+    });
+
+    await WebAuthnChallengeRedisService.setRegistrationChallenge(user._id.toString(), options.challenge);
+
+    return options;
+  }
+
+  static async verifyRegistration(
+    user: UserDocument,
+    response: RegistrationResponseJSON,
+    proof: ReauthProof,
+    name?: string
+  ): Promise<PasskeySummary> {
+    await ReauthService.verify(user, proof);
+
+    const userId = user._id.toString();
+    const expectedChallenge = await WebAuthnChallengeRedisService.consumeRegistrationChallenge(userId);
+    if (!expectedChallenge) {
+      throw new HttpError('Passkey registration expired. Please try again.', 400);
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: env.webauthn.origin,
+        expectedRPID: env.webauthn.rpId,
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      logger.warn(`Passkey registration failed for user ${userId}: ${(error as Error).message}`);
+      throw new HttpError('Passkey registration could not be verified.', 400);
+    }
+
+    if (!verification.verified) {
+      throw new HttpError('Passkey registration could not be verified.', 400);
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const passkey = await Passkey.create({
+      userId: user._id,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name: name ?? 'Passkey',
+    });
+
+    return this.toSummary(passkey);
+  }
+
+  static async generateAuthenticationOptions(): Promise<AuthenticationOptions> {
+    // No allowCredentials: the authenticator offers any discoverable passkey for this RP,
+    // so the user does not have to type an email first.
+    const options = await generateAuthenticationOptions({
+      rpID: env.webauthn.rpId,
+      userVerification: 'preferred',
+    });
+
+    const challengeId = uuidv4();
+    await WebAuthnChallengeRedisService.setAuthenticationChallenge(challengeId, options.challenge);
+
+    return { challengeId, options };
+  }
+
+  /**
+   * @returns {Promise<AuthenticationResult>} The owner of the passkey, and whether the
+   * authenticator verified the user (PIN or biometrics) rather than only their presence.
+   */
+  static async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<AuthenticationResult> {
+    const expectedChallenge = await WebAuthnChallengeRedisService.consumeAuthenticationChallenge(challengeId);
+    if (!expectedChallenge) {
+      throw new HttpError('Passkey sign-in expired. Please try again.', 401);
+    }
+
+    const passkey = await Passkey.findOne({ credentialId: response.id });
+    if (!passkey) {
+      throw new HttpError('Passkey not recognized.', 401);
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: env.webauthn.origin,
+        expectedRPID: env.webauthn.rpId,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(passkey.publicKey),
+          counter: passkey.counter,
+          transports: passkey.transports,
+        },
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      logger.warn(`Passkey sign-in failed for credential ${passkey.credentialId}: ${(error as Error).message}`);
+      throw new HttpError('Passkey could not be verified.', 401);
+    }
+
+    if (!verification.verified) {
+      throw new HttpError('Passkey could not be verified.', 401);
+    }
+
+    passkey.counter = verification.authenticationInfo.newCounter;
+    passkey.backedUp = verification.authenticationInfo.credentialBackedUp;
+    passkey.lastUsedAt = new Date();
+    await passkey.save();
+
+    return {
+      userId: passkey.userId.toString(),
+      userVerified: verification.authenticationInfo.userVerified,
+    };
+  }
+
+  static async listPasskeys(userId: string): Promise<PasskeySummary[]> {
+    const passkeys = await Passkey.find({ userId }).sort({ createdAt: -1 });
+    return passkeys.map((passkey) => this.toSummary(passkey));
+  }
+
+  static async deletePasskey(userId: string, passkeyId: string): Promise<boolean> {
+    const result = await Passkey.deleteOne({ _id: passkeyId, userId });
+    return result.deletedCount === 1;
+  }
+
+  private static toSummary(passkey: PasskeyDocument): PasskeySummary {
+    return {
+      id: passkey._id.toString(),
+      name: passkey.name,
+      deviceType: passkey.deviceType,
+      backedUp: passkey.backedUp,
+      createdAt: passkey.createdAt,
+      lastUsedAt: passkey.lastUsedAt,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { UserDocument } from '../models/user';
+import { UpdateProfileRequestBody } from '../schemas/profile.schema';
+import HttpError from '../utils/HttpError';
+import { Permission, Role } from '../utils/permissions';
+import { TwoFactorService } from './twoFactor.service';
+import { UserService } from './user.service';
+
+/**
+ * What a signed-in user sees of their own account. Built field by field, like the
+ * administrator view, so the password hash and two-factor secrets never reach a response.
+ */
+export type ProfileView = {
+  id: string;
+  email: string;
+  pendingEmail?: string;
+  firstName: string;
+  lastName: string;
+  status?: string;
+  verified: boolean;
+  roles: Role[];
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+  oauthProviders: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+export class ProfileService {
+
+  static async getProfile(userId: string): Promise<ProfileView> {
+    return this.toView(await this.findUser(userId));
+  }
+
+  static async updateProfile(userId: string, changes: UpdateProfileRequestBody): Promise<ProfileView> {
+    const user = await this.findUser(userId);
+    return this.toView(await UserService.updateProfile(user, changes));
+  }
+
+  static toView(user: UserDocument): ProfileView {
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      // An expired change no longer needs confirming; the next request replaces it.
+      pendingEmail: user.pendingEmailExpiresAt && user.pendingEmailExpiresAt.getTime() > Date.now()
+        ? user.pendingEmail
+        : undefined,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      status: user.status,
+      verified: !!user.verified,
+      roles: user.roles ?? [],
+      permissions: user.permissions ?? [],
+      twoFactorEnabled: TwoFactorService.isEnabled(user),
+      oauthProviders: (user.oauthAccounts ?? []).map((account) => account.provider),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  private static async findUser(userId: string): Promise<UserDocument> {
+    const user = await UserService.getUserById(userId);
+    if (!user) throw new HttpError('User not found.', 404);
+    return user;
+  }
+}
@@ -0,0 +1,45 @@
+import { UserDocument } from '../models/user';
+import { Permission, Role } from '../utils/permissions';
+import { AuthzVersionRedisService } from './redis.service';
+import { UserService } from './user.service';
+
+// Matches the access token lifetime: older tokens have expired by the time the entry does.
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * Changes to a user's roles and directly granted permissions.
+ *
+ * Access tokens carry the user's roles, permissions and authorization version. Every
+ * change bumps the version and publishes it to Redis, and `loginRequired` rejects tokens
+ * with an older version, so clients refresh and pick up the new claims right away instead
+ * of when the access token expires.
+ */
+export class RbacService {
+
+  static async updateAccess(
+    user: UserDocument,
+    { roles, permissions }: { roles?: Role[]; permissions?: Permission[] }
+  ): Promise<UserDocument> {
+    const updated = await UserService.updateAccess(
+      user,
+      roles ?? user.roles ?? [],
+      permissions ?? user.permissions ?? []
+    );
+
+    await AuthzVersionRedisService.setVersion(
+      updated._id.toString(),
+      updated.authzVersion ?? 0,
+      ACCESS_TOKEN_TTL_SECONDS
+    );
+
+    return updated;
+  }
+
+  /**
+   * Whether a token's claims predate the user's latest role or permission change.
+   */
+  static async isStale(userId: string, authzVersion = 0): Promise<boolean> {
+    const current = await AuthzVersionRedisService.getVersion(userId);
+    return current !== null && authzVersion < current;
+  }
+}
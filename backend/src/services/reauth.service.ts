@@ -0,0 +1,39 @@
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { compare } from '../utils/encryption/hashing.encryption';
+import { TwoFactorService } from './twoFactor.service';
+
+export type ReauthProof = {
+  password?: string;
+  code?: string;
+};
+
+/**
+ * Re-authentication before sensitive changes, so a stolen access token alone is not enough
+ * to make them. The user proves it is them with their current password or, when two-factor
+ * authentication is on, a fresh authenticator code.
+ */
+export class ReauthService {
+
+  /**
+   * @throws {HttpError} 400 if no proof is given or the password is wrong, 401 if the
+   * authenticator code is wrong.
+   */
+  static async verify(user: UserDocument, proof: ReauthProof): Promise<void> {
+    if (proof.code) {
+      const isValid = await TwoFactorService.verifyTotpCode(user, proof.code);
+      if (!isValid) throw new HttpError('Invalid two-factor code.', 401);
+      return;
+    }
+
+    if (proof.password) {
+      const isMatch = await compare(proof.password, user.password);
+      if (!isMatch) {
+        throw new HttpError('Password is incorrect.', 400, { password: ['Password is incorrect.'] });
+      }
+      return;
+    }
+
+    throw new HttpError('Confirm with your password or an authenticator code.', 400);
+  }
+}
@@ -2,6 +2,13 @@ import { UserDocument } from "../models/user";
 import redisClient from "../utils/redisClient";
 
 const OTP_TTL_SECONDS = 300;
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+const MFA_CHALLENGE_ATTEMPTS = 5;
+const WEBAUTHN_CHALLENGE_TTL_SECONDS = 300;
+const OAUTH_TTL_SECONDS = 600;
+const OAUTH_LINK_ATTEMPTS = 3;
+const OIDC_AUTHORIZATION_REQUEST_TTL_SECONDS = 600;
+const OIDC_AUTHORIZATION_CODE_TTL_SECONDS = 60;
 
 export const OtpRedisService = {
   getKey: (email: string) => `auth:password-reset:otp:${email}`,
@@ -76,4 +83,594 @@ export const ResetTokenRedisService = {
     const key = this.getKey(email);
     await redisClient.del(key);
   }
-}
\ No newline at end of file
+}
+
+export type SessionData = {
+  id: string;
+  userId: string;
+  currentJti: string;
+  persistent: boolean;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+// KEYS: session hash, user index. ARGV: expected jti, next jti, session id, TTL.
+const SWAP_JTI_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'currentJti') ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'currentJti', ARGV[2])
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+redis.call('SADD', KEYS[2], ARGV[3])
+redis.call('EXPIRE', KEYS[2], ARGV[4])
+return 1
+`;
+
+// KEYS: session hash, user index. ARGV: ip, user agent, last used at, session id, TTL.
+const TOUCH_SESSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+redis.call('HSET', KEYS[1], 'ip', ARGV[1], 'userAgent', ARGV[2], 'lastUsedAt', ARGV[3])
+redis.call('SADD', KEYS[2], ARGV[4])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+return 1
+`;
+
+export const SessionRedisService = {
+  getKey: (sessionId: string) => `auth:session:${sessionId}`,
+  getUserKey: (userId: string) => `auth:user-sessions:${userId}`,
+
+  async createSession(session: SessionData): Promise<void> {
+    const key = this.getKey(session.id);
+    const userKey = this.getUserKey(session.userId);
+
+    await redisClient.hset(key, {
+      userId: session.userId,
+      currentJti: session.currentJti,
+      persistent: session.persistent ? 1 : 0,
+      device: session.device,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+    });
+    await redisClient.expire(key, SESSION_TTL_SECONDS);
+
+    await redisClient.sadd(userKey, session.id);
+    await redisClient.expire(userKey, SESSION_TTL_SECONDS);
+  },
+
+  async getSession(sessionId: string): Promise<SessionData | null> {
+    const key = this.getKey(sessionId);
+    const data = await redisClient.hgetall(key);
+    if (!data || Object.keys(data).length === 0) return null;
+
+    return {
+      id: sessionId,
+      userId: data.userId,
+      currentJti: data.currentJti,
+      persistent: data.persistent === '1',
+      device: data.device,
+      ip: data.ip,
+      userAgent: data.userAgent,
+      createdAt: parseInt(data.createdAt, 10),
+      lastUsedAt: parseInt(data.lastUsedAt, 10),
+    };
+  },
+
+  async getSessionIds(userId: string): Promise<string[]> {
+    return await redisClient.smembers(this.getUserKey(userId));
+  },
+
+  /**
+   * Every write that keeps a session alive also re-adds it to the user's index and extends
+   * the index's TTL, so the index never expires before a session it lists.
+   */
+  async rotateJti(sessionId: string, userId: string, currentJti: string): Promise<void> {
+    const key = this.getKey(sessionId);
+    const userKey = this.getUserKey(userId);
+
+    await redisClient.multi()
+      .hset(key, { currentJti })
+      .expire(key, SESSION_TTL_SECONDS)
+      .sadd(userKey, sessionId)
+      .expire(userKey, SESSION_TTL_SECONDS)
+      .exec();
+  },
+
+  /**
+   * Replaces the session's current jti with `nextJti`, but only if it is still
+   * `expectedJti`. The check and the write run as one Lua script, so of two requests
+   * presenting the same refresh token only one can win.
+   *
+   * @returns {Promise<boolean>} False if the session is gone or holds another jti.
+   */
+  async swapJti(sessionId: string, userId: string, expectedJti: string, nextJti: string): Promise<boolean> {
+    const swapped = await redisClient.eval(
+      SWAP_JTI_SCRIPT,
+      2,
+      this.getKey(sessionId),
+      this.getUserKey(userId),
+      expectedJti,
+      nextJti,
+      sessionId,
+      SESSION_TTL_SECONDS
+    );
+    return swapped === 1;
+  },
+
+  /**
+   * Records the latest use of a session. Runs as one Lua script so a session that expires
+   * meanwhile is not recreated as a partial hash without a TTL.
+   */
+  async touchSession(sessionId: string, userId: string, ip: string, userAgent: string): Promise<void> {
+    await redisClient.eval(
+      TOUCH_SESSION_SCRIPT,
+      2,
+      this.getKey(sessionId),
+      this.getUserKey(userId),
+      ip,
+      userAgent,
+      Date.now(),
+      sessionId,
+      SESSION_TTL_SECONDS
+    );
+  },
+
+  async deleteSession(sessionId: string, userId: string): Promise<void> {
+    await redisClient.del(this.getKey(sessionId));
+    await redisClient.srem(this.getUserKey(userId), sessionId);
+  },
+}
+
+export const AccessTokenDenylistRedisService = {
+  getKey: (jti: string) => `auth:denylist:access:${jti}`,
+
+  async add(jti: string, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) return;
+    const key = this.getKey(jti);
+    await redisClient.set(key, 1, 'EX', ttlSeconds);
+  },
+
+  async has(jti: string): Promise<boolean> {
+    const key = this.getKey(jti);
+    return (await redisClient.exists(key)) === 1;
+  },
+}
+
+/**
+ * The latest authorization version of users whose roles or permissions changed recently.
+ * Entries only need to outlive the access tokens issued before the change.
+ */
+export const AuthzVersionRedisService = {
+  getKey: (userId: string) => `auth:authz-version:${userId}`,
+
+  async setVersion(userId: string, version: number, ttlSeconds: number): Promise<void> {
+    await redisClient.set(this.getKey(userId), version, 'EX', ttlSeconds);
+  },
+
+  async getVersion(userId: string): Promise<number | null> {
+    const value = await redisClient.get(this.getKey(userId));
+    return value === null ? null : parseInt(value, 10);
+  },
+
+  async deleteVersion(userId: string): Promise<void> {
+    await redisClient.del(this.getKey(userId));
+  },
+}
+
+export type MfaChallengeData = {
+  userId: string;
+  rememberMe: boolean;
+  attemptsLeft: number;
+};
+
+export const MfaChallengeRedisService = {
+  getKey: (jti: string) => `auth:mfa:challenge:${jti}`,
+
+  async createChallenge(jti: string, userId: string, rememberMe: boolean, ttlSeconds: number): Promise<void> {
+    const key = this.getKey(jti);
+
+    await redisClient.hset(key, {
+      userId,
+      rememberMe: rememberMe ? 1 : 0,
+      attemptsLeft: MFA_CHALLENGE_ATTEMPTS,
+    });
+    await redisClient.expire(key, ttlSeconds);
+  },
+
+  async getChallenge(jti: string): Promise<MfaChallengeData | null> {
+    const key = this.getKey(jti);
+    const data = await redisClient.hgetall(key);
+    if (!data || Object.keys(data).length === 0) return null;
+
+    return {
+      userId: data.userId,
+      rememberMe: data.rememberMe === '1',
+      attemptsLeft: parseInt(data.attemptsLeft, 10),
+    };
+  },
+
+  async decreaseAttempts(jti: string): Promise<number | null> {
+    const key = this.getKey(jti);
+
+    const exists = await redisClient.exists(key);
+    if (!exists) return null;
+
+    const attemptsLeft = await redisClient.hincrby(key, 'attemptsLeft', -1);
+
+    if (attemptsLeft <= 0) {
+      await redisClient.del(key);
+    }
+    return attemptsLeft;
+  },
+
+  async deleteChallenge(jti: string): Promise<void> {
+    await redisClient.del(this.getKey(jti));
+  },
+}
+
+export const WebAuthnChallengeRedisService = {
+  getRegistrationKey: (userId: string) => `auth:webauthn:registration:${userId}`,
+  getAuthenticationKey: (challengeId: string) => `auth:webauthn:authentication:${challengeId}`,
+
+  async setRegistrationChallenge(userId: string, challenge: string): Promise<void> {
+    const key = this.getRegistrationKey(userId);
+    await redisClient.set(key, challenge, 'EX', WEBAUTHN_CHALLENGE_TTL_SECONDS);
+  },
+
+  async consumeRegistrationChallenge(userId: string): Promise<string | null> {
+    const key = this.getRegistrationKey(userId);
+    const challenge = await redisClient.get(key);
+    await redisClient.del(key);
+    return challenge;
+  },
+
+  async setAuthenticationChallenge(challengeId: string, challenge: string): Promise<void> {
+    const key = this.getAuthenticationKey(challengeId);
+    await redisClient.set(key, challenge, 'EX', WEBAUTHN_CHALLENGE_TTL_SECONDS);
+  },
+
+  async consumeAuthenticationChallenge(challengeId: string): Promise<string | null> {
+    const key = this.getAuthenticationKey(challengeId);
+    const challenge = await redisClient.get(key);
+    await redisClient.del(key);
+    return challenge;
+  },
+}
+
+export const MagicLinkRedisService = {
+  getKey: (jti: string) => `auth:magic-link:${jti}`,
+
+  async setLink(jti: string, userId: string, rememberMe: boolean, ttlSeconds: number): Promise<void> {
+    const key = this.getKey(jti);
+
+    await redisClient.hset(key, {
+      userId,
+      rememberMe: rememberMe ? 1 : 0,
+    });
+    await redisClient.expire(key, ttlSeconds);
+  },
+
+  /**
+   * Reads and deletes the link in one go. Only the caller whose DEL removed the key gets
+   * the data back, so two concurrent requests cannot both use the same link.
+   */
+  async consumeLink(jti: string): Promise<{ userId: string; rememberMe: boolean } | null> {
+    const key = this.getKey(jti);
+    const data = await redisClient.hgetall(key);
+    if (!data || Object.keys(data).length === 0) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return {
+      userId: data.userId,
+      rememberMe: data.rememberMe === '1',
+    };
+  },
+}
+
+export const AccountUnlockRedisService = {
+  getKey: (jti: string) => `auth:account-unlock:${jti}`,
+
+  async setToken(jti: string, userId: string, ttlSeconds: number): Promise<void> {
+    await redisClient.set(this.getKey(jti), userId, 'EX', ttlSeconds);
+  },
+
+  /**
+   * Unlock links are single-use; see `MagicLinkRedisService.consumeLink`.
+   */
+  async consumeToken(jti: string): Promise<string | null> {
+    const key = this.getKey(jti);
+    const userId = await redisClient.get(key);
+    if (!userId) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return userId;
+  },
+}
+
+export const AccountRestoreRedisService = {
+  getKey: (jti: string) => `auth:account-restore:${jti}`,
+
+  async setToken(jti: string, userId: string, ttlSeconds: number): Promise<void> {
+    await redisClient.set(this.getKey(jti), userId, 'EX', ttlSeconds);
+  },
+
+  /**
+   * Restore links are single-use; see `MagicLinkRedisService.consumeLink`.
+   */
+  async consumeToken(jti: string): Promise<string | null> {
+    const key = this.getKey(jti);
+    const userId = await redisClient.get(key);
+    if (!userId) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return userId;
+  },
+}
+
+export const AccountDeletionRedisService = {
+  getKey: (jti: string) => `auth:account-deletion:${jti}`,
+
+  async setToken(jti: string, userId: string, ttlSeconds: number): Promise<void> {
+    await redisClient.set(this.getKey(jti), userId, 'EX', ttlSeconds);
+  },
+
+  /**
+   * Confirmation links are single-use; see `MagicLinkRedisService.consumeLink`.
+   */
+  async consumeToken(jti: string): Promise<string | null> {
+    const key = this.getKey(jti);
+    const userId = await redisClient.get(key);
+    if (!userId) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return userId;
+  },
+}
+
+export type EmailChangeRequestData = {
+  email: string;
+  confirmJti: string;
+  cancelJti: string;
+};
+
+/**
+ * At most one email change per user is pending; starting a new one replaces the previous
+ * request, so its links stop working.
+ */
+export const EmailChangeRedisService = {
+  getKey: (userId: string) => `auth:email-change:${userId}`,
+
+  async setRequest(userId: string, request: EmailChangeRequestData, ttlSeconds: number): Promise<void> {
+    const key = this.getKey(userId);
+    await redisClient.hset(key, request);
+    await redisClient.expire(key, ttlSeconds);
+  },
+
+  async getRequest(userId: string): Promise<EmailChangeRequestData | null> {
+    const data = await redisClient.hgetall(this.getKey(userId));
+    if (!data || !data.email) return null;
+
+    return { email: data.email, confirmJti: data.confirmJti, cancelJti: data.cancelJti };
+  },
+
+  /**
+   * Confirm and cancel links are single-use and exclusive: whichever is used first ends
+   * the request. See `MagicLinkRedisService.consumeLink`.
+   */
+  async consumeRequest(userId: string): Promise<EmailChangeRequestData | null> {
+    const request = await this.getRequest(userId);
+    if (!request) return null;
+
+    const deleted = await redisClient.del(this.getKey(userId));
+    if (deleted !== 1) return null;
+
+    return request;
+  },
+
+  async deleteRequest(userId: string): Promise<void> {
+    await redisClient.del(this.getKey(userId));
+  },
+}
+
+export type OAuthStateData = {
+  provider: string;
+  codeVerifier: string;
+  rememberMe: boolean;
+};
+
+export const OAuthStateRedisService = {
+  getKey: (state: string) => `auth:oauth:state:${state}`,
+
+  async setState(state: string, data: OAuthStateData): Promise<void> {
+    const key = this.getKey(state);
+
+    await redisClient.hset(key, {
+      provider: data.provider,
+      codeVerifier: data.codeVerifier,
+      rememberMe: data.rememberMe ? 1 : 0,
+    });
+    await redisClient.expire(key, OAUTH_TTL_SECONDS);
+  },
+
+  async consumeState(state: string): Promise<OAuthStateData | null> {
+    const key = this.getKey(state);
+    const data = await redisClient.hgetall(key);
+    if (!data || Object.keys(data).length === 0) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return {
+      provider: data.provider,
+      codeVerifier: data.codeVerifier,
+      rememberMe: data.rememberMe === '1',
+    };
+  },
+}
+
+export type OAuthPendingLinkData = {
+  userId: string;
+  provider: string;
+  providerUserId: string;
+  rememberMe: boolean;
+};
+
+export const OAuthLinkRedisService = {
+  getKey: (token: string) => `auth:oauth:link:${token}`,
+
+  async setPendingLink(token: string, data: OAuthPendingLinkData): Promise<void> {
+    const key = this.getKey(token);
+
+    await redisClient.hset(key, {
+      userId: data.userId,
+      provider: data.provider,
+      providerUserId: data.providerUserId,
+      rememberMe: data.rememberMe ? 1 : 0,
+      attemptsLeft: OAUTH_LINK_ATTEMPTS,
+    });
+    await redisClient.expire(key, OAUTH_TTL_SECONDS);
+  },
+
+  async getPendingLink(token: string): Promise<OAuthPendingLinkData | null> {
+    const data = await redisClient.hgetall(this.getKey(token));
+    if (!data || Object.keys(data).length === 0) return null;
+
+    return {
+      userId: data.userId,
+      provider: data.provider,
+      providerUserId: data.providerUserId,
+      rememberMe: data.rememberMe === '1',
+    };
+  },
+
+  async decreaseAttempts(token: string): Promise<number | null> {
+    const key = this.getKey(token);
+
+    const exists = await redisClient.exists(key);
+    if (!exists) return null;
+
+    const attemptsLeft = await redisClient.hincrby(key, 'attemptsLeft', -1);
+
+    if (attemptsLeft <= 0) {
+      await redisClient.del(key);
+    }
+    return attemptsLeft;
+  },
+
+  async deletePendingLink(token: string): Promise<void> {
+    await redisClient.del(this.getKey(token));
+  },
+}
+
+export type OidcAuthorizationRequestData = {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  state?: string;
+  nonce?: string;
+  forceConsent: boolean;
+};
+
+/**
+ * Validated /authorize requests, parked while the user signs in and consents on the frontend.
+ */
+export const OidcAuthorizationRequestRedisService = {
+  getKey: (requestId: string) => `auth:oidc:request:${requestId}`,
+
+  async setRequest(requestId: string, data: OidcAuthorizationRequestData): Promise<void> {
+    const key = this.getKey(requestId);
+
+    await redisClient.hset(key, {
+      clientId: data.clientId,
+      redirectUri: data.redirectUri,
+      scopes: data.scopes.join(' '),
+      codeChallenge: data.codeChallenge,
+      state: data.state ?? '',
+      nonce: data.nonce ?? '',
+      forceConsent: data.forceConsent ? 1 : 0,
+    });
+    await redisClient.expire(key, OIDC_AUTHORIZATION_REQUEST_TTL_SECONDS);
+  },
+
+  async getRequest(requestId: string): Promise<OidcAuthorizationRequestData | null> {
+    const data = await redisClient.hgetall(this.getKey(requestId));
+    if (!data || Object.keys(data).length === 0) return null;
+
+    return {
+      clientId: data.clientId,
+      redirectUri: data.redirectUri,
+      scopes: data.scopes.split(' ').filter(Boolean),
+      codeChallenge: data.codeChallenge,
+      state: data.state || undefined,
+      nonce: data.nonce || undefined,
+      forceConsent: data.forceConsent === '1',
+    };
+  },
+
+  async deleteRequest(requestId: string): Promise<boolean> {
+    const deleted = await redisClient.del(this.getKey(requestId));
+    return deleted === 1;
+  },
+}
+
+export type OidcAuthorizationCodeData = {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  nonce?: string;
+  authTime: number;
+};
+
+export const OidcAuthorizationCodeRedisService = {
+  getKey: (code: string) => `auth:oidc:code:${code}`,
+
+  async setCode(code: string, data: OidcAuthorizationCodeData): Promise<void> {
+    const key = this.getKey(code);
+
+    await redisClient.hset(key, {
+      clientId: data.clientId,
+      userId: data.userId,
+      redirectUri: data.redirectUri,
+      scopes: data.scopes.join(' '),
+      codeChallenge: data.codeChallenge,
+      nonce: data.nonce ?? '',
+      authTime: data.authTime,
+    });
+    await redisClient.expire(key, OIDC_AUTHORIZATION_CODE_TTL_SECONDS);
+  },
+
+  /**
+   * Authorization codes are single-use; see `MagicLinkRedisService.consumeLink`.
+   */
+  async consumeCode(code: string): Promise<OidcAuthorizationCodeData | null> {
+    const key = this.getKey(code);
+    const data = await redisClient.hgetall(key);
+    if (!data || Object.keys(data).length === 0) return null;
+
+    const deleted = await redisClient.del(key);
+    if (deleted !== 1) return null;
+
+    return {
+      clientId: data.clientId,
+      userId: data.userId,
+      redirectUri: data.redirectUri,
+      scopes: data.scopes.split(' ').filter(Boolean),
+      codeChallenge: data.codeChallenge,
+      nonce: data.nonce || undefined,
+      authTime: parseInt(data.authTime, 10),
+    };
+  },
+}
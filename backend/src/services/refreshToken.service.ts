@@ -0,0 +1,67 @@
+import { v4 as uuidv4 } from 'uuid';
+import HttpError from '../utils/HttpError';
+import logger from '../utils/logger';
+import { SessionRedisService } from './redis.service';
+import { TokenService } from './token.service';
+
+const REFRESH_TOKEN_EXPIRES_IN = '30d';
+
+type RotateResult = {
+  userId: string;
+  sessionId: string;
+  refreshToken: string;
+  persistent: boolean;
+};
+
+/**
+ * Issues and rotates refresh tokens.
+ *
+ * Every refresh token belongs to a session, which acts as the token family. The session
+ * keeps the jti of the only token that may still be exchanged; presenting any older token
+ * means it was replayed, so the whole session is revoked.
+ */
+export class RefreshTokenService {
+
+  static async issue(sessionId: string, userId: string): Promise<string> {
+    const jti = uuidv4();
+    await SessionRedisService.rotateJti(sessionId, userId, jti);
+
+    return this.sign(sessionId, userId, jti);
+  }
+
+  static async rotate(token: string): Promise<RotateResult> {
+    const payload = TokenService.verifyToken(token);
+    if (payload.type !== 'refresh') throw new HttpError('Invalid token type.', 401);
+
+    const { userId, sessionId, jti } = payload;
+    if (!sessionId || !jti) throw new HttpError('Invalid refresh token.', 401);
+
+    const session = await SessionRedisService.getSession(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new HttpError('Refresh token has been revoked.', 401);
+    }
+
+    // A replayed token fails the swap, and so does the loser of two requests racing with
+    // the same token: both count as reuse.
+    const nextJti = uuidv4();
+    const swapped = await SessionRedisService.swapJti(sessionId, userId, jti, nextJti);
+    if (!swapped) {
+      await SessionRedisService.deleteSession(sessionId, userId);
+      logger.warn(`Refresh token reuse detected for user ${userId} (session ${sessionId}). Session revoked.`);
+      throw new HttpError('Refresh token has been revoked.', 401);
+    }
+
+    const refreshToken = this.sign(sessionId, userId, nextJti);
+
+    return { userId, sessionId, refreshToken, persistent: session.persistent };
+  }
+
+  private static sign(sessionId: string, userId: string, jti: string): string {
+    return TokenService.generateToken({
+      userId,
+      type: 'refresh',
+      sessionId,
+      jti,
+    }, REFRESH_TOKEN_EXPIRES_IN);
+  }
+}
@@ -0,0 +1,99 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClientContext } from '../utils/clientContext';
+import { SessionData, SessionRedisService } from './redis.service';
+
+export type SessionSummary = Omit<SessionData, 'currentJti' | 'userId'>;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+export class SessionService {
+  static describeDevice(userAgent: string): string {
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser ?? platform ?? 'Unknown device';
+  }
+
+  static async createSession(userId: string, persistent: boolean, context: ClientContext): Promise<SessionData> {
+    const now = Date.now();
+    const session: SessionData = {
+      id: uuidv4(),
+      userId,
+      currentJti: '',
+      persistent,
+      device: this.describeDevice(context.userAgent),
+      ip: context.ip,
+      userAgent: context.userAgent,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+
+    await SessionRedisService.createSession(session);
+    return session;
+  }
+
+  static async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await SessionRedisService.getSession(sessionId);
+    return !!session && session.userId === userId;
+  }
+
+  static async touch(userId: string, sessionId: string, context: ClientContext): Promise<void> {
+    await SessionRedisService.touchSession(sessionId, userId, context.ip, context.userAgent);
+  }
+
+  static async listSessions(userId: string): Promise<SessionSummary[]> {
+    const sessionIds = await SessionRedisService.getSessionIds(userId);
+    const sessions: SessionSummary[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await SessionRedisService.getSession(sessionId);
+
+      // The session hash expired on its own; drop the dangling index entry.
+      if (!session) {
+        await SessionRedisService.deleteSession(sessionId, userId);
+        continue;
+      }
+
+      const { currentJti, userId: _userId, ...summary } = session;
+      sessions.push(summary);
+    }
+
+    return sessions.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await SessionRedisService.getSession(sessionId);
+    if (!session || session.userId !== userId) return false;
+
+    await SessionRedisService.deleteSession(sessionId, userId);
+    return true;
+  }
+
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessionIds = await SessionRedisService.getSessionIds(userId);
+    let revoked = 0;
+
+    for (const sessionId of sessionIds) {
+      if (sessionId === exceptSessionId) continue;
+      await SessionRedisService.deleteSession(sessionId, userId);
+      revoked++;
+    }
+
+    return revoked;
+  }
+}
@@ -1,66 +1,155 @@
 import jwt from 'jsonwebtoken';
+import { KeyObject } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 import { env } from '../env';
 import HttpError from '../utils/HttpError';
-import type { SignOptions } from 'jsonwebtoken';
+import type { JwtPayload, SignOptions } from 'jsonwebtoken';
+import { keyStore, PublicJwk, ringFor, SigningKey } from '../utils/jwt/keyStore';
+import { EdDSAVerifyOptions, signEdDSA, verifyEdDSA } from '../utils/jwt/eddsa';
+import type { Permission, Role } from '../utils/permissions';
 
-export type TokenType = 'access' | 'verification' | 'refresh';
+export type TokenType = 'access' | 'verification' | 'refresh' | 'mfa_pending' | 'magic' | 'client_access' | 'account_unlock' | 'email-change' | 'account_restore' | 'account_deletion';
 
 export interface TokenPayloadData {
   userId: string;
   type: TokenType;
+  sessionId?: string;
+  jti?: string;
+  clientId?: string;
+  scope?: string;
+  roles?: Role[];
+  permissions?: Permission[];
+  authzVersion?: number;
 }
 
-const secretsMap: Record<string, string> = {
-  'access-token-v1': env.accessTokenSecret,
-  'refresh-token-v1': env.refreshTokenSecret,
-  'verification-v1': env.verificationTokenSecret,
+export interface DecodedToken extends TokenPayloadData {
+  exp?: number;
+}
+
+/**
+ * Claims of an OpenID Connect ID token, beyond the registered ones set on signing.
+ */
+export type IdTokenClaims = {
+  auth_time: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
 };
 
-const kidMap: Record<TokenType, string> = {
-  access: 'access-token-v1',
-  refresh: 'refresh-token-v1',
-  verification: 'verification-v1',
+const sign = (payload: object, key: SigningKey, options: SignOptions): string => {
+  if (key.alg === 'EdDSA') {
+    return signEdDSA(payload, key.signingKey as KeyObject, options);
+  }
+
+  return jwt.sign(payload, key.signingKey, { ...options, algorithm: key.alg });
+};
+
+const verify = (token: string, key: SigningKey): JwtPayload | string => {
+  // ID tokens are for relying parties, never credentials for this API
+  if (key.ring === 'id_token') throw new HttpError('Unknown or missing token kid', 400);
+
+  // Issuer and audience are configured per key ring, so they are known from the kid
+  // before the payload (and its claimed type) can be trusted.
+  const { issuer, audience } = env.jwtClaims[key.ring];
+  const options: EdDSAVerifyOptions = {
+    issuer,
+    audience,
+    clockTolerance: env.jwtClockToleranceSeconds,
+  };
+
+  if (key.alg === 'EdDSA') {
+    return verifyEdDSA(token, key.verificationKey as KeyObject, options);
+  }
+
+  return jwt.verify(token, key.verificationKey, { ...options, algorithms: [key.alg] });
 };
 
 export class TokenService {
 
+  static getJwks(): { keys: PublicJwk[] } {
+    return keyStore.getJwks();
+  }
+
+  static getIdTokenSigningAlgorithm(): string {
+    return keyStore.getIdTokenSigningKey().alg;
+  }
+
   static generateToken(
     payload: TokenPayloadData,
     expiresIn: SignOptions['expiresIn'] = '1h'
   ): string {
-    const kid = kidMap[payload.type];
-    const secret = secretsMap[kid];
+    const key = keyStore.getSigningKey(payload.type);
+    const { issuer, audience } = env.jwtClaims[ringFor(payload.type)];
 
-    return jwt.sign(
-      payload,
-      secret,
+    return sign(
+      { ...payload, jti: payload.jti ?? uuidv4() },
+      key,
       {
         expiresIn,
+        issuer,
+        audience,
+        subject: payload.userId,
         header: {
-          kid,
-          alg: 'HS256'
+          kid: key.kid,
+          alg: key.alg
         }
       }
     );
   }
 
-  static verifyToken(token: string): TokenPayloadData {
+  /**
+   * Signs an ID token for an OpenID Connect client with the current ID token key, which
+   * clients can check against the JWKS. The token has no `type` claim and its key belongs
+   * to no token type, so `verifyToken` never accepts it as one of our own tokens.
+   */
+  static generateIdToken(
+    userId: string,
+    clientId: string,
+    claims: IdTokenClaims,
+    expiresIn: SignOptions['expiresIn'] = '1h'
+  ): string {
+    const key = keyStore.getIdTokenSigningKey();
+
+    return sign(
+      claims,
+      key,
+      {
+        expiresIn,
+        issuer: env.backendDomain,
+        audience: clientId,
+        subject: userId,
+        jwtid: uuidv4(),
+        header: {
+          kid: key.kid,
+          alg: key.alg
+        }
+      }
+    );
+  }
+
+  static verifyToken(token: string): DecodedToken {
     try {
       const decodedHeader = jwt.decode(token, { complete: true });
 
       if (!decodedHeader || typeof decodedHeader !== 'object') throw new HttpError('Invalid token header', 400);
 
       const kid = decodedHeader.header?.kid;
-      if (!kid || !secretsMap[kid]) throw new HttpError('Unknown or missing token kid', 400);
+      const key = kid ? keyStore.getVerificationKey(kid) : undefined;
+      if (!key) throw new HttpError('Unknown or missing token kid', 400);
 
-      const secret = secretsMap[kid];
-      const decoded = jwt.verify(token, secret);
+      const decoded = verify(token, key);
       if (typeof decoded === 'string') throw new HttpError('Invalid token payload', 400);
 
-      const { userId, type } = decoded as Partial<TokenPayloadData>;
-      if (!userId || !type) throw new HttpError('Invalid token payload', 400);
+      const { userId, type, sessionId, jti, exp, sub, clientId, scope, roles, permissions, authzVersion } = decoded as Partial<DecodedToken> & { sub?: string };
+      if (!userId || !type || !jti || sub !== userId) throw new HttpError('Invalid token payload', 400);
+
+      // A token may only claim a type signed by that type's key ring
+      if (ringFor(type) !== key.ring) throw new HttpError('Invalid token type for signing key', 401);
 
-      return { userId, type };
+      return { userId, type, sessionId, jti, exp, clientId, scope, roles, permissions, authzVersion };
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) throw new HttpError('Token expired', 401);
       if (error instanceof jwt.JsonWebTokenError) throw new HttpError('Invalid token', 401);
@@ -0,0 +1,92 @@
+import { UserDocument } from '../models/user';
+import HttpError from '../utils/HttpError';
+import { env } from '../env';
+import { encrypt, decrypt } from '../utils/encryption/aes.encryption';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { UserService } from './user.service';
+
+type TotpEnrollment = {
+  secret: string;
+  otpauthUri: string;
+};
+
+/**
+ * TOTP two-factor authentication (RFC 6238).
+ *
+ * Enrollment is two-step: a pending secret is issued first and only becomes active once
+ * the user proves their authenticator produces valid codes for it. Each accepted code
+ * burns its time step, so a code cannot be replayed within its validity window.
+ */
+export class TwoFactorService {
+
+  static isEnabled(user: UserDocument): boolean {
+    return !!user.twoFactor?.enabled && !!user.twoFactor.secret;
+  }
+
+  static async startTotpEnrollment(user: UserDocument): Promise<TotpEnrollment> {
+    if (this.isEnabled(user)) {
+      throw new HttpError('Two-factor authentication is already enabled.', 409);
+    }
+
+    const secret = generateTotpSecret();
+
+    await UserService.updateTwoFactor(user, {
+      enabled: false,
+      pendingSecret: encrypt(secret),
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, env.totpIssuer),
+    };
+  }
+
+  static async confirmTotpEnrollment(user: UserDocument, code: string): Promise<void> {
+    if (this.isEnabled(user)) {
+      throw new HttpError('Two-factor authentication is already enabled.', 409);
+    }
+
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (!pendingSecret) {
+      throw new HttpError('No two-factor enrollment in progress.', 400);
+    }
+
+    const step = verifyTotp(decrypt(pendingSecret), code);
+    if (step === null) {
+      throw new HttpError('Invalid two-factor code.', 401);
+    }
+
+    await UserService.updateTwoFactor(user, {
+      enabled: true,
+      secret: pendingSecret,
+      lastUsedStep: step,
+    });
+  }
+
+  static async disableTotp(user: UserDocument, code: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new HttpError('Two-factor authentication is not enabled.', 400);
+    }
+
+    const isValid = await this.verifyTotpCode(user, code);
+    if (!isValid) {
+      throw new HttpError('Invalid two-factor code.', 401);
+    }
+
+    await UserService.updateTwoFactor(user, { enabled: false });
+  }
+
+  /**
+   * Checks a code against the user's active secret and records its time step.
+   * Codes from a step at or before the last accepted one are rejected.
+   */
+  static async verifyTotpCode(user: UserDocument, code: string): Promise<boolean> {
+    const twoFactor = user.twoFactor;
+    if (!twoFactor?.enabled || !twoFactor.secret) return false;
+
+    const step = verifyTotp(decrypt(twoFactor.secret), code);
+    if (step === null) return false;
+
+    return UserService.recordTotpStep(user, step);
+  }
+}
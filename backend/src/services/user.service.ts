@@ -1,5 +1,7 @@
-import User, { UserDocument } from "../models/user";
+import User, { IUser, OAuthAccount, TwoFactorSettings, UserDocument } from "../models/user";
+import { Permission, Role } from "../utils/permissions";
 import { CreateUserRequestBody } from "../schemas/auth.schema";
+import { passwordPolicy } from "../utils/passwordPolicy";
 
 export class UserService {
   static async createUser(data: CreateUserRequestBody): Promise<UserDocument> {
@@ -11,12 +13,126 @@ export class UserService {
     return await User.findOne({ email });
   }
 
+  /**
+   * Whether an account already uses `email`, or is still waiting to switch to it. Pass
+   * `exceptUserId` to ignore the account that is asking.
+   */
+  static async isEmailTaken(email: string, exceptUserId?: string): Promise<boolean> {
+    const existing = await User.exists({
+      ...(exceptUserId && { _id: { $ne: exceptUserId } }),
+      $or: [{ email }, { pendingEmail: email, pendingEmailExpiresAt: { $gt: new Date() } }],
+    });
+    return !!existing;
+  }
+
   static async getUserById(userId: string): Promise<UserDocument | null> {
     return await User.findById(userId);
   }
 
+  /**
+   * Case-insensitive substring search over email and names, newest users first.
+   */
+  static async searchUsers(
+    query: string | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ users: UserDocument[]; total: number }> {
+    const pattern = query ? new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i') : null;
+    const filter = pattern
+      ? { $or: [{ email: pattern }, { firstName: pattern }, { lastName: pattern }] }
+      : {};
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    return { users, total };
+  }
+
+  static async deleteUser(userId: string): Promise<boolean> {
+    const result = await User.deleteOne({ _id: userId });
+    return result.deletedCount === 1;
+  }
+
+  static async getUserByOAuthAccount(provider: string, providerUserId: string): Promise<UserDocument | null> {
+    return await User.findOne({ oauthAccounts: { $elemMatch: { provider, providerUserId } } });
+  }
+
+  static async createOAuthUser(data: Omit<IUser, 'oauthAccounts'>, account: OAuthAccount): Promise<UserDocument> {
+    const user = new User({ ...data, oauthAccounts: [account] });
+    return user.save();
+  }
+
+  static async linkOAuthAccount(user: UserDocument, account: OAuthAccount): Promise<UserDocument> {
+    user.oauthAccounts = [...(user.oauthAccounts ?? []), account];
+    return await user.save();
+  }
+
+  /**
+   * Sets a new password hash, moving the old one into the history. Together with the
+   * current password, the history covers the last `historySize` passwords of the policy.
+   */
   static async changePassword(user: UserDocument, hashedPassword: string): Promise<UserDocument> {
+    user.passwordHistory = [user.password, ...(user.passwordHistory ?? [])]
+      .slice(0, Math.max(passwordPolicy.historySize - 1, 0));
     user.password = hashedPassword;
+    user.passwordResetRequired = false;
+    return await user.save();
+  }
+
+  /**
+   * Replaces the stored hash of the current password, for example with a stronger one.
+   * Unlike `changePassword`, the password itself stays the same.
+   */
+  static async setPasswordHash(user: UserDocument, hashedPassword: string): Promise<UserDocument> {
+    user.password = hashedPassword;
+    return await user.save();
+  }
+
+  /**
+   * Drops history entries beyond what the policy keeps, for when `historySize` was lowered.
+   *
+   * @returns {Promise<number>} How many users had entries dropped.
+   */
+  static async prunePasswordHistory(): Promise<number> {
+    const keep = Math.max(passwordPolicy.historySize - 1, 0);
+    const result = await User.updateMany(
+      { [`passwordHistory.${keep}`]: { $exists: true } },
+      { $push: { passwordHistory: { $each: [], $slice: keep } } }
+    );
+    return result.modifiedCount;
+  }
+
+  static async updateProfile(
+    user: UserDocument,
+    changes: Partial<Pick<IUser, 'firstName' | 'lastName' | 'status'>>
+  ): Promise<UserDocument> {
+    user.set(changes);
+    return await user.save();
+  }
+
+  static async setPendingEmail(user: UserDocument, pendingEmail: string, expiresAt: Date): Promise<UserDocument> {
+    user.pendingEmail = pendingEmail;
+    user.pendingEmailExpiresAt = expiresAt;
+    return await user.save();
+  }
+
+  static async clearPendingEmail(user: UserDocument): Promise<UserDocument> {
+    user.pendingEmail = undefined;
+    user.pendingEmailExpiresAt = undefined;
+    return await user.save();
+  }
+
+  /**
+   * Switches to the pending address. Confirming it proved the user reads that inbox, so
+   * the account counts as verified.
+   */
+  static async applyPendingEmail(user: UserDocument): Promise<UserDocument> {
+    user.email = user.pendingEmail!;
+    user.pendingEmail = undefined;
+    user.pendingEmailExpiresAt = undefined;
+    user.verified = true;
     return await user.save();
   }
 
@@ -24,4 +140,107 @@ export class UserService {
     user.verified = isVerified;
     return await user.save();
   }
+
+  static async updateTwoFactor(user: UserDocument, twoFactor: TwoFactorSettings): Promise<UserDocument> {
+    user.twoFactor = twoFactor;
+    return await user.save();
+  }
+
+  /**
+   * Records the time step of an accepted authenticator code, in a single conditional update
+   * so the same or an older code cannot be accepted twice, even by concurrent requests.
+   *
+   * @returns {Promise<boolean>} False if a code from this or a later step was already used.
+   */
+  static async recordTotpStep(user: UserDocument, step: number): Promise<boolean> {
+    const updated = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        'twoFactor.enabled': true,
+        $or: [
+          { 'twoFactor.lastUsedStep': { $lt: step } },
+          { 'twoFactor.lastUsedStep': { $exists: false } },
+        ],
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } },
+      { new: true }
+    );
+    if (!updated) return false;
+
+    user.twoFactor = updated.twoFactor;
+    return true;
+  }
+
+  static async setBackupCodes(user: UserDocument, hashedCodes: string[]): Promise<UserDocument> {
+    user.backupCodes = hashedCodes;
+    return await user.save();
+  }
+
+  /**
+   * Removes one backup code, in a single conditional update so a code cannot be spent twice.
+   *
+   * @returns {Promise<UserDocument | null>} The updated user, or null if the code was already gone.
+   */
+  static async removeBackupCode(user: UserDocument, hashedCode: string): Promise<UserDocument | null> {
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, backupCodes: hashedCode },
+      { $pull: { backupCodes: hashedCode } },
+      { new: true }
+    );
+    if (updated) user.backupCodes = updated.backupCodes;
+    return updated;
+  }
+
+  static async setLocked(user: UserDocument, locked: boolean): Promise<UserDocument> {
+    user.locked = locked;
+    return await user.save();
+  }
+
+  /**
+   * Counts a failed password atomically, so parallel guesses cannot share an attempt.
+   */
+  static async incrementFailedLogins(userId: string): Promise<UserDocument | null> {
+    return await User.findByIdAndUpdate(userId, { $inc: { failedLoginAttempts: 1 } }, { new: true });
+  }
+
+  static async setLockedUntil(user: UserDocument, lockedUntil: Date): Promise<UserDocument> {
+    user.lockedUntil = lockedUntil;
+    return await user.save();
+  }
+
+  static async resetFailedLogins(user: UserDocument): Promise<UserDocument> {
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = undefined;
+    return await user.save();
+  }
+
+  static async scheduleDeletion(user: UserDocument, deletionScheduledAt: Date): Promise<UserDocument> {
+    user.deletionScheduledAt = deletionScheduledAt;
+    return await user.save();
+  }
+
+  static async cancelDeletion(user: UserDocument): Promise<UserDocument> {
+    user.deletionScheduledAt = undefined;
+    return await user.save();
+  }
+
+  static async getUsersDueForDeletion(now: Date): Promise<UserDocument[]> {
+    return await User.find({ deletionScheduledAt: { $lte: now } });
+  }
+
+  static async requirePasswordReset(user: UserDocument): Promise<UserDocument> {
+    user.passwordResetRequired = true;
+    return await user.save();
+  }
+
+  static async updateAccess(
+    user: UserDocument,
+    roles: Role[],
+    permissions: Permission[]
+  ): Promise<UserDocument> {
+    user.roles = roles;
+    user.permissions = permissions;
+    user.authzVersion = (user.authzVersion ?? 0) + 1;
+    return await user.save();
+  }
 }
\ No newline at end of file
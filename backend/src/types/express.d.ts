@@ -1,7 +1,16 @@
 import { Request } from 'express';
+import { DecodedToken } from '../services/token.service';
+import { ApiKeyScope } from '../schemas/apiKey.schema';
+import { Permission, Role } from '../utils/permissions';
 
 declare module 'express-serve-static-core' {
   interface Request {
+    correlationId?: string;
     userId?: string;
+    sessionId?: string;
+    auth?: DecodedToken;
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
+    roles?: Role[];
+    permissions?: Permission[];
   }
 }
\ No newline at end of file
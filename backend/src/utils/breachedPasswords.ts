@@ -0,0 +1,63 @@
+/**
+ * @file breachedPasswords.ts
+ * @description
+ * Rejects passwords that are known from public data breaches, using a local corpus so the
+ * check works offline and never sends anything about a password over the network.
+ *
+ * The corpus is a file of SHA-1 hashes in the format of the Pwned Passwords downloads,
+ * grouped on load into buckets by the first five hex characters of the hash - the same
+ * k-anonymity ranges the online API serves. A lookup hashes the candidate and only
+ * searches its bucket.
+ *
+ * The file is read once, from BREACHED_PASSWORDS_PATH, the first time a password is checked.
+ */
+import * as crypto from 'crypto';
+import fs from 'fs';
+import { env } from '../env';
+
+const PREFIX_LENGTH = 5;
+
+export type BreachedPasswordBuckets = Map<string, Set<string>>;
+
+const sha1 = (value: string): string =>
+  crypto.createHash('sha1').update(value, 'utf8').digest('hex').toUpperCase();
+
+/**
+ * Reads a corpus file: one SHA-1 hash per line, optionally followed by `:<count>`. Blank
+ * lines and lines starting with `#` are skipped.
+ *
+ * @throws {Error} If a line is not a SHA-1 hash.
+ */
+export function loadBreachedPasswordFile(filePath: string): BreachedPasswordBuckets {
+  const buckets: BreachedPasswordBuckets = new Map();
+  const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const hash = line.split(':')[0].toUpperCase();
+    if (!/^[0-9A-F]{40}$/.test(hash)) {
+      throw new Error(`Invalid breached password file ${filePath}: line ${index + 1} is not a SHA-1 hash`);
+    }
+
+    const prefix = hash.slice(0, PREFIX_LENGTH);
+    const bucket = buckets.get(prefix) ?? new Set<string>();
+    bucket.add(hash.slice(PREFIX_LENGTH));
+    buckets.set(prefix, bucket);
+  });
+
+  return buckets;
+}
+
+let corpus: BreachedPasswordBuckets | undefined;
+
+export function isBreachedPassword(password: string, buckets?: BreachedPasswordBuckets): boolean {
+  if (!buckets) {
+    corpus ??= loadBreachedPasswordFile(env.breachedPasswordsPath);
+    buckets = corpus;
+  }
+
+  const hash = sha1(password);
+  return buckets.get(hash.slice(0, PREFIX_LENGTH))?.has(hash.slice(PREFIX_LENGTH)) ?? false;
+}
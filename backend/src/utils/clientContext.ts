@@ -0,0 +1,13 @@
+import { Request } from 'express';
+
+export type ClientContext = {
+  ip: string;
+  userAgent: string;
+  correlationId?: string;
+};
+
+export const getClientContext = (req: Request): ClientContext => ({
+  ip: req.ip ?? 'unknown',
+  userAgent: req.get('User-Agent') ?? 'unknown',
+  correlationId: req.correlationId,
+});
@@ -7,6 +7,15 @@ import {
 import { generateOtpEmail } from './templates/otpEmail';
 import { generateVerifyEmail } from './templates/verifyEmail';
 import { generateResetSuccessEmail } from './templates/passwordResetSuccess';
+import { generateBackupCodeUsedEmail } from './templates/backupCodeUsed';
+import { generateBackupCodesRegeneratedEmail } from './templates/backupCodesRegenerated';
+import { generateMagicLinkEmail } from './templates/magicLinkEmail';
+import { generatePasswordResetRequiredEmail } from './templates/passwordResetRequired';
+import { generateAccountLockedEmail } from './templates/accountLocked';
+import { generateEmailChangeConfirmEmail } from './templates/emailChangeConfirm';
+import { generateEmailChangeNoticeEmail } from './templates/emailChangeNotice';
+import { generateAccountDeletionConfirmEmail } from './templates/accountDeletionConfirm';
+import { generateAccountDeletionScheduledEmail } from './templates/accountDeletionScheduled';
 
 export class EmailService {
   static async sendEmail<T extends EmailType>(
@@ -16,6 +25,7 @@ export class EmailService {
     let subject = '';
     let html = '';
     const { user } = payload;
+    let to = user.email;
 
     switch (type) {
       case 'OTP': {
@@ -36,11 +46,68 @@ export class EmailService {
         html = content.html;
         break;
       }
+      case 'BACKUP_CODE_USED': {
+        const content = generateBackupCodeUsedEmail(payload as EmailPayloadMap['BACKUP_CODE_USED']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'BACKUP_CODES_REGENERATED': {
+        const content = generateBackupCodesRegeneratedEmail(payload as EmailPayloadMap['BACKUP_CODES_REGENERATED']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'MAGIC_LINK': {
+        const content = generateMagicLinkEmail(payload as EmailPayloadMap['MAGIC_LINK']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'PASSWORD_RESET_REQUIRED': {
+        const content = generatePasswordResetRequiredEmail(payload as EmailPayloadMap['PASSWORD_RESET_REQUIRED']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'ACCOUNT_LOCKED': {
+        const content = generateAccountLockedEmail(payload as EmailPayloadMap['ACCOUNT_LOCKED']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'EMAIL_CHANGE_CONFIRM': {
+        const data = payload as EmailPayloadMap['EMAIL_CHANGE_CONFIRM'];
+        const content = generateEmailChangeConfirmEmail(data);
+        subject = content.subject;
+        html = content.html;
+        // The new address has to prove it is reachable before it replaces the old one.
+        to = data.newEmail;
+        break;
+      }
+      case 'EMAIL_CHANGE_NOTICE': {
+        const content = generateEmailChangeNoticeEmail(payload as EmailPayloadMap['EMAIL_CHANGE_NOTICE']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'ACCOUNT_DELETION_CONFIRM': {
+        const content = generateAccountDeletionConfirmEmail(payload as EmailPayloadMap['ACCOUNT_DELETION_CONFIRM']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
+      case 'ACCOUNT_DELETION_SCHEDULED': {
+        const content = generateAccountDeletionScheduledEmail(payload as EmailPayloadMap['ACCOUNT_DELETION_SCHEDULED']);
+        subject = content.subject;
+        html = content.html;
+        break;
+      }
     }
 
     await transporter.sendMail({
       from: `no-reply <${process.env.EMAIL_USER}>`,
-      to: user.email,
+      to,
       subject,
       html,
     });
@@ -1,6 +1,6 @@
 import { UserDocument } from '../../models/user';
 
-export type EmailType = 'OTP' | 'VERIFY' | 'RESET_SUCCESS';
+export type EmailType = 'OTP' | 'VERIFY' | 'RESET_SUCCESS' | 'BACKUP_CODE_USED' | 'BACKUP_CODES_REGENERATED' | 'MAGIC_LINK' | 'PASSWORD_RESET_REQUIRED' | 'ACCOUNT_LOCKED' | 'EMAIL_CHANGE_CONFIRM' | 'EMAIL_CHANGE_NOTICE' | 'ACCOUNT_DELETION_CONFIRM' | 'ACCOUNT_DELETION_SCHEDULED';
 
 export interface OtpEmailData {
   user: UserDocument;
@@ -16,8 +16,68 @@ export interface ResetSuccessEmailData {
   user: UserDocument;
 }
 
+export interface BackupCodeUsedEmailData {
+  user: UserDocument;
+  usage: 'login' | 'password-reset';
+  remainingCodes: number;
+}
+
+export interface BackupCodesRegeneratedEmailData {
+  user: UserDocument;
+}
+
+export interface MagicLinkEmailData {
+  user: UserDocument;
+  magicLink: string;
+}
+
+export interface PasswordResetRequiredEmailData {
+  user: UserDocument;
+  resetLink: string;
+}
+
+export interface AccountLockedEmailData {
+  user: UserDocument;
+  unlockLink: string;
+}
+
+/**
+ * Sent to `newEmail` rather than to the address on the account.
+ */
+export interface EmailChangeConfirmEmailData {
+  user: UserDocument;
+  newEmail: string;
+  confirmationLink: string;
+}
+
+export interface EmailChangeNoticeEmailData {
+  user: UserDocument;
+  newEmail: string;
+  cancelLink: string;
+}
+
+export interface AccountDeletionConfirmEmailData {
+  user: UserDocument;
+  confirmLink: string;
+}
+
+export interface AccountDeletionScheduledEmailData {
+  user: UserDocument;
+  undoLink: string;
+  deletionScheduledAt: Date;
+}
+
 export type EmailPayloadMap = {
   OTP: OtpEmailData;
   VERIFY: VerifyEmailData;
   RESET_SUCCESS: ResetSuccessEmailData;
+  BACKUP_CODE_USED: BackupCodeUsedEmailData;
+  BACKUP_CODES_REGENERATED: BackupCodesRegeneratedEmailData;
+  MAGIC_LINK: MagicLinkEmailData;
+  PASSWORD_RESET_REQUIRED: PasswordResetRequiredEmailData;
+  ACCOUNT_LOCKED: AccountLockedEmailData;
+  EMAIL_CHANGE_CONFIRM: EmailChangeConfirmEmailData;
+  EMAIL_CHANGE_NOTICE: EmailChangeNoticeEmailData;
+  ACCOUNT_DELETION_CONFIRM: AccountDeletionConfirmEmailData;
+  ACCOUNT_DELETION_SCHEDULED: AccountDeletionScheduledEmailData;
 };
\ No newline at end of file
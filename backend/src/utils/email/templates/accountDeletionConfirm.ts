@@ -0,0 +1,79 @@
+import { AccountDeletionConfirmEmailData } from '../emailTypes';
+
+export const generateAccountDeletionConfirmEmail = ({ user, confirmLink }: AccountDeletionConfirmEmailData) => ({
+  subject: 'Confirm Deleting Your Account',
+  html: `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Confirm Account Deletion</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          background-color: #f4f4f4;
+          padding: 20px;
+          color: #333;
+        }
+        .container {
+          max-width: 600px;
+          margin: auto;
+          background-color: #fff;
+          border-radius: 8px;
+          padding: 30px;
+          box-shadow: 0 2px 5px rgba(0,0,0,0.1);
+        }
+        h1 {
+          color: #007acc;
+          text-align: center;
+        }
+        .verify-box {
+          text-align: center;
+          margin: 30px 0;
+        }
+
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          text-align: center;
+          color: #666;
+        }
+        .footer a {
+          color: #007acc;
+          text-decoration: none;
+        }
+        .footer a:hover {
+          text-decoration: underline;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>My Node.js Backend</h1>
+        <p>Hello ${user.firstName} ${user.lastName},</p>
+        <p>We received a request to delete your account. Click the button below to confirm it:</p>
+
+        <div class="verify-box">
+          <a href="${confirmLink}"
+            style="display:inline-block; background-color:#cc0000; color:white; padding:12px 25px; text-decoration:none; font-size:16px; border-radius:6px;">
+            Delete My Account
+          </a>
+        </div>
+
+        <p>You will be signed out everywhere, and your account will be deleted after a grace period. We will email you a link to keep it until then.</p>
+        <p>This link will expire in 30 minutes and can only be used once.</p>
+        <p>If you did <strong>not</strong> ask to delete your account, do not use the link and change your password.</p>
+
+        <div class="footer">
+          <p>Developed by <strong>Gilad Abitbul</strong></p>
+          <p>
+            <a href="https://github.com/Gilad-Abitbul" target="_blank">GitHub</a> |
+            <a href="https://linkedin.com/in/gilad-abitbul" target="_blank">LinkedIn</a> |
+            <a href="mailto:abutbulgilad@gmail.com">abutbulgilad@gmail.com</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { AccountDeletionScheduledEmailData } from '../emailTypes';
+
+export const generateAccountDeletionScheduledEmail = ({ user, undoLink, deletionScheduledAt }: AccountDeletionScheduledEmailData) => ({
+  subject: 'Your Account Is Scheduled for Deletion',
+  html: `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Account Deletion Scheduled</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          background-color: #f4f4f4;
+          padding: 20px;
+          color: #333;
+        }
+        .container {
+          max-width: 600px;
+          margin: auto;
+          background-color: #fff;
+          border-radius: 8px;
+          padding: 30px;
+          box-shadow: 0 2px 5px rgba(0,0,0,0.1);
+        }
+        h1 {
+          color: #007acc;
+          text-align: center;
+        }
+        .verify-box {
+          text-align: center;
+          margin: 30px 0;
+        }
+
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          text-align: center;
+          color: #666;
+        }
+        .footer a {
+          color: #007acc;
+          text-decoration: none;
+        }
+        .footer a:hover {
+          text-decoration: underline;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>My Node.js Backend</h1>
+        <p>Hello ${user.firstName} ${user.lastName},</p>
+        <p>We received your request to delete your account. You have been signed out everywhere, and your account and its data will be permanently deleted on <strong>${deletionScheduledAt.toUTCString()}</strong>.</p>
+        <p>Changed your mind? Click the button below before then to keep your account:</p>
+
+        <div class="verify-box">
+          <a href="${undoLink}"
+            style="display:inline-block; background-color:#007acc; color:white; padding:12px 25px; text-decoration:none; font-size:16px; border-radius:6px;">
+            Keep My Account
+          </a>
+        </div>
+
+        <p>This link can only be used once.</p>
+        <p>If you did <strong>not</strong> ask to delete your account, use the link above right away and change your password.</p>
+
+        <div class="footer">
+          <p>Developed by <strong>Gilad Abitbul</strong></p>
+          <p>
+            <a href="https://github.com/Gilad-Abitbul" target="_blank">GitHub</a> |
+            <a href="https://linkedin.com/in/gilad-abitbul" target="_blank">LinkedIn</a> |
+            <a href="mailto:abutbulgilad@gmail.com">abutbulgilad@gmail.com</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { AccountLockedEmailData } from '../emailTypes';
+
+export const generateAccountLockedEmail = ({ user, unlockLink }: AccountLockedEmailData) => ({
+  subject: 'Your Account Has Been Temporarily Locked',
+  html: `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Account Locked</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          background-color: #f4f4f4;
+          padding: 20px;
+          color: #333;
+        }
+        .container {
+          max-width: 600px;
+          margin: auto;
+          background-color: #fff;
+          border-radius: 8px;
+          padding: 30px;
+          box-shadow: 0 2px 5px rgba(0,0,0,0.1);
+        }
+        h1 {
+          color: #007acc;
+          text-align: center;
+        }
+        .verify-box {
+          text-align: center;
+          margin: 30px 0;
+        }
+
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          text-align: center;
+          color: #666;
+        }
+        .footer a {
+          color: #007acc;
+          text-decoration: none;
+        }
+        .footer a:hover {
+          text-decoration: underline;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>My Node.js Backend</h1>
+        <p>Hello ${user.firstName} ${user.lastName},</p>
+        <p>We noticed several failed attempts to sign in to your account with a wrong password, so we have temporarily blocked password sign-in.</p>
+        <p>If it was you, click the button below to unlock your account right away:</p>
+
+        <div class="verify-box">
+          <a href="${unlockLink}"
+            style="display:inline-block; background-color:#007acc; color:white; padding:12px 25px; text-decoration:none; font-size:16px; border-radius:6px;">
+            Unlock My Account
+          </a>
+        </div>
+
+        <p>This link will expire in 24 hours and can only be used once.</p>
+        <p>If it was <strong>not</strong> you, someone may be trying to guess your password. Your account stays protected while it is locked, and we recommend changing your password once you sign in.</p>
+
+        <div class="footer">
+          <p>Developed by <strong>Gilad Abitbul</strong></p>
+          <p>
+            <a href="https://github.com/Gilad-Abitbul" target="_blank">GitHub</a> |
+            <a href="https://linkedin.com/in/gilad-abitbul" target="_blank">LinkedIn</a> |
+            <a href="mailto:abutbulgilad@gmail.com">abutbulgilad@gmail.com</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+});
\ No newline at end of file
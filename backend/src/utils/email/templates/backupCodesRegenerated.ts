@@ -0,0 +1,64 @@
+import { BackupCodesRegeneratedEmailData } from '../emailTypes';
+
+export const generateBackupCodesRegeneratedEmail = ({ user }: BackupCodesRegeneratedEmailData) => ({
+  subject: 'New Backup Codes Were Generated',
+  html: `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Backup Codes Regenerated</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          background-color: #f4f4f4;
+          padding: 20px;
+          color: #333;
+        }
+        .container {
+          max-width: 600px;
+          margin: auto;
+          background-color: #fff;
+          border-radius: 8px;
+          padding: 30px;
+          box-shadow: 0 2px 5px rgba(0,0,0,0.1);
+        }
+        h1 {
+          color: #007acc;
+          text-align: center;
+        }
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          text-align: center;
+          color: #666;
+        }
+        .footer a {
+          color: #007acc;
+          text-decoration: none;
+        }
+        .footer a:hover {
+          text-decoration: underline;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>My Node.js Backend</h1>
+        <p>Hello ${user.firstName} ${user.lastName},</p>
+        <p>A new set of backup codes was just generated for your account. The codes you had before no longer work.</p>
+        <p>If this was <strong>not</strong> you, someone may have access to your account: reset your password, sign out of all devices and generate new backup codes immediately.</p>
+
+        <div class="footer">
+          <p>Developed by <strong>Gilad Abitbul</strong></p>
+          <p>
+            <a href="https://github.com/Gilad-Abitbul" target="_blank">GitHub</a> |
+            <a href="https://linkedin.com/in/gilad-abitbul" target="_blank">LinkedIn</a> |
+            <a href="mailto:abutbulgilad@gmail.com">abutbulgilad@gmail.com</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+});
\ No newline at end of file
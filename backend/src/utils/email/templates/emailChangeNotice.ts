@@ -0,0 +1,79 @@
+import { EmailChangeNoticeEmailData } from '../emailTypes';
+
+export const generateEmailChangeNoticeEmail = ({ user, newEmail, cancelLink }: EmailChangeNoticeEmailData) => ({
+  subject: 'Your Email Address Is Being Changed',
+  html: `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>Email Change Requested</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          background-color: #f4f4f4;
+          padding: 20px;
+          color: #333;
+        }
+        .container {
+          max-width: 600px;
+          margin: auto;
+          background-color: #fff;
+          border-radius: 8px;
+          padding: 30px;
+          box-shadow: 0 2px 5px rgba(0,0,0,0.1);
+        }
+        h1 {
+          color: #007acc;
+          text-align: center;
+        }
+        .verify-box {
+          text-align: center;
+          margin: 30px 0;
+        }
+
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          text-align: center;
+          color: #666;
+        }
+        .footer a {
+          color: #007acc;
+          text-decoration: none;
+        }
+        .footer a:hover {
+          text-decoration: underline;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1>My Node.js Backend</h1>
+        <p>Hello ${user.firstName} ${user.lastName},</p>
+        <p>Someone asked to change the email address of your account to <strong>${newEmail}</strong>.</p>
+        <p>The change only takes effect once it is confirmed from the new address. If you made this request, no action is needed.</p>
+        <p>If it was <strong>not</strong> you, cancel the change right away and change your password:</p>
+
+        <div class="verify-box">
+          <a href="${cancelLink}"
+            style="display:inline-block; background-color:#cc3300; color:white; padding:12px 25px; text-decoration:none; font-size:16px; border-radius:6px;">
+            Cancel Email Change
+          </a>
+        </div>
+
+        <p>This link will expire in 24 hours and can only be used once.</p>
+
+        <div class="footer">
+          <p>Developed by <strong>Gilad Abitbul</strong></p>
+          <p>
+            <a href="https://github.com/Gilad-Abitbul" target="_blank">GitHub</a> |
+            <a href="https://linkedin.com/in/gilad-abitbul" target="_blank">LinkedIn</a> |
+            <a href="mailto:abutbulgilad@gmail.com">abutbulgilad@gmail.com</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+});
\ No newline at end of file
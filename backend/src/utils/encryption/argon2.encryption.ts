@@ -0,0 +1,28 @@
+import argon2 from 'argon2';
+import { env } from '../../env';
+
+// For random secrets, which cannot be guessed from a dictionary: salting is what they need,
+// not a slow hash, and a request may have to check several of them.
+const SECRET_PARAMS = { memoryCost: 4096, timeCost: 1, parallelism: 1 };
+
+export async function hash(plainText: string): Promise<string> {
+  return argon2.hash(plainText, { type: argon2.argon2id, ...env.argon2 });
+}
+
+export async function hashSecret(plainText: string): Promise<string> {
+  return argon2.hash(plainText, { type: argon2.argon2id, ...SECRET_PARAMS });
+}
+
+export async function compare(
+  plainText: string,
+  hashedText: string
+): Promise<boolean> {
+  return argon2.verify(hashedText, plainText);
+}
+
+/**
+ * Whether `hashedText` was made with other parameters than the configured ones.
+ */
+export function needsRehash(hashedText: string): boolean {
+  return argon2.needsRehash(hashedText, env.argon2);
+}
@@ -10,4 +10,11 @@ export async function compare(
   hashedText: string
 ): Promise<boolean> {
   return bcrypt.compare(plainText, hashedText);
-}
\ No newline at end of file
+}
+
+/**
+ * Whether `hashedText` was made with another cost than BCRYPT_SALT_ROUNDS.
+ */
+export function needsRehash(hashedText: string): boolean {
+  return bcrypt.getRounds(hashedText) !== env.bcryptSaltRounds;
+}
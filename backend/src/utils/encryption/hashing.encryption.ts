@@ -0,0 +1,68 @@
+/**
+ * @file hashing.encryption.ts
+ * @description
+ * One-way hashing for passwords and the other secrets stored only as hashes (backup
+ * codes, OpenID Connect client secrets).
+ *
+ * New password hashes use PASSWORD_HASH_ALGORITHM - argon2id unless configured otherwise -
+ * with the configured cost. Generated secrets are hashed with `hashSecret` instead. Stored
+ * hashes are checked with whichever algorithm made them, identified
+ * from their prefix, so existing bcrypt hashes keep working. `needsRehash` tells when a
+ * stored hash is due for an upgrade; passwords are rehashed on the next successful sign-in,
+ * which lets the algorithm or its cost change without a migration.
+ */
+import { env } from '../../env';
+import * as argon2 from './argon2.encryption';
+import * as bcrypt from './bcrypt.encryption';
+
+export type HashAlgorithm = 'argon2id' | 'bcrypt';
+
+type Hasher = {
+  hash(plainText: string): Promise<string>;
+  compare(plainText: string, hashedText: string): Promise<boolean>;
+  needsRehash(hashedText: string): boolean;
+};
+
+const algorithms: Record<HashAlgorithm, Hasher> = { argon2id: argon2, bcrypt };
+
+/**
+ * The algorithm a stored hash was made with, from its PHC or modular crypt prefix.
+ */
+export function identifyAlgorithm(hashedText: string): HashAlgorithm | null {
+  if (hashedText.startsWith('$argon2id$')) return 'argon2id';
+  if (/^\$2[aby]\$\d{2}\$/.test(hashedText)) return 'bcrypt';
+  return null;
+}
+
+export async function hash(plainText: string): Promise<string> {
+  return algorithms[env.passwordHashAlgorithm].hash(plainText);
+}
+
+/**
+ * Hashes a high-entropy generated secret, such as a backup code or a client secret, with
+ * argon2id at a fixed low cost. The configured password cost would let a single request
+ * that checks a handful of secrets tie up the server. Verify with `compare`.
+ */
+export async function hashSecret(plainText: string): Promise<string> {
+  return argon2.hashSecret(plainText);
+}
+
+/**
+ * @returns {Promise<boolean>} False for a hash no supported algorithm made.
+ */
+export async function compare(
+  plainText: string,
+  hashedText: string
+): Promise<boolean> {
+  const algorithm = identifyAlgorithm(hashedText);
+  return algorithm ? algorithms[algorithm].compare(plainText, hashedText) : false;
+}
+
+/**
+ * Whether `hashedText` was made with another algorithm, or other parameters, than new
+ * hashes are.
+ */
+export function needsRehash(hashedText: string): boolean {
+  const algorithm = identifyAlgorithm(hashedText);
+  return algorithm !== env.passwordHashAlgorithm || algorithms[algorithm].needsRehash(hashedText);
+}
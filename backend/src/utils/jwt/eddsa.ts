@@ -0,0 +1,138 @@
+/**
+ * @file eddsa.ts
+ * @description
+ * EdDSA (Ed25519) support for JSON Web Tokens.
+ *
+ * jsonwebtoken does not implement EdDSA. On sign it still builds the claims
+ * (iat, exp, ...) through an unsigned token whose payload is then signed here;
+ * on verify the signature is checked first and the time, issuer and audience
+ * claims are validated here, raising the same errors as jwt.verify.
+ */
+import * as crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+
+export type EdDSAVerifyOptions = {
+  issuer?: string | string[];
+  audience?: string | string[];
+  /** Seconds of clock skew to allow when checking exp and nbf. */
+  clockTolerance?: number;
+};
+
+const encode = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decode = (segment: string): Record<string, unknown> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new jwt.JsonWebTokenError('invalid token');
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new jwt.JsonWebTokenError('invalid token');
+  }
+  return value as Record<string, unknown>;
+};
+
+const toList = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Validates the registered claims of a payload whose signature has already been checked.
+ */
+const validateClaims = (payload: JwtPayload, options: EdDSAVerifyOptions): void => {
+  const now = Math.floor(Date.now() / 1000);
+  const clockTolerance = options.clockTolerance ?? 0;
+
+  if (payload.nbf !== undefined) {
+    if (typeof payload.nbf !== 'number') throw new jwt.JsonWebTokenError('invalid nbf value');
+    if (payload.nbf > now + clockTolerance) {
+      throw new jwt.NotBeforeError('jwt not active', new Date(payload.nbf * 1000));
+    }
+  }
+
+  if (payload.exp !== undefined) {
+    if (typeof payload.exp !== 'number') throw new jwt.JsonWebTokenError('invalid exp value');
+    if (now >= payload.exp + clockTolerance) {
+      throw new jwt.TokenExpiredError('jwt expired', new Date(payload.exp * 1000));
+    }
+  }
+
+  if (options.audience !== undefined) {
+    const expected = toList(options.audience);
+    const claimed = payload.aud === undefined ? [] : toList(payload.aud);
+    if (!claimed.some((aud) => expected.includes(aud))) {
+      throw new jwt.JsonWebTokenError(`jwt audience invalid. expected: ${expected.join(' or ')}`);
+    }
+  }
+
+  if (options.issuer !== undefined) {
+    const expected = toList(options.issuer);
+    if (typeof payload.iss !== 'string' || !expected.includes(payload.iss)) {
+      throw new jwt.JsonWebTokenError(`jwt issuer invalid. expected: ${expected.join(',')}`);
+    }
+  }
+};
+
+/**
+ * Signs a payload with an Ed25519 private key.
+ *
+ * @param {object} payload - The claims to sign.
+ * @param {crypto.KeyObject} privateKey - The Ed25519 private key.
+ * @param {SignOptions} options - jsonwebtoken sign options (expiresIn, header.kid, ...).
+ * @returns {string} The signed compact JWS.
+ */
+export function signEdDSA(payload: object, privateKey: crypto.KeyObject, options: SignOptions = {}): string {
+  const unsigned = jwt.sign(payload, null, {
+    ...options,
+    algorithm: 'none',
+    header: { ...options.header, alg: 'none' },
+  });
+  const [, encodedPayload] = unsigned.split('.');
+
+  const encodedHeader = encode({ ...options.header, alg: 'EdDSA', typ: 'JWT' });
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verifies an EdDSA-signed token and validates its claims.
+ *
+ * @param {string} token - The compact JWS to verify.
+ * @param {crypto.KeyObject} publicKey - The Ed25519 public key.
+ * @param {EdDSAVerifyOptions} options - The expected issuer and audience, and the clock tolerance.
+ * @returns {JwtPayload} The decoded payload.
+ *
+ * @throws {jwt.JsonWebTokenError} If the signature or any claim is invalid.
+ * @throws {jwt.TokenExpiredError} If the token has expired.
+ */
+export function verifyEdDSA(token: string, publicKey: crypto.KeyObject, options: EdDSAVerifyOptions = {}): JwtPayload {
+  const [encodedHeader, encodedPayload, encodedSignature, ...rest] = token.split('.');
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature || rest.length > 0) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const header = decode(encodedHeader);
+  if (header.alg !== 'EdDSA') {
+    throw new jwt.JsonWebTokenError('invalid algorithm');
+  }
+
+  const isValid = crypto.verify(
+    null,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    publicKey,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+
+  if (!isValid) {
+    throw new jwt.JsonWebTokenError('invalid signature');
+  }
+
+  const payload: JwtPayload = decode(encodedPayload);
+  validateClaims(payload, options);
+
+  return payload;
+}
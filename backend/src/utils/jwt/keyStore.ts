@@ -0,0 +1,337 @@
+/**
+ * @file keyStore.ts
+ * @description
+ * Holds the key rings used to sign and verify JSON Web Tokens, indexed by `kid`.
+ *
+ * There is one ring per token family: `access` (also used for access tokens issued to
+ * OpenID Connect clients), `refresh` and `verification` (every other short-lived token
+ * type). Each ring has exactly one current key, used for
+ * signing, and any number of older keys that are still accepted for verification
+ * until their `retiresAt` date. This lets secrets be rotated without logging anyone out:
+ * add the new key as current, keep the old one with a retirement date past the
+ * lifetime of the tokens it signed.
+ *
+ * Rings come from a JSON key file when JWT_KEYRING_PATH is set, otherwise from the
+ * single secrets (and optional access token private key) in the environment.
+ *
+ * Access tokens can be signed with RS256 or EdDSA, in which case their public keys are
+ * published as a JWKS so other services can verify them without holding a signing secret.
+ *
+ * ID tokens for OpenID Connect clients get an `id_token` ring of their own, always
+ * asymmetric, so relying parties can verify them from the JWKS and no client ever sees a
+ * key that also signs our access tokens. The ring comes from the key file or from
+ * ID_TOKEN_PRIVATE_KEY_PATH; outside production a throwaway key is generated when neither
+ * is set. ID token keys never verify our own tokens.
+ */
+import * as crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { env } from '../../env';
+import type { TokenType } from '../../services/token.service';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'EdDSA';
+
+export type KeyRingName = 'access' | 'refresh' | 'verification' | 'id_token';
+
+/**
+ * The rings that sign our own tokens, each with its own issuer and audience.
+ */
+export type TokenRingName = Exclude<KeyRingName, 'id_token'>;
+
+export interface SigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  ring: KeyRingName;
+  signingKey: string | crypto.KeyObject;
+  verificationKey: string | crypto.KeyObject;
+  current?: boolean;
+  retiresAt?: Date;
+}
+
+export type PublicJwk = crypto.JsonWebKey & {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+};
+
+// Rings every key store needs; the `id_token` ring is added by the key sources.
+const KEY_RINGS: TokenRingName[] = ['access', 'refresh', 'verification'];
+
+const expectedKeyType: Record<Exclude<JwtAlgorithm, 'HS256'>, crypto.KeyType> = {
+  RS256: 'rsa',
+  EdDSA: 'ed25519',
+};
+
+const keyOptionsSchema = {
+  kid: z.string().min(1, 'kid is required'),
+  current: z.boolean().default(false),
+  retiresAt: z.coerce.date().optional(),
+};
+
+const keyFileSchema = z.record(
+  z.enum(['access', 'refresh', 'verification', 'id_token']),
+  z.array(z.union([
+    z.object({
+      ...keyOptionsSchema,
+      alg: z.literal('HS256'),
+      secret: z.string().min(1, 'secret is required'),
+    }).strict(),
+    z.object({
+      ...keyOptionsSchema,
+      alg: z.enum(['RS256', 'EdDSA']),
+      privateKeyPath: z.string().min(1, 'privateKeyPath is required'),
+    }).strict(),
+  ]))
+).superRefine((rings, ctx) => {
+  rings.id_token?.forEach((entry, index) => {
+    if (entry.alg === 'HS256') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['id_token', index, 'alg'], message: 'must be RS256 or EdDSA' });
+    }
+  });
+});
+
+/**
+ * Computes the RFC 7638 JWK thumbprint of a public key, used as its default `kid`.
+ */
+export function jwkThumbprint(publicKey: crypto.KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const members = jwk.kty === 'RSA'
+    ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+
+  return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+export function createSecretKey(ring: KeyRingName, kid: string, secret: string): SigningKey {
+  return { kid, alg: 'HS256', ring, signingKey: secret, verificationKey: secret };
+}
+
+/**
+ * Builds an asymmetric signing key from a PEM encoded private key.
+ *
+ * @throws {Error} If the key type does not match the algorithm.
+ */
+export function createAsymmetricKey(
+  ring: KeyRingName,
+  alg: Exclude<JwtAlgorithm, 'HS256'>,
+  privateKeyPem: string,
+  kid?: string
+): SigningKey {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+
+  if (privateKey.asymmetricKeyType !== expectedKeyType[alg]) {
+    throw new Error(`${alg} requires a ${expectedKeyType[alg]} key, got ${privateKey.asymmetricKeyType}.`);
+  }
+
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  return {
+    kid: kid ?? jwkThumbprint(publicKey),
+    alg,
+    ring,
+    signingKey: privateKey,
+    verificationKey: publicKey,
+  };
+}
+
+/**
+ * Exports the public part of a key as a JWK, or null for shared secrets.
+ */
+export function toPublicJwk(key: SigningKey): PublicJwk | null {
+  if (key.alg === 'HS256' || typeof key.verificationKey === 'string') return null;
+
+  return {
+    ...key.verificationKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: key.alg,
+    use: 'sig',
+  };
+}
+
+/**
+ * Reads a JSON key file. Private key paths are resolved relative to the file.
+ *
+ * @example
+ * {
+ *   "access": [
+ *     { "kid": "access-2025-06", "alg": "EdDSA", "privateKeyPath": "keys/access-2025-06.pem", "current": true },
+ *     { "kid": "access-token-v1", "alg": "HS256", "secret": "...", "retiresAt": "2025-06-02T00:00:00Z" }
+ *   ],
+ *   "refresh": [{ "kid": "refresh-token-v1", "alg": "HS256", "secret": "...", "current": true }],
+ *   "verification": [{ "kid": "verification-v1", "alg": "HS256", "secret": "...", "current": true }],
+ *   "id_token": [{ "kid": "id-token-2025-06", "alg": "RS256", "privateKeyPath": "keys/id-token-2025-06.pem", "current": true }]
+ * }
+ *
+ * Without an `id_token` ring, the ID token key comes from the environment as with `keysFromEnv`.
+ *
+ * @throws {Error} If the file is not a valid key file.
+ */
+export function loadKeyFile(filePath: string): SigningKey[] {
+  const result = keyFileSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+
+  if (!result.success) {
+    throw new Error(`Invalid key file ${filePath}: ${result.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+  }
+
+  const baseDir = path.dirname(filePath);
+
+  const keys = Object.entries(result.data).flatMap(([ring, entries]) =>
+    entries.map((entry) => {
+      const key = entry.alg === 'HS256'
+        ? createSecretKey(ring as KeyRingName, entry.kid, entry.secret)
+        : createAsymmetricKey(
+          ring as KeyRingName,
+          entry.alg,
+          fs.readFileSync(path.resolve(baseDir, entry.privateKeyPath), 'utf8'),
+          entry.kid
+        );
+
+      return { ...key, current: entry.current, retiresAt: entry.retiresAt };
+    })
+  );
+
+  return result.data.id_token ? keys : [...keys, idTokenKeyFromEnv()];
+}
+
+/**
+ * The ID token key from ID_TOKEN_PRIVATE_KEY_PATH or, outside production, an RS256 key
+ * generated for this process. A generated key changes on every restart and differs between
+ * instances, so ID tokens only verify against the JWKS of the process that signed them.
+ *
+ * @throws {Error} In production, if no key is configured.
+ */
+export function idTokenKeyFromEnv(): SigningKey {
+  if (env.idTokenPrivateKeyPath) {
+    return {
+      ...createAsymmetricKey(
+        'id_token',
+        env.idTokenAlgorithm,
+        fs.readFileSync(env.idTokenPrivateKeyPath, 'utf8'),
+        env.idTokenKeyId
+      ),
+      current: true,
+    };
+  }
+
+  if (env.nodeEnv === 'production') {
+    throw new Error('ID tokens need a signing key: set ID_TOKEN_PRIVATE_KEY_PATH or add an id_token ring to the key file.');
+  }
+
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    ...createAsymmetricKey(
+      'id_token',
+      'RS256',
+      privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      env.idTokenKeyId
+    ),
+    current: true,
+  };
+}
+
+/**
+ * Builds the key rings from the single secrets in the environment.
+ */
+export function keysFromEnv(): SigningKey[] {
+  const legacyAccessKey = createSecretKey('access', 'access-token-v1', env.accessTokenSecret);
+
+  // The HS256 access key stays verifiable after switching algorithms, so access
+  // tokens issued before the switch remain valid until they expire.
+  const accessKeys = env.accessTokenAlgorithm === 'HS256'
+    ? [{ ...legacyAccessKey, current: true }]
+    : [
+      {
+        ...createAsymmetricKey(
+          'access',
+          env.accessTokenAlgorithm,
+          fs.readFileSync(env.accessTokenPrivateKeyPath as string, 'utf8'),
+          env.accessTokenKeyId
+        ),
+        current: true,
+      },
+      legacyAccessKey,
+    ];
+
+  return [
+    ...accessKeys,
+    { ...createSecretKey('refresh', 'refresh-token-v1', env.refreshTokenSecret), current: true },
+    { ...createSecretKey('verification', 'verification-v1', env.verificationTokenSecret), current: true },
+    idTokenKeyFromEnv(),
+  ];
+}
+
+export const ringFor = (type: TokenType): TokenRingName => {
+  if (type === 'access' || type === 'client_access') return 'access';
+  return type === 'refresh' ? 'refresh' : 'verification';
+};
+
+/**
+ * Builds a key store from a list of keys.
+ *
+ * @throws {Error} If a kid is duplicated, or a ring does not have exactly one current key.
+ * The `id_token` ring is optional here; the key sources always add it.
+ */
+export function createKeyStore(keys: SigningKey[]) {
+  const keysByKid = new Map<string, SigningKey>();
+  const currentKeys = {} as Record<KeyRingName, SigningKey>;
+
+  for (const key of keys) {
+    if (keysByKid.has(key.kid)) {
+      throw new Error(`Duplicate signing key kid "${key.kid}".`);
+    }
+    keysByKid.set(key.kid, key);
+
+    if (key.current) {
+      if (currentKeys[key.ring]) {
+        throw new Error(`Key ring "${key.ring}" has more than one current key.`);
+      }
+      if (key.retiresAt) {
+        throw new Error(`Current key "${key.kid}" cannot have a retirement date.`);
+      }
+      currentKeys[key.ring] = key;
+    }
+  }
+
+  for (const ring of new Set([...KEY_RINGS, ...keys.map((key) => key.ring)])) {
+    if (!currentKeys[ring]) {
+      throw new Error(`Key ring "${ring}" has no current key.`);
+    }
+  }
+
+  const isActive = (key: SigningKey, now: Date): boolean =>
+    !key.retiresAt || key.retiresAt.getTime() > now.getTime();
+
+  return {
+    getSigningKey(type: TokenType): SigningKey {
+      return currentKeys[ringFor(type)];
+    },
+
+    /**
+     * @throws {Error} If the store has no `id_token` ring.
+     */
+    getIdTokenSigningKey(): SigningKey {
+      if (!currentKeys.id_token) throw new Error('No ID token signing key.');
+      return currentKeys.id_token;
+    },
+
+    getVerificationKey(kid: string, now: Date = new Date()): SigningKey | undefined {
+      const key = keysByKid.get(kid);
+      return key && isActive(key, now) ? key : undefined;
+    },
+
+    getJwks(now: Date = new Date()): { keys: PublicJwk[] } {
+      const keys = [...keysByKid.values()]
+        .filter((key) => isActive(key, now))
+        .map(toPublicJwk)
+        .filter((jwk): jwk is PublicJwk => jwk !== null);
+
+      return { keys };
+    },
+  };
+}
+
+export const keyStore = createKeyStore(
+  env.jwtKeyRingPath ? loadKeyFile(env.jwtKeyRingPath) : keysFromEnv()
+);
@@ -0,0 +1,193 @@
+/**
+ * @file providers.ts
+ * @description
+ * OAuth 2.0 / OpenID Connect identity providers used for social login.
+ *
+ * A provider knows where to send the user, where to exchange the authorization code
+ * and how to turn its access token into a normalized profile. OpenID Connect providers
+ * are configured from their issuer's discovery document; GitHub speaks plain OAuth 2.0
+ * and gets a dedicated implementation.
+ *
+ * Providers are enabled by configuring their client credentials (see env.ts).
+ */
+import { env } from '../../env';
+
+export type OAuthProfile = {
+  providerUserId: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+};
+
+export type OAuthEndpoints = {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+};
+
+export interface OAuthProvider {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  getEndpoints(): Promise<OAuthEndpoints>;
+  fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
+type OidcDiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+const discoveryCache = new Map<string, Promise<OidcDiscoveryDocument>>();
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}.`);
+  }
+  return await response.json() as T;
+};
+
+/**
+ * Fetches (once per issuer) and sanity-checks an OpenID Connect discovery document.
+ */
+const discover = (issuer: string): Promise<OidcDiscoveryDocument> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const pending = fetchJson<OidcDiscoveryDocument>(url).then((document) => {
+    if (document.issuer.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+      throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}.`);
+    }
+    return document;
+  });
+
+  // Do not cache failures, so a provider outage does not stick until restart.
+  pending.catch(() => discoveryCache.delete(issuer));
+  discoveryCache.set(issuer, pending);
+
+  return pending;
+};
+
+type OidcProviderOptions = {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+};
+
+export function createOidcProvider({
+  name,
+  issuer,
+  clientId,
+  clientSecret,
+  scopes = ['openid', 'email', 'profile'],
+}: OidcProviderOptions): OAuthProvider {
+  return {
+    name,
+    clientId,
+    clientSecret,
+    scopes,
+
+    async getEndpoints() {
+      const document = await discover(issuer);
+      return {
+        authorizationEndpoint: document.authorization_endpoint,
+        tokenEndpoint: document.token_endpoint,
+      };
+    },
+
+    async fetchProfile(accessToken) {
+      const { userinfo_endpoint } = await discover(issuer);
+      const claims = await fetchJson<Record<string, unknown>>(userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (typeof claims.sub !== 'string' || !claims.sub) {
+        throw new Error('OIDC userinfo response is missing the sub claim.');
+      }
+
+      return {
+        providerUserId: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+        emailVerified: claims.email_verified === true,
+        firstName: typeof claims.given_name === 'string' ? claims.given_name : undefined,
+        lastName: typeof claims.family_name === 'string' ? claims.family_name : undefined,
+      };
+    },
+  };
+}
+
+type GitHubUser = { id: number; name: string | null };
+type GitHubEmail = { email: string; primary: boolean; verified: boolean };
+
+export function createGitHubProvider(clientId: string, clientSecret: string): OAuthProvider {
+  const headers = (accessToken: string) => ({
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/vnd.github+json',
+  });
+
+  return {
+    name: 'github',
+    clientId,
+    clientSecret,
+    scopes: ['read:user', 'user:email'],
+
+    async getEndpoints() {
+      return {
+        authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+        tokenEndpoint: 'https://github.com/login/oauth/access_token',
+      };
+    },
+
+    async fetchProfile(accessToken) {
+      const [user, emails] = await Promise.all([
+        fetchJson<GitHubUser>('https://api.github.com/user', { headers: headers(accessToken) }),
+        fetchJson<GitHubEmail[]>('https://api.github.com/user/emails', { headers: headers(accessToken) }),
+      ]);
+
+      // The profile email is user-editable; only the primary address GitHub verified is trusted.
+      const primary = emails.find((email) => email.primary);
+      const [firstName, ...rest] = (user.name ?? '').trim().split(/\s+/);
+
+      return {
+        providerUserId: user.id.toString(),
+        email: primary?.email.toLowerCase(),
+        emailVerified: !!primary?.verified,
+        firstName: firstName || undefined,
+        lastName: rest.join(' ') || undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Providers with configured credentials, keyed by name.
+ */
+export function getOAuthProviders(): Map<string, OAuthProvider> {
+  const providers = new Map<string, OAuthProvider>();
+  const { google, github, oidc } = env.oauth;
+
+  if (google) {
+    providers.set('google', createOidcProvider({
+      name: 'google',
+      issuer: 'https://accounts.google.com',
+      ...google,
+    }));
+  }
+
+  if (github) {
+    providers.set('github', createGitHubProvider(github.clientId, github.clientSecret));
+  }
+
+  if (oidc) {
+    providers.set(oidc.name, createOidcProvider(oidc));
+  }
+
+  return providers;
+}
@@ -0,0 +1,192 @@
+/**
+ * @file passwordPolicy.ts
+ * @description
+ * The one place password rules live. The policy is read from the environment
+ * (PASSWORD_* variables) and applied to every new password - on signup, reset and change -
+ * through the schemas in `schemas/password.schema.ts`. The same policy is published at
+ * `/api/v1/password-policy` so clients can show the rules before a password is submitted.
+ *
+ * Rules that need nothing but the password (length, character classes, strength, breach
+ * corpus) run during request validation. Rules that need to know whose password it is
+ * (personal information, reuse history) run where the account is at hand.
+ *
+ * Strength is scored from 0 to 4 like zxcvbn: the estimate is the number of guesses an
+ * attacker would need, where repeated characters, sequences, keyboard rows, years and
+ * common words are cheap to guess and only the rest counts as random.
+ */
+import { env } from '../env';
+import { isBreachedPassword } from './breachedPasswords';
+
+export type PasswordPolicy = {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Lowest accepted strength score, 0 to 4. */
+  minStrength: number;
+  /** How many previous passwords may not be reused. 0 allows reuse. */
+  historySize: number;
+  forbidPersonalInfo: boolean;
+  rejectBreached: boolean;
+};
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export type PersonalInfo = {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+export const passwordPolicy: PasswordPolicy = env.passwordPolicy;
+
+export const BREACHED_PASSWORD_MESSAGE = 'This password has appeared in a data breach. Please choose a different one.';
+
+export const PERSONAL_INFO_MESSAGE = 'Password must not contain your name or email address.';
+
+export const reusedPasswordMessage = (historySize: number): string =>
+  `Password must not be one of your last ${historySize} passwords.`;
+
+export const WEAK_PASSWORD_MESSAGE = 'Password is too easy to guess. Try a longer password or a few unrelated words.';
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+
+const COMMON_WORDS = [
+  'password', 'passw', 'qwerty', 'welcome', 'admin', 'letmein', 'login', 'master', 'monkey',
+  'dragon', 'secret', 'hello', 'iloveyou', 'love', 'sunshine', 'princess', 'football',
+  'baseball', 'shadow', 'summer', 'winter', 'spring', 'autumn', 'changeme', 'default', 'user',
+];
+
+// Common character substitutions, undone before looking for common words.
+const LEET: Record<string, string> = { '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+
+// As in zxcvbn, every character outside a pattern is worth ten guesses, and a pattern is
+// worth as many guesses as there are letters to start it from, times its length.
+const CHARACTER_BITS = Math.log2(10);
+const PATTERN_BASE_BITS = Math.log2(26);
+
+// Guess counts at which zxcvbn moves up a score: 10^3, 10^6, 10^8 and 10^10.
+const SCORE_THRESHOLDS_BITS = [3, 6, 8, 10].map((exponent) => exponent * Math.log2(10));
+
+/**
+ * Length of the longest guessable pattern starting at `start`: a run of one character, an
+ * ascending or descending sequence, part of a keyboard row, a year or a common word.
+ */
+function patternLengthAt(lower: string, normalized: string, start: number): number {
+  let longest = 0;
+
+  let end = start + 1;
+  while (end < lower.length && lower[end] === lower[start]) end++;
+  if (end - start >= 3) longest = Math.max(longest, end - start);
+
+  for (const step of [1, -1]) {
+    end = start + 1;
+    while (end < lower.length && lower.charCodeAt(end) - lower.charCodeAt(end - 1) === step) end++;
+    if (end - start >= 3) longest = Math.max(longest, end - start);
+  }
+
+  for (const row of KEYBOARD_ROWS) {
+    for (let length = lower.length - start; length >= 3 && length > longest; length--) {
+      if (row.includes(lower.slice(start, start + length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+
+  if (/^(19|20)\d\d/.test(lower.slice(start))) longest = Math.max(longest, 4);
+
+  for (const word of COMMON_WORDS) {
+    if (normalized.startsWith(word, start)) longest = Math.max(longest, word.length);
+  }
+
+  return longest;
+}
+
+export function estimateStrength(password: string): PasswordStrength {
+  if (!password) return 0;
+
+  const lower = password.toLowerCase();
+  const normalized = [...lower].map((char) => LEET[char] ?? char).join('');
+
+  let bits = 0;
+  for (let i = 0; i < lower.length;) {
+    const length = patternLengthAt(lower, normalized, i);
+    if (length > 0) {
+      bits += PATTERN_BASE_BITS + Math.log2(length);
+      i += length;
+    } else {
+      bits += CHARACTER_BITS;
+      i++;
+    }
+  }
+
+  return SCORE_THRESHOLDS_BITS.filter((threshold) => bits >= threshold).length as PasswordStrength;
+}
+
+/**
+ * Problems with `password` under `policy` that need nothing but the password itself.
+ *
+ * @returns {string[]} One message per broken rule; empty if the password is accepted.
+ */
+export function checkPassword(password: string, policy: PasswordPolicy = passwordPolicy): string[] {
+  const issues: string[] = [];
+
+  if (password.length < policy.minLength) issues.push(`Password must be at least ${policy.minLength} characters.`);
+  if (password.length > policy.maxLength) issues.push(`Password must be at most ${policy.maxLength} characters.`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) issues.push('Password must contain at least one uppercase letter.');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) issues.push('Password must contain at least one lowercase letter.');
+  if (policy.requireDigit && !/[0-9]/.test(password)) issues.push('Password must contain at least one number.');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    issues.push('Password must contain at least one special character (e.g. @, #, $).');
+  }
+
+  // Only judge strength and breaches once the basic rules pass, so the user fixes one thing at a time.
+  if (issues.length > 0) return issues;
+
+  if (policy.rejectBreached && isBreachedPassword(password)) return [BREACHED_PASSWORD_MESSAGE];
+  if (estimateStrength(password) < policy.minStrength) return [WEAK_PASSWORD_MESSAGE];
+
+  return [];
+}
+
+/**
+ * Whether `password` contains the user's first name, last name or the part of their email
+ * address before the `@`. Parts shorter than three characters are ignored.
+ */
+export function containsPersonalInfo(password: string, info: PersonalInfo): boolean {
+  const lower = password.toLowerCase();
+  const parts = [info.firstName, info.lastName, info.email?.split('@')[0]]
+    .map((part) => part?.trim().toLowerCase())
+    .filter((part): part is string => !!part && part.length >= 3);
+
+  return parts.some((part) => lower.includes(part));
+}
+
+export function checkPersonalInfo(
+  password: string,
+  info: PersonalInfo,
+  policy: PasswordPolicy = passwordPolicy
+): string[] {
+  return policy.forbidPersonalInfo && containsPersonalInfo(password, info) ? [PERSONAL_INFO_MESSAGE] : [];
+}
+
+/**
+ * The policy as sentences a client can list next to a password field.
+ */
+export function describePasswordPolicy(policy: PasswordPolicy = passwordPolicy): string[] {
+  const rules = [`Between ${policy.minLength} and ${policy.maxLength} characters.`];
+
+  if (policy.requireUppercase) rules.push('At least one uppercase letter.');
+  if (policy.requireLowercase) rules.push('At least one lowercase letter.');
+  if (policy.requireDigit) rules.push('At least one number.');
+  if (policy.requireSymbol) rules.push('At least one special character (e.g. @, #, $).');
+  if (policy.minStrength > 0) rules.push('Not easy to guess, like a keyboard row, a sequence or a common word.');
+  if (policy.forbidPersonalInfo) rules.push('Does not contain your name or email address.');
+  if (policy.historySize > 0) rules.push(`Not one of your last ${policy.historySize} passwords.`);
+  if (policy.rejectBreached) rules.push('Not a password known from a data breach.');
+
+  return rules;
+}
@@ -0,0 +1,60 @@
+/**
+ * @file permissions.ts
+ * @description
+ * Roles and the permissions they grant.
+ *
+ * A user's effective permissions are the union of their roles' permissions and any
+ * permissions granted to them directly. Both are embedded in access tokens, together with
+ * the user's `authzVersion`, so routes can authorize without a database read; bumping the
+ * version invalidates tokens that carry outdated claims (see `RbacService`).
+ */
+export const PERMISSIONS = [
+  // Registering OpenID Connect clients, whose names and redirect URIs users see on the
+  // consent screen.
+  'clients:write',
+  'posts:read',
+  'posts:write',
+  'sessions:read',
+  'users:read',
+  'users:write',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['user', 'moderator', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+const USER_PERMISSIONS: Permission[] = ['posts:read', 'sessions:read'];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: USER_PERMISSIONS,
+  moderator: [...USER_PERMISSIONS, 'posts:write'],
+  admin: PERMISSIONS,
+};
+
+export const DEFAULT_ROLES: Role[] = ['user'];
+
+export function resolvePermissions(roles: readonly Role[], granted: readonly Permission[] = []): Permission[] {
+  const permissions = new Set<Permission>(granted);
+  for (const role of roles) {
+    ROLE_PERMISSIONS[role].forEach((permission) => permissions.add(permission));
+  }
+  return PERMISSIONS.filter((permission) => permissions.has(permission));
+}
+
+export type AccessClaims = {
+  roles: Role[];
+  permissions: Permission[];
+  authzVersion: number;
+};
+
+export function accessClaimsFor(user: { roles?: Role[]; permissions?: Permission[]; authzVersion?: number }): AccessClaims {
+  const roles = user.roles?.length ? [...user.roles] : [...DEFAULT_ROLES];
+
+  return {
+    roles,
+    permissions: resolvePermissions(roles, user.permissions),
+    authzVersion: user.authzVersion ?? 0,
+  };
+}
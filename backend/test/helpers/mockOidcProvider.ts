@@ -0,0 +1,123 @@
+import * as crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+type MockUser = {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+};
+
+type PendingCode = {
+  codeChallenge: string;
+  redirectUri: string;
+};
+
+/**
+ * A minimal OpenID Connect provider for tests. Its /authorize endpoint approves every
+ * request as `user` and redirects back with a code; /token enforces the client secret,
+ * the redirect URI and the PKCE verifier.
+ */
+export class MockOidcProvider {
+  user: MockUser = { sub: 'oidc-user-1' };
+  issuer = '';
+
+  private server?: Server;
+  private codes = new Map<string, PendingCode>();
+  private tokens = new Map<string, MockUser>();
+
+  constructor(private clientId: string, private clientSecret: string) {}
+
+  async start(): Promise<string> {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get('/.well-known/openid-configuration', (req, res) => {
+      res.json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        userinfo_endpoint: `${this.issuer}/userinfo`,
+      });
+    });
+
+    app.get('/authorize', (req, res) => {
+      const query = req.query as Record<string, string>;
+      if (query.client_id !== this.clientId || query.code_challenge_method !== 'S256') {
+        res.status(400).send('invalid_request');
+        return;
+      }
+
+      const code = crypto.randomBytes(16).toString('hex');
+      this.codes.set(code, { codeChallenge: query.code_challenge, redirectUri: query.redirect_uri });
+
+      const redirect = new URL(query.redirect_uri);
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', query.state);
+      res.redirect(redirect.toString());
+    });
+
+    app.post('/token', (req, res) => {
+      const { code, code_verifier, client_id, client_secret, redirect_uri } = req.body;
+      const pending = this.codes.get(code);
+      this.codes.delete(code);
+
+      const challenge = code_verifier
+        ? crypto.createHash('sha256').update(code_verifier).digest('base64url')
+        : undefined;
+
+      if (
+        !pending ||
+        client_id !== this.clientId ||
+        client_secret !== this.clientSecret ||
+        redirect_uri !== pending.redirectUri ||
+        challenge !== pending.codeChallenge
+      ) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+
+      const accessToken = crypto.randomBytes(16).toString('hex');
+      this.tokens.set(accessToken, { ...this.user });
+      res.json({ access_token: accessToken, token_type: 'Bearer' });
+    });
+
+    app.get('/userinfo', (req, res) => {
+      const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+      const user = this.tokens.get(token);
+      if (!user) {
+        res.status(401).end();
+        return;
+      }
+      res.json(user);
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = this.server!.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+    return this.issuer;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  /**
+   * Follows the provider's redirect for an authorization URL, as the browser would,
+   * and returns the code and state it sends back.
+   */
+  async approve(authorizationUrl: string): Promise<{ code: string; state: string }> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = new URL(response.headers.get('location')!);
+    return {
+      code: location.searchParams.get('code')!,
+      state: location.searchParams.get('state')!,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+const cborHead = (majorType: number, length: number): Buffer => {
+  if (length < 24) return Buffer.from([(majorType << 5) | length]);
+  if (length < 0x100) return Buffer.from([(majorType << 5) | 24, length]);
+
+  const head = Buffer.alloc(3);
+  head[0] = (majorType << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+};
+
+/**
+ * Just enough CBOR to build attestation objects and COSE keys: small integers,
+ * strings, byte strings and maps.
+ */
+const encodeCbor = (value: CborValue): Buffer => {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([cborHead(2, value.length), Buffer.from(value)]);
+  }
+
+  const entries = [...value.entries()].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]);
+  return Buffer.concat([cborHead(5, value.size), ...entries]);
+};
+
+const sha256 = (data: Buffer | string): Buffer => crypto.createHash('sha256').update(data).digest();
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * An in-memory WebAuthn authenticator with a P-256 (ES256) key, producing the same JSON
+ * a browser returns from `navigator.credentials.create()` / `.get()`. It uses "none"
+ * attestation, like most passkey providers.
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  private signCount = 0;
+
+  constructor(
+    private readonly rpId: string,
+    private readonly origin: string,
+    private readonly userVerified: boolean = true
+  ) { }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  createCredential(challenge: string): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.create', challenge);
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authDataHeader(FLAG_ATTESTED_CREDENTIAL_DATA),
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      this.cosePublicKey(),
+    ]);
+
+    const attestationObject = encodeCbor(new Map<CborValue, CborValue>([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', authData],
+    ]));
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    };
+  }
+
+  getAssertion(challenge: string, signingKey: crypto.KeyObject = this.keyPair.privateKey): AuthenticationResponseJSON {
+    this.signCount++;
+
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const authenticatorData = this.authDataHeader(0);
+    const signature = crypto.sign('sha256', Buffer.concat([authenticatorData, sha256(clientDataJSON)]), signingKey);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    };
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+
+  private authDataHeader(extraFlags: number): Buffer {
+    const flags = FLAG_USER_PRESENT | (this.userVerified ? FLAG_USER_VERIFIED : 0) | extraFlags;
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+
+    return Buffer.concat([sha256(this.rpId), Buffer.from([flags]), counter]);
+  }
+
+  private cosePublicKey(): Buffer {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+
+    return encodeCbor(new Map<CborValue, CborValue>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]));
+  }
+}
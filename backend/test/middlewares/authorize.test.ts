@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { requirePermission, requireRole } from '../../src/middlewares/authorize';
+import HttpError from '../../src/utils/HttpError';
+
+describe('authorization middlewares', () => {
+  let req: Partial<Request>;
+  const res = {} as Response;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = { userId: 'user123', roles: ['moderator'], permissions: ['posts:read', 'posts:write'] };
+    next = jest.fn();
+  });
+
+  const rejectedWith = (statusCode: number) => {
+    expect(next).toHaveBeenCalledWith(expect.any(HttpError));
+    return expect((next.mock.calls[0][0] as HttpError).statusCode).toBe(statusCode);
+  };
+
+  describe('requireRole', () => {
+    it('should admit users with any of the roles', () => {
+      requireRole('admin', 'moderator')(req as Request, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject users without the role', () => {
+      requireRole('admin')(req as Request, res, next as NextFunction);
+
+      rejectedWith(403);
+    });
+
+    it('should reject unauthenticated requests', () => {
+      requireRole('admin')({} as Request, res, next as NextFunction);
+
+      rejectedWith(401);
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should admit users holding every permission', () => {
+      requirePermission('posts:read', 'posts:write')(req as Request, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should report the missing permissions', () => {
+      requirePermission('posts:write', 'users:write')(req as Request, res, next as NextFunction);
+
+      rejectedWith(403);
+      expect((next.mock.calls[0][0] as HttpError).meta).toEqual({ missingPermissions: ['users:write'] });
+    });
+  });
+
+  it('should compose', () => {
+    const chain = [requireRole('moderator'), requirePermission('posts:write')];
+
+    for (const middleware of chain) middleware(req as Request, res, next as NextFunction);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(next.mock.calls.every((call) => call.length === 0)).toBe(true);
+  });
+});
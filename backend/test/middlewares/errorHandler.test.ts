@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import errorHandler from '../../src/middlewares/errorHandler';
 import HttpError from '../../src/utils/HttpError';
+import { AuditService } from '../../src/services/audit.service';
+
+jest.mock('../../src/services/audit.service', () => ({
+  AuditService: { record: jest.fn() },
+}));
 
 describe('errorHandler middleware', () => {
   let req: Partial<Request>;
@@ -8,6 +13,7 @@ describe('errorHandler middleware', () => {
   let next: NextFunction;
 
   beforeEach(() => {
+    jest.clearAllMocks();
     req = {};
     res = {
       status: jest.fn().mockReturnThis(),
@@ -55,4 +61,30 @@ describe('errorHandler middleware', () => {
     expect(res.status).toHaveBeenCalledWith(500);
     expect(res.json).toHaveBeenCalledWith({ message: 'Internal server error' });
   });
+
+  it('should audit rate limit hits without the query string', () => {
+    const request = {
+      ip: '10.0.0.1',
+      method: 'POST',
+      baseUrl: '/api/v1',
+      path: '/login',
+      get: jest.fn().mockReturnValue('jest'),
+    } as unknown as Request;
+
+    errorHandler(new HttpError('Too many login attempts.', 429), request, res as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'security.rate_limited',
+      outcome: 'failure',
+      context: expect.objectContaining({ ip: '10.0.0.1' }),
+      details: { method: 'POST', path: '/api/v1/login' },
+    }));
+  });
+
+  it('should not audit other errors', () => {
+    errorHandler(new HttpError('Not Found', 404), req as Request, res as Response, next);
+
+    expect(AuditService.record).not.toHaveBeenCalled();
+  });
 });
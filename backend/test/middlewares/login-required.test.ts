@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import loginRequired, { allowApiKey } from '../../src/middlewares/login-required';
+import { TokenService } from '../../src/services/token.service';
+import { SessionService } from '../../src/services/session.service';
+import { ApiKeyService } from '../../src/services/apiKey.service';
+import { RbacService } from '../../src/services/rbac.service';
+import { AccessTokenDenylistRedisService } from '../../src/services/redis.service';
+import HttpError from '../../src/utils/HttpError';
+
+jest.mock('../../src/services/token.service');
+jest.mock('../../src/services/session.service');
+jest.mock('../../src/services/apiKey.service');
+jest.mock('../../src/services/rbac.service');
+jest.mock('../../src/services/redis.service');
+jest.mock('../../src/utils/redisClient', () => ({
+  __esModule: true,
+  default: {
+    on: jest.fn(),
+    quit: jest.fn(),
+  },
+}));
+
+describe('loginRequired middleware', () => {
+  const decoded = {
+    userId: 'user123',
+    type: 'access',
+    sessionId: 'session1',
+    jti: 'jti1',
+    exp: 9999999999,
+    roles: ['admin'],
+    permissions: ['posts:read', 'users:read'],
+    authzVersion: 1,
+  };
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let next: jest.Mock;
+
+  const withAuthorization = (header?: string) => {
+    req.get = ((name: string) => (name === 'Authorization' ? header : undefined)) as Request['get'];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    req = {};
+    res = {};
+    next = jest.fn();
+    withAuthorization('Bearer token');
+    (TokenService.verifyToken as jest.Mock).mockReturnValue(decoded);
+    (AccessTokenDenylistRedisService.has as jest.Mock).mockResolvedValue(false);
+    (SessionService.isActive as jest.Mock).mockResolvedValue(true);
+    (RbacService.isStale as jest.Mock).mockResolvedValue(false);
+  });
+
+  const expectUnauthorized = (message: string) => {
+    expect(next).toHaveBeenCalledWith(expect.any(HttpError));
+    const err = next.mock.calls[0][0] as HttpError;
+    expect(err.statusCode).toBe(401);
+    expect(err.message).toBe(message);
+  };
+
+  it('should attach the user and session for a valid access token', async () => {
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.userId).toBe('user123');
+    expect(req.sessionId).toBe('session1');
+    expect(req.auth).toEqual(decoded);
+    expect(req.roles).toEqual(['admin']);
+    expect(req.permissions).toEqual(['posts:read', 'users:read']);
+  });
+
+  it('should reject tokens issued before a role or permission change', async () => {
+    (RbacService.isStale as jest.Mock).mockResolvedValue(true);
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expectUnauthorized('Permissions changed, please refresh your access token');
+    expect(RbacService.isStale).toHaveBeenCalledWith('user123', 1);
+  });
+
+  it('should give tokens without role claims the default role', async () => {
+    (TokenService.verifyToken as jest.Mock).mockReturnValue({ userId: 'user123', type: 'access', sessionId: 'session1', jti: 'jti1' });
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expect(req.roles).toEqual(['user']);
+    expect(req.permissions).toEqual(['posts:read', 'sessions:read']);
+  });
+
+  it('should reject requests without an authorization header', async () => {
+    withAuthorization(undefined);
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expectUnauthorized('No authorization header provided in the request');
+  });
+
+  it('should reject non-access tokens', async () => {
+    (TokenService.verifyToken as jest.Mock).mockReturnValue({ ...decoded, type: 'refresh' });
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expectUnauthorized('Not authenticated');
+  });
+
+  it('should reject denylisted access tokens', async () => {
+    (AccessTokenDenylistRedisService.has as jest.Mock).mockResolvedValue(true);
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expectUnauthorized('Token has been revoked');
+    expect(AccessTokenDenylistRedisService.has).toHaveBeenCalledWith('jti1');
+  });
+
+  it('should reject tokens of a revoked session', async () => {
+    (SessionService.isActive as jest.Mock).mockResolvedValue(false);
+
+    await loginRequired(req as Request, res as Response, next as NextFunction);
+
+    expectUnauthorized('Session has been revoked');
+  });
+
+  describe('API keys', () => {
+    const apiKey = { userId: 'user123', keyId: 'key1', scopes: ['posts:read'] };
+
+    beforeEach(() => {
+      withAuthorization('ApiKey jat_key');
+      (ApiKeyService.authenticate as jest.Mock).mockResolvedValue(apiKey);
+    });
+
+    it('should be refused on routes that do not allow them', async () => {
+      await loginRequired(req as Request, res as Response, next as NextFunction);
+
+      const err = next.mock.calls[0][0] as HttpError;
+      expect(err.statusCode).toBe(403);
+      expect(ApiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should attach the key owner when the key has the route scope', async () => {
+      await allowApiKey('posts:read')(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(req.userId).toBe('user123');
+      expect(req.apiKey).toEqual({ id: 'key1', scopes: ['posts:read'] });
+      expect(req.roles).toEqual([]);
+      expect(req.permissions).toEqual(['posts:read']);
+      expect(req.sessionId).toBeUndefined();
+    });
+
+    it('should reject keys without the route scope', async () => {
+      await allowApiKey('sessions:read')(req as Request, res as Response, next as NextFunction);
+
+      const err = next.mock.calls[0][0] as HttpError;
+      expect(err.statusCode).toBe(403);
+      expect(req.userId).toBeUndefined();
+    });
+
+    it('should reject unknown or expired keys', async () => {
+      (ApiKeyService.authenticate as jest.Mock).mockResolvedValue(null);
+
+      await allowApiKey('posts:read')(req as Request, res as Response, next as NextFunction);
+
+      expectUnauthorized('Invalid or expired API key');
+    });
+
+    it('should still accept access tokens on routes that allow API keys', async () => {
+      withAuthorization('Bearer token');
+
+      await allowApiKey('posts:read')(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(req.sessionId).toBe('session1');
+    });
+  });
+});
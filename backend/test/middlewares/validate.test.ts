@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { validateBody, validateQuery } from '../../src/middlewares/validate';
+import { validateBody, validateParams, validateQuery } from '../../src/middlewares/validate';
 import HttpError from '../../src/utils/HttpError';
 
 describe('Validation middleware', () => {
@@ -10,7 +10,7 @@ describe('Validation middleware', () => {
 
   beforeEach(() => {
     req = {};
-    res = {};
+    res = { locals: {} };
     next = jest.fn();
   });
 
@@ -55,6 +55,19 @@ describe('Validation middleware', () => {
       expect(next).toHaveBeenCalledWith();
     });
 
+    it('should keep the parsed query, with defaults applied, on res.locals', () => {
+      req.query = { page: '2' };
+      const withDefaults = z.object({
+        page: z.coerce.number().int(),
+        limit: z.coerce.number().int().default(20),
+      });
+
+      validateQuery(withDefaults)(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals).toEqual({ query: { page: 2, limit: 20 } });
+    });
+
     it('should call next with HttpError on invalid query', () => {
       req.query = { page: 'abc' };
 
@@ -66,4 +79,29 @@ describe('Validation middleware', () => {
       expect(err.details).toHaveProperty('page');
     });
   });
+
+  describe('validateParams', () => {
+    const schema = z.object({
+      id: z.string().uuid(),
+    });
+
+    it('should call next without error for valid params', () => {
+      req.params = { id: '4b1c9f7e-2a4c-4c3b-9a57-2f0c6a1d8e11' };
+
+      validateParams(schema)(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should call next with HttpError on invalid params', () => {
+      req.params = { id: 'not-a-uuid' };
+
+      validateParams(schema)(req as Request, res as Response, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(expect.any(HttpError));
+      const err = next.mock.calls[0][0] as HttpError;
+      expect(err.statusCode).toBe(400);
+      expect(err.details).toHaveProperty('id');
+    });
+  });
 });
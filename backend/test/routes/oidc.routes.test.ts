@@ -0,0 +1,97 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response, NextFunction } from 'express';
+import Redis from 'ioredis-mock';
+import oidcRoutes from '../../src/routes/v1/oidc.routes';
+import errorHandler from '../../src/middlewares/errorHandler';
+import * as oidcController from '../../src/controllers/oidc.controller';
+import { accessClaimsFor, Role } from '../../src/utils/permissions';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+
+// Signs the request in with the roles named in the `x-test-roles` header.
+jest.mock('../../src/middlewares/login-required', () => ({
+  __esModule: true,
+  default: (req: Request, res: Response, next: NextFunction) => {
+    const roles = (req.header('x-test-roles') ?? 'user').split(',') as Role[];
+    const { permissions } = accessClaimsFor({ roles });
+    req.userId = 'user123';
+    req.roles = roles;
+    req.permissions = permissions;
+    next();
+  },
+}));
+jest.mock('../../src/middlewares/rateLimiters/auth', () => ({
+  oauthLimiter: (req: Request, res: Response, next: NextFunction) => next(),
+}));
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/controllers/oidc.controller', () => {
+  const ok = (req: Request, res: Response) => { res.status(200).json({}); };
+  return {
+    registerClient: jest.fn(ok),
+    listClients: jest.fn(ok),
+    deleteClient: jest.fn(ok),
+    authorize: jest.fn(ok),
+    getAuthorizationRequest: jest.fn(ok),
+    decideAuthorizationRequest: jest.fn(ok),
+    token: jest.fn(ok),
+    userInfo: jest.fn(ok),
+  };
+});
+
+describe('OIDC client routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/v1', oidcRoutes);
+  app.use(errorHandler);
+
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const client = { name: 'Wiki', redirectUris: ['https://wiki.example.com/callback'], confidential: true };
+  const clientId = '6f1c2a4e-8b9d-4c3e-a1f2-0d9e8c7b6a5f';
+
+  const send = async (method: string, path: string, roles = 'user', body?: unknown): Promise<number> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'content-type': 'application/json', 'x-test-roles': roles },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return response.status;
+  };
+
+  it('refuses regular users', async () => {
+    await expect(send('POST', '/oidc/clients', 'user', client)).resolves.toBe(403);
+    await expect(send('GET', '/oidc/clients')).resolves.toBe(403);
+    await expect(send('DELETE', `/oidc/clients/${clientId}`)).resolves.toBe(403);
+
+    expect(oidcController.registerClient).not.toHaveBeenCalled();
+    expect(oidcController.listClients).not.toHaveBeenCalled();
+    expect(oidcController.deleteClient).not.toHaveBeenCalled();
+  });
+
+  it('lets administrators manage clients', async () => {
+    await expect(send('POST', '/oidc/clients', 'admin', client)).resolves.toBe(200);
+    await expect(send('GET', '/oidc/clients', 'admin')).resolves.toBe(200);
+    await expect(send('DELETE', `/oidc/clients/${clientId}`, 'admin')).resolves.toBe(200);
+
+    expect(oidcController.registerClient).toHaveBeenCalled();
+    expect(oidcController.listClients).toHaveBeenCalled();
+    expect(oidcController.deleteClient).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import Redis from 'ioredis-mock';
+import { AccountService } from '../../src/services/account.service';
+import { UserService } from '../../src/services/user.service';
+import { SessionService } from '../../src/services/session.service';
+import { AuditService } from '../../src/services/audit.service';
+import { ReauthService } from '../../src/services/reauth.service';
+import HttpError from '../../src/utils/HttpError';
+import { EmailChangeRedisService, OtpRedisService } from '../../src/services/redis.service';
+import { EmailService } from '../../src/utils/email/emailService';
+import Passkey from '../../src/models/passkey';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/session.service');
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/services/twoFactor.service', () => ({ TwoFactorService: { isEnabled: jest.fn() } }));
+jest.mock('../../src/utils/email/emailService');
+jest.mock('../../src/services/reauth.service');
+jest.mock('../../src/models/passkey', () => ({ __esModule: true, default: { deleteMany: jest.fn() } }));
+jest.mock('../../src/models/apiKey', () => ({ __esModule: true, default: { deleteMany: jest.fn() } }));
+jest.mock('../../src/models/oidcConsent', () => ({ __esModule: true, default: { deleteMany: jest.fn() } }));
+jest.mock('../../src/models/oidcClient', () => ({
+  __esModule: true,
+  default: { find: jest.fn().mockResolvedValue([]), deleteMany: jest.fn() },
+}));
+jest.mock('../../src/env', () => ({
+  env: {
+    accessTokenSecret: 'mock-access-secret',
+    refreshTokenSecret: 'mock-refresh-secret',
+    verificationTokenSecret: 'mock-verification-secret',
+    accessTokenAlgorithm: 'HS256',
+    jwtClaims: {
+      access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+    },
+    jwtClockToleranceSeconds: 0,
+    backendDomain: 'http://localhost:3000',
+    accountDeletion: { graceDays: 14, purgeIntervalSeconds: 3600 },
+  },
+}));
+
+describe('AccountService', () => {
+  const context = { ip: '10.0.0.1', userAgent: 'jest' };
+
+  let user: UserDocument;
+
+  const restoreToken = () => {
+    const [, data] = (EmailService.sendEmail as jest.Mock).mock.calls[0];
+    return new URL(data.undoLink).searchParams.get('token')!;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = {
+      _id: { toString: () => 'user123' },
+      email: 'jane@example.com',
+      password: 'hashed',
+      firstName: 'Jane',
+      lastName: 'Doe',
+    } as unknown as UserDocument;
+
+    (ReauthService.verify as jest.Mock).mockResolvedValue(undefined);
+    (UserService.getUserById as jest.Mock).mockImplementation(async () => user);
+    (UserService.scheduleDeletion as jest.Mock).mockImplementation(async (current, deletionScheduledAt) => {
+      user = { ...current, deletionScheduledAt };
+      return user;
+    });
+    (UserService.cancelDeletion as jest.Mock).mockImplementation(async (current) => {
+      user = { ...current, deletionScheduledAt: undefined };
+      return user;
+    });
+    (SessionService.revokeAllSessions as jest.Mock).mockResolvedValue(2);
+    (UserService.deleteUser as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('schedules deletion after the grace period, signs out everywhere and mails an undo link', async () => {
+    const before = Date.now();
+
+    const deletionScheduledAt = await AccountService.scheduleDeletion('user123', { password: 'password' }, context);
+
+    expect(ReauthService.verify).toHaveBeenCalledWith(expect.objectContaining({ email: 'jane@example.com' }), { password: 'password' });
+    expect(deletionScheduledAt.getTime()).toBeGreaterThanOrEqual(before + 14 * 24 * 60 * 60 * 1000);
+    expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user123');
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('ACCOUNT_DELETION_SCHEDULED', expect.objectContaining({
+      undoLink: expect.stringMatching(/^http:\/\/localhost:3000\/api\/v1\/restore-account\?token=/),
+      deletionScheduledAt,
+    }));
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.account_deletion_scheduled',
+    }));
+  });
+
+  it('refuses to schedule deletion when re-authentication fails', async () => {
+    (ReauthService.verify as jest.Mock).mockRejectedValue(new HttpError('Invalid two-factor code.', 401));
+
+    await expect(AccountService.scheduleDeletion('user123', { code: '000000' }, context))
+      .rejects.toMatchObject({ statusCode: 401 });
+    expect(UserService.scheduleDeletion).not.toHaveBeenCalled();
+    expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+  });
+
+  it('schedules deletion from an emailed confirmation link, and only once', async () => {
+    await AccountService.requestDeletionLink('user123');
+
+    expect(UserService.scheduleDeletion).not.toHaveBeenCalled();
+    const [type, data] = (EmailService.sendEmail as jest.Mock).mock.calls[0];
+    expect(type).toBe('ACCOUNT_DELETION_CONFIRM');
+    expect(data.confirmLink).toMatch(/^http:\/\/localhost:3000\/api\/v1\/confirm-account-deletion\?token=/);
+    const token = new URL(data.confirmLink).searchParams.get('token')!;
+
+    const deletionScheduledAt = await AccountService.confirmDeletionWithToken(token, context);
+
+    expect(user.deletionScheduledAt).toEqual(deletionScheduledAt);
+    expect(ReauthService.verify).not.toHaveBeenCalled();
+    expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user123');
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('ACCOUNT_DELETION_SCHEDULED', expect.anything());
+    await expect(AccountService.confirmDeletionWithToken(token, context)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('does not accept a restore link as a deletion confirmation', async () => {
+    await AccountService.scheduleDeletion('user123', { password: 'password' }, context);
+
+    await expect(AccountService.confirmDeletionWithToken(restoreToken(), context))
+      .rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('restores the account from the emailed link, and only once', async () => {
+    await AccountService.scheduleDeletion('user123', { password: 'password' }, context);
+    const token = restoreToken();
+
+    const restored = await AccountService.restoreWithToken(token, context);
+
+    expect(restored.deletionScheduledAt).toBeUndefined();
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'auth.account_restored' }));
+    await expect(AccountService.restoreWithToken(token, context)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('purges accounts past their grace period and keeps going when one fails', async () => {
+    const due = [
+      { _id: { toString: () => 'user1' }, email: 'one@example.com' },
+      { _id: { toString: () => 'user2' }, email: 'two@example.com' },
+    ];
+    (UserService.getUsersDueForDeletion as jest.Mock).mockResolvedValue(due);
+    (UserService.getUserById as jest.Mock).mockImplementation(async (id) => due.find((u) => u._id.toString() === id));
+    (UserService.deleteUser as jest.Mock)
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValueOnce(true);
+
+    const purged = await AccountService.purgeDueAccounts(new Date());
+
+    expect(purged).toBe(1);
+    expect(AuditService.record).toHaveBeenCalledTimes(1);
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.account_purged',
+      targetUserId: 'user2',
+    }));
+  });
+
+  it('removes the per-user Redis entries along with the user', async () => {
+    await OtpRedisService.setOtp(user, 'hashed-otp');
+    await EmailChangeRedisService.setRequest('user123', { email: 'new@example.com', confirmJti: 'a', cancelJti: 'b' }, 60);
+
+    await AccountService.purge('user123');
+
+    expect(await OtpRedisService.getOtpData('jane@example.com')).toBeNull();
+    expect(await EmailChangeRedisService.getRequest('user123')).toBeNull();
+    expect(Passkey.deleteMany).toHaveBeenCalledWith({ userId: 'user123' });
+    expect(UserService.deleteUser).toHaveBeenCalledWith('user123');
+  });
+});
@@ -0,0 +1,135 @@
+import Redis from 'ioredis-mock';
+import { AdminUserService } from '../../src/services/adminUser.service';
+import { UserService } from '../../src/services/user.service';
+import { SessionService } from '../../src/services/session.service';
+import { AccountService } from '../../src/services/account.service';
+import { RbacService } from '../../src/services/rbac.service';
+import { EmailService } from '../../src/utils/email/emailService';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/session.service');
+jest.mock('../../src/services/account.service');
+jest.mock('../../src/services/rbac.service');
+jest.mock('../../src/utils/email/emailService');
+
+describe('AdminUserService', () => {
+  const makeUser = (overrides = {}) => ({
+    _id: { toString: () => 'user123' },
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    password: 'hashedPassword',
+    verified: false,
+    roles: ['user'],
+    permissions: [],
+    twoFactor: { enabled: true, secret: 'encrypted-secret' },
+    backupCodes: ['hashedCode'],
+    oauthAccounts: [{ provider: 'github', providerUserId: '42' }],
+    ...overrides,
+  }) as unknown as UserDocument;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.getUserById as jest.Mock).mockResolvedValue(makeUser());
+    (SessionService.revokeAllSessions as jest.Mock).mockResolvedValue(2);
+  });
+
+  it('never exposes credentials or two-factor secrets', () => {
+    const view = AdminUserService.toView(makeUser());
+
+    expect(view).toMatchObject({
+      id: 'user123',
+      email: 'jane@example.com',
+      twoFactorEnabled: true,
+      oauthProviders: ['github'],
+      locked: false,
+    });
+    expect(JSON.stringify(view)).not.toMatch(/hashedPassword|encrypted-secret|hashedCode/);
+  });
+
+  it('returns a page of users with the total count', async () => {
+    (UserService.searchUsers as jest.Mock).mockResolvedValue({ users: [makeUser()], total: 41 });
+
+    const result = await AdminUserService.searchUsers('jane', 3, 20);
+
+    expect(UserService.searchUsers).toHaveBeenCalledWith('jane', 3, 20);
+    expect(result).toMatchObject({ page: 3, limit: 20, total: 41, users: [{ id: 'user123' }] });
+  });
+
+  it('throws 404 for unknown users', async () => {
+    (UserService.getUserById as jest.Mock).mockResolvedValue(null);
+
+    await expect(AdminUserService.getUser('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('force-verifies the email', async () => {
+    (UserService.setEmailVerified as jest.Mock).mockImplementation(async (user) => ({ ...user, verified: true }));
+
+    const view = await AdminUserService.verifyEmail('user123');
+
+    expect(UserService.setEmailVerified).toHaveBeenCalledWith(expect.objectContaining({ email: 'jane@example.com' }), true);
+    expect(view.verified).toBe(true);
+  });
+
+  it('locks the user and signs them out everywhere', async () => {
+    (UserService.setLocked as jest.Mock).mockImplementation(async (user, locked) => ({ ...user, locked }));
+
+    const result = await AdminUserService.lockUser('admin1', 'user123');
+
+    expect(UserService.setLocked).toHaveBeenCalledWith(expect.anything(), true);
+    expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user123');
+    expect(result).toMatchObject({ user: { locked: true }, revokedSessions: 2 });
+  });
+
+  it('lifts an automatic lockout when unlocking', async () => {
+    const lockedOut = makeUser({ failedLoginAttempts: 6, lockedUntil: new Date(Date.now() + 60 * 1000) });
+    (UserService.setLocked as jest.Mock).mockResolvedValue(lockedOut);
+    (UserService.resetFailedLogins as jest.Mock).mockImplementation(async (user) => ({
+      ...user,
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+    }));
+
+    const view = await AdminUserService.unlockUser('user123');
+
+    expect(UserService.resetFailedLogins).toHaveBeenCalledWith(lockedOut);
+    expect(view).toMatchObject({ locked: false, failedLoginAttempts: 0, lockedUntil: undefined });
+  });
+
+  it('refuses to lock or delete the acting admin', async () => {
+    await expect(AdminUserService.lockUser('user123', 'user123')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(AdminUserService.deleteUser('user123', 'user123')).rejects.toMatchObject({ statusCode: 400 });
+    expect(UserService.setLocked).not.toHaveBeenCalled();
+    expect(AccountService.purge).not.toHaveBeenCalled();
+  });
+
+  it('requires a password reset, revokes sessions and notifies the user', async () => {
+    (UserService.requirePasswordReset as jest.Mock).mockImplementation(async (user) => ({ ...user, passwordResetRequired: true }));
+
+    const result = await AdminUserService.forcePasswordReset('user123');
+
+    expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user123');
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('PASSWORD_RESET_REQUIRED', {
+      user: expect.objectContaining({ email: 'jane@example.com' }),
+      resetLink: expect.stringContaining('/auth'),
+    });
+    expect(result.user.passwordResetRequired).toBe(true);
+  });
+
+  it('does not let admins remove their own admin role', async () => {
+    await expect(AdminUserService.updateAccess('user123', 'user123', { roles: ['user'] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    (RbacService.updateAccess as jest.Mock).mockImplementation(async (user, { roles }) => ({ ...user, roles }));
+    await expect(AdminUserService.updateAccess('admin1', 'user123', { roles: ['moderator'] }))
+      .resolves.toMatchObject({ roles: ['moderator'] });
+  });
+
+  it('purges the user and their data on delete', async () => {
+    await AdminUserService.deleteUser('admin1', 'user123');
+
+    expect(AccountService.purge).toHaveBeenCalledWith('user123');
+  });
+});
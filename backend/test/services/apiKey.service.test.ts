@@ -0,0 +1,131 @@
+import * as crypto from 'crypto';
+import { ApiKeyService } from '../../src/services/apiKey.service';
+import ApiKey from '../../src/models/apiKey';
+import { UserService } from '../../src/services/user.service';
+
+jest.mock('../../src/models/apiKey', () => ({
+  __esModule: true,
+  default: {
+    countDocuments: jest.fn(),
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/user.service');
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ApiKey.countDocuments as jest.Mock).mockResolvedValue(0);
+    (ApiKey.create as jest.Mock).mockImplementation(async (data) => ({
+      ...data,
+      _id: { toString: () => 'key1' },
+    }));
+    (UserService.getUserById as jest.Mock).mockResolvedValue({ locked: false });
+  });
+
+  describe('createKey', () => {
+    it('returns the plain key once and stores only its hash', async () => {
+      const { apiKey, key } = await ApiKeyService.createKey('user123', { name: 'CI', scopes: ['posts:read'] }, ['posts:read']);
+
+      expect(key).toMatch(/^jat_[A-Za-z0-9_-]{43}$/);
+      expect(ApiKey.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user123',
+        keyHash: sha256(key),
+        prefix: key.slice(0, 12),
+      }));
+      expect(apiKey).toMatchObject({ id: 'key1', name: 'CI', prefix: key.slice(0, 12), scopes: ['posts:read'] });
+      expect(apiKey).not.toHaveProperty('keyHash');
+    });
+
+    it('caps the number of keys per user', async () => {
+      (ApiKey.countDocuments as jest.Mock).mockResolvedValue(20);
+
+      await expect(ApiKeyService.createKey('user123', { name: 'CI', scopes: ['posts:read'] }, ['posts:read']))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('refuses scopes the user does not hold', async () => {
+      await expect(ApiKeyService.createKey('user123', { name: 'CI', scopes: ['posts:read', 'sessions:read'] }, ['posts:read']))
+        .rejects.toMatchObject({ statusCode: 403, meta: { missingPermissions: ['sessions:read'] } });
+      expect(ApiKey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    const stored = (overrides = {}) => ({
+      _id: { toString: () => 'key1' },
+      userId: { toString: () => 'user123' },
+      scopes: ['posts:read'],
+      ...overrides,
+    });
+
+    it('looks keys up by hash and records their use', async () => {
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(stored());
+
+      const result = await ApiKeyService.authenticate('jat_secret', '10.0.0.1');
+
+      expect(ApiKey.findOne).toHaveBeenCalledWith({ keyHash: sha256('jat_secret') });
+      expect(result).toEqual({ userId: 'user123', keyId: 'key1', scopes: ['posts:read'] });
+      expect(ApiKey.updateOne).toHaveBeenCalledWith(
+        { _id: expect.anything() },
+        { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' }
+      );
+    });
+
+    it('skips the write when the key was just used from the same address', async () => {
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(stored({ lastUsedAt: new Date(), lastUsedIp: '10.0.0.1' }));
+
+      await ApiKeyService.authenticate('jat_secret', '10.0.0.1');
+
+      expect(ApiKey.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects expired keys', async () => {
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(stored({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(ApiKeyService.authenticate('jat_secret', '10.0.0.1')).resolves.toBeNull();
+    });
+
+    it('rejects keys of locked or deleted users', async () => {
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(stored());
+
+      (UserService.getUserById as jest.Mock).mockResolvedValueOnce({ locked: true });
+      await expect(ApiKeyService.authenticate('jat_secret', '10.0.0.1')).resolves.toBeNull();
+
+      (UserService.getUserById as jest.Mock).mockResolvedValueOnce(null);
+      await expect(ApiKeyService.authenticate('jat_secret', '10.0.0.1')).resolves.toBeNull();
+    });
+
+    it('drops scopes the owner no longer holds', async () => {
+      (ApiKey.findOne as jest.Mock).mockResolvedValue(stored({ scopes: ['posts:read', 'posts:write'] }));
+      (UserService.getUserById as jest.Mock).mockResolvedValueOnce({ locked: false, roles: ['moderator'] });
+
+      await expect(ApiKeyService.authenticate('jat_secret', '10.0.0.1'))
+        .resolves.toMatchObject({ scopes: ['posts:read', 'posts:write'] });
+
+      (UserService.getUserById as jest.Mock).mockResolvedValueOnce({ locked: false, roles: ['user'] });
+
+      await expect(ApiKeyService.authenticate('jat_secret', '10.0.0.1'))
+        .resolves.toMatchObject({ scopes: ['posts:read'] });
+    });
+
+    it('rejects values that are not API keys without a lookup', async () => {
+      await expect(ApiKeyService.authenticate('not-a-key', '10.0.0.1')).resolves.toBeNull();
+      expect(ApiKey.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  it('only revokes keys owned by the user', async () => {
+    (ApiKey.deleteOne as jest.Mock).mockResolvedValue({ deletedCount: 0 });
+
+    await expect(ApiKeyService.revokeKey('user123', 'key1')).resolves.toBe(false);
+    expect(ApiKey.deleteOne).toHaveBeenCalledWith({ _id: 'key1', userId: 'user123' });
+  });
+});
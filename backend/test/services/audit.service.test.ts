@@ -0,0 +1,115 @@
+import Redis from 'ioredis-mock';
+import { AuditService } from '../../src/services/audit.service';
+import AuditEvent from '../../src/models/auditEvent';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/models/auditEvent', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  },
+}));
+
+const mockFind = (events: unknown[]) => {
+  const query = {
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockResolvedValue(events),
+  };
+  (AuditEvent.find as jest.Mock).mockReturnValue(query);
+  (AuditEvent.countDocuments as jest.Mock).mockResolvedValue(events.length);
+  return query;
+};
+
+describe('AuditService', () => {
+  const context = { ip: '10.0.0.1', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0', correlationId: 'req-1' };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('record', () => {
+    it('stores the request context with the event', async () => {
+      await AuditService.record({ action: 'auth.login', actorId: 'user1', targetUserId: 'user1', context });
+
+      expect(AuditEvent.create).toHaveBeenCalledWith({
+        action: 'auth.login',
+        actorId: 'user1',
+        targetUserId: 'user1',
+        outcome: 'success',
+        ip: '10.0.0.1',
+        userAgent: context.userAgent,
+        correlationId: 'req-1',
+        details: undefined,
+      });
+    });
+
+    it('does not fail the caller when the write fails', async () => {
+      (AuditEvent.create as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      await expect(AuditService.record({ action: 'auth.login', outcome: 'failure' })).resolves.toBeUndefined();
+    });
+  });
+
+  it('lists the events of a user without details, flagging administrator actions', async () => {
+    const query = mockFind([
+      {
+        _id: { toString: () => 'event1' },
+        action: 'admin.user.lock',
+        actorId: { toString: () => 'admin1' },
+        outcome: 'success',
+        ip: '10.0.0.2',
+        userAgent: context.userAgent,
+        details: { revokedSessions: 2 },
+      },
+      {
+        _id: { toString: () => 'event2' },
+        action: 'auth.login',
+        actorId: { toString: () => 'user1' },
+        outcome: 'failure',
+        userAgent: context.userAgent,
+        details: { reason: 'wrong_password' },
+      },
+    ]);
+
+    const result = await AuditService.listForUser('user1', 2, 10);
+
+    expect(AuditEvent.find).toHaveBeenCalledWith({ targetUserId: 'user1' });
+    expect(query.skip).toHaveBeenCalledWith(10);
+    expect(result.events).toEqual([
+      expect.objectContaining({ id: 'event1', byAdministrator: true, device: 'Chrome on Windows' }),
+      expect.objectContaining({ id: 'event2', byAdministrator: false }),
+    ]);
+    expect(result.events[0]).not.toHaveProperty('details');
+    expect(result).toMatchObject({ page: 2, limit: 10, total: 2 });
+  });
+
+  it('exports every event on a user, newest first', async () => {
+    const sort = jest.fn().mockResolvedValue([
+      { _id: { toString: () => 'event1' }, action: 'auth.login', outcome: 'success', details: { method: 'password' } },
+    ]);
+    (AuditEvent.find as jest.Mock).mockReturnValue({ sort });
+
+    const events = await AuditService.exportForUser('user1');
+
+    expect(AuditEvent.find).toHaveBeenCalledWith({ targetUserId: 'user1' });
+    expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+    expect(events).toEqual([expect.objectContaining({ id: 'event1', action: 'auth.login' })]);
+    expect(events[0]).not.toHaveProperty('details');
+  });
+
+  it('combines search filters, matching a user as actor or target', async () => {
+    mockFind([]);
+    const from = new Date('2026-01-01');
+
+    await AuditService.search({ userId: 'user1', outcome: 'failure', correlationId: 'req-1', from }, 1, 20);
+
+    expect(AuditEvent.find).toHaveBeenCalledWith({
+      $or: [{ actorId: 'user1' }, { targetUserId: 'user1' }],
+      outcome: 'failure',
+      correlationId: 'req-1',
+      createdAt: { $gte: from },
+    });
+  });
+});
@@ -1,15 +1,40 @@
 import { AuthService } from '../../src/services/auth.service';
 import { UserService } from '../../src/services/user.service';
 import { TokenService } from '../../src/services/token.service';
+import { RefreshTokenService } from '../../src/services/refreshToken.service';
+import { SessionService } from '../../src/services/session.service';
+import { AccessTokenDenylistRedisService, MagicLinkRedisService, MfaChallengeRedisService, SessionRedisService } from '../../src/services/redis.service';
+import { TwoFactorService } from '../../src/services/twoFactor.service';
+import { BackupCodeService } from '../../src/services/backupCode.service';
+import { PasskeyService } from '../../src/services/passkey.service';
+import { AuditService } from '../../src/services/audit.service';
+import { LockoutService } from '../../src/services/lockout.service';
 import { EmailService } from '../../src/utils/email/emailService';
-import * as bcrypt from '../../src/utils/encryption/bcrypt.encryption';
+import * as hashing from '../../src/utils/encryption/hashing.encryption';
 import HttpError from '../../src/utils/HttpError';
 import { UserDocument } from '../../src/models/user';
 
+jest.mock('../../src/utils/redisClient', () => ({
+  __esModule: true,
+  default: {
+    on: jest.fn(),
+    quit: jest.fn(),
+  },
+}));
+
 jest.mock('../../src/services/user.service');
 jest.mock('../../src/services/token.service');
+jest.mock('../../src/services/refreshToken.service');
+jest.mock('../../src/services/session.service');
+jest.mock('../../src/services/redis.service');
+jest.mock('../../src/services/twoFactor.service');
+jest.mock('../../src/services/backupCode.service');
+jest.mock('../../src/services/passkey.service');
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/services/lockout.service');
 jest.mock('../../src/utils/email/emailService');
-jest.mock('../../src/utils/encryption/bcrypt.encryption');
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/utils/encryption/hashing.encryption');
 
 describe('AuthService', () => {
   const mockUser = {
@@ -19,12 +44,14 @@ describe('AuthService', () => {
     verified: true,
   } as unknown as UserDocument;
 
+  const context = { ip: '127.0.0.1', userAgent: 'jest' };
+
   afterEach(() => jest.clearAllMocks());
 
   describe('registerUser', () => {
     it('should register a new user and send verification email', async () => {
-      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(null);
-      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed');
+      (UserService.isEmailTaken as jest.Mock).mockResolvedValue(false);
+      (hashing.hash as jest.Mock).mockResolvedValue('hashed');
       (UserService.createUser as jest.Mock).mockResolvedValue(mockUser);
       (TokenService.generateToken as jest.Mock).mockReturnValue('token');
       (EmailService.sendEmail as jest.Mock).mockResolvedValue(undefined);
@@ -41,7 +68,7 @@ describe('AuthService', () => {
     });
 
     it('should throw if user already exists', async () => {
-      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (UserService.isEmailTaken as jest.Mock).mockResolvedValue(true);
 
       await expect(AuthService.registerUser({
         email: 'test@example.com',
@@ -49,44 +76,498 @@ describe('AuthService', () => {
         firstName: 'Test',
         lastName: 'User',
       })).rejects.toThrow(HttpError);
+      expect(UserService.isEmailTaken).toHaveBeenCalledWith('test@example.com');
+      expect(UserService.createUser).not.toHaveBeenCalled();
     });
   });
 
   describe('loginUser', () => {
     it('should return tokens if credentials are valid', async () => {
       (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
-      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('accessToken').mockReturnValueOnce('refreshToken');
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('accessToken');
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('refreshToken');
 
-      const result = await AuthService.loginUser('test@example.com', 'pass1234');
+      const result = await AuthService.loginUser('test@example.com', 'pass1234', true, context);
       expect(result).toEqual({ accessToken: 'accessToken', refreshToken: 'refreshToken' });
+      expect(SessionService.createSession).toHaveBeenCalledWith('userId123', true, context);
+      expect(TokenService.generateToken).toHaveBeenCalledWith(
+        {
+          userId: 'userId123',
+          type: 'access',
+          sessionId: 'session1',
+          roles: ['user'],
+          permissions: ['posts:read', 'sessions:read'],
+          authzVersion: 0,
+        },
+        '1h'
+      );
+      expect(RefreshTokenService.issue).toHaveBeenCalledWith('session1', 'userId123');
+      expect(LockoutService.reset).toHaveBeenCalledWith(mockUser);
+      expect(AuditService.record).toHaveBeenCalledWith({
+        action: 'auth.login',
+        actorId: 'userId123',
+        targetUserId: 'userId123',
+        context,
+        details: { method: 'password', sessionId: 'session1' },
+      });
     });
 
     it('should throw if user not found', async () => {
       (UserService.getUserByEmail as jest.Mock).mockResolvedValue(null);
 
-      await expect(AuthService.loginUser('no@user.com', 'pass')).rejects.toThrow(HttpError);
+      await expect(AuthService.loginUser('no@user.com', 'pass', false, context)).rejects.toThrow(HttpError);
+      expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'auth.login',
+        actorId: undefined,
+        outcome: 'failure',
+        details: { email: 'no@user.com', method: 'password', reason: 'unknown_email' },
+      }));
     });
 
     it('should throw if password does not match', async () => {
       (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
 
-      await expect(AuthService.loginUser('test@example.com', 'wrongpass')).rejects.toThrow(HttpError);
+      await expect(AuthService.loginUser('test@example.com', 'wrongpass', false, context)).rejects.toThrow(HttpError);
+      expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'auth.login',
+        targetUserId: 'userId123',
+        outcome: 'failure',
+        details: expect.objectContaining({ reason: 'wrong_password' }),
+      }));
+    });
+
+    it('should count a wrong password towards the lockout', async () => {
+      const lockedError = new HttpError('Too many failed sign-in attempts.', 423);
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
+      (LockoutService.registerFailure as jest.Mock).mockResolvedValue(mockUser);
+      (LockoutService.isLocked as jest.Mock).mockReturnValueOnce(false).mockReturnValueOnce(true);
+      (LockoutService.lockedError as jest.Mock).mockReturnValue(lockedError);
+
+      await expect(AuthService.loginUser('test@example.com', 'wrongpass', false, context)).rejects.toBe(lockedError);
+      expect(LockoutService.registerFailure).toHaveBeenCalledWith(mockUser, context);
+    });
+
+    it('should refuse temporarily locked accounts without checking the password', async () => {
+      const lockedError = new HttpError('Too many failed sign-in attempts.', 423);
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (LockoutService.isLocked as jest.Mock).mockReturnValueOnce(true);
+      (LockoutService.lockedError as jest.Mock).mockReturnValue(lockedError);
+
+      await expect(AuthService.loginUser('test@example.com', 'pass1234', false, context)).rejects.toBe(lockedError);
+      expect(hashing.compare).not.toHaveBeenCalled();
+      expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        outcome: 'failure',
+        details: expect.objectContaining({ reason: 'temporarily_locked' }),
+      }));
     });
 
     it('should throw if email not verified', async () => {
       (UserService.getUserByEmail as jest.Mock).mockResolvedValue({ ...mockUser, verified: false });
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(AuthService.loginUser('test@example.com', 'pass', false, context)).rejects.toThrow(HttpError);
+    });
+
+    it('should refuse password sign-in while a password reset is required', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue({ ...mockUser, passwordResetRequired: true });
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(AuthService.loginUser('test@example.com', 'pass', false, context))
+        .rejects.toMatchObject({ statusCode: 403, meta: { passwordResetRequired: true } });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should rehash an outdated password hash after a successful sign-in', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+      (hashing.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      (hashing.hash as jest.Mock).mockResolvedValue('$argon2id$new');
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+
+      await AuthService.loginUser('test@example.com', 'pass1234', false, context);
 
-      await expect(AuthService.loginUser('test@example.com', 'pass')).rejects.toThrow(HttpError);
+      expect(hashing.needsRehash).toHaveBeenCalledWith('hashedPassword');
+      expect(hashing.hash).toHaveBeenCalledWith('pass1234');
+      expect(UserService.setPasswordHash).toHaveBeenCalledWith(mockUser, '$argon2id$new');
+    });
+
+    it('should sign in with the old hash when the rehash fails', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+      (hashing.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      (hashing.hash as jest.Mock).mockResolvedValue('$argon2id$new');
+      (UserService.setPasswordHash as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+
+      await expect(AuthService.loginUser('test@example.com', 'pass1234', false, context)).resolves.toBeDefined();
+      expect(SessionService.createSession).toHaveBeenCalled();
+    });
+
+    it('should not rehash after a wrong password', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
+      (hashing.needsRehash as jest.Mock).mockReturnValueOnce(true);
+      (LockoutService.registerFailure as jest.Mock).mockResolvedValue(mockUser);
+
+      await expect(AuthService.loginUser('test@example.com', 'wrong', false, context)).rejects.toThrow(HttpError);
+      expect(UserService.setPasswordHash).not.toHaveBeenCalled();
+    });
+
+    it('should refuse accounts scheduled for deletion', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue({ ...mockUser, deletionScheduledAt: new Date() });
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(AuthService.loginUser('test@example.com', 'pass', false, context))
+        .rejects.toMatchObject({ statusCode: 403, meta: { deletionScheduled: true } });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts before creating a session', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue({ ...mockUser, locked: true });
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(AuthService.loginUser('test@example.com', 'pass', false, context))
+        .rejects.toMatchObject({ statusCode: 403, meta: { accountLocked: true } });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should return an mfa_pending token instead of tokens if two-factor is enabled', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.isEnabled as jest.Mock).mockReturnValueOnce(true);
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('mfaToken');
+
+      const result = await AuthService.loginUser('test@example.com', 'pass1234', true, context);
+
+      expect(result).toEqual({ mfaToken: 'mfaToken' });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+      const jti = (MfaChallengeRedisService.createChallenge as jest.Mock).mock.calls[0][0];
+      expect(MfaChallengeRedisService.createChallenge).toHaveBeenCalledWith(jti, 'userId123', true, 300);
+      expect(TokenService.generateToken).toHaveBeenCalledWith(
+        { userId: 'userId123', type: 'mfa_pending', jti },
+        '5m'
+      );
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    it('should store a single-use jti and email a 15 minute link', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('magicToken');
+
+      await AuthService.requestMagicLink('test@example.com', true);
+
+      const jti = (MagicLinkRedisService.setLink as jest.Mock).mock.calls[0][0];
+      expect(MagicLinkRedisService.setLink).toHaveBeenCalledWith(jti, 'userId123', true, 900);
+      expect(TokenService.generateToken).toHaveBeenCalledWith({ userId: 'userId123', type: 'magic', jti }, 900);
+      expect(EmailService.sendEmail).toHaveBeenCalledWith('MAGIC_LINK', {
+        user: mockUser,
+        magicLink: expect.stringContaining('/magic-link?token=magicToken'),
+      });
+    });
+
+    it('should silently skip unknown or unverified emails', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValueOnce(null);
+      await AuthService.requestMagicLink('no@user.com', false);
+
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValueOnce({ ...mockUser, verified: false });
+      await AuthService.requestMagicLink('test@example.com', false);
+
+      expect(MagicLinkRedisService.setLink).not.toHaveBeenCalled();
+      expect(EmailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeMagicLink', () => {
+    const magicPayload = { userId: 'userId123', type: 'magic', jti: 'magicJti' };
+
+    it('should issue tokens the same way loginUser does', async () => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue(magicPayload);
+      (MagicLinkRedisService.consumeLink as jest.Mock).mockResolvedValue({ userId: 'userId123', rememberMe: true });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('accessToken');
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('refreshToken');
+
+      const { result, persistent } = await AuthService.consumeMagicLink('magicToken', context);
+
+      expect(result).toEqual({ accessToken: 'accessToken', refreshToken: 'refreshToken' });
+      expect(persistent).toBe(true);
+      expect(MagicLinkRedisService.consumeLink).toHaveBeenCalledWith('magicJti');
+      expect(SessionService.createSession).toHaveBeenCalledWith('userId123', true, context);
+    });
+
+    it('should refuse sign-in while a password reset is required', async () => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue(magicPayload);
+      (MagicLinkRedisService.consumeLink as jest.Mock).mockResolvedValue({ userId: 'userId123', rememberMe: false });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, passwordResetRequired: true });
+
+      await expect(AuthService.consumeMagicLink('magicToken', context))
+        .rejects.toMatchObject({ statusCode: 403, meta: { passwordResetRequired: true } });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link that was already used', async () => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue(magicPayload);
+      (MagicLinkRedisService.consumeLink as jest.Mock).mockResolvedValue(null);
+
+      await expect(AuthService.consumeMagicLink('magicToken', context)).rejects.toMatchObject({ statusCode: 401 });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject other token types', async () => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue({ ...magicPayload, type: 'verification' });
+
+      await expect(AuthService.consumeMagicLink('verificationToken', context)).rejects.toMatchObject({ statusCode: 401 });
+      expect(MagicLinkRedisService.consumeLink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueLoginTicket', () => {
+    it('should store a magic-link jti that expires within a minute', async () => {
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('ticket');
+
+      const ticket = await AuthService.issueLoginTicket('userId123', true);
+
+      expect(ticket).toBe('ticket');
+      expect(MagicLinkRedisService.setLink).toHaveBeenCalledWith(expect.any(String), 'userId123', true, 60);
+      expect(TokenService.generateToken).toHaveBeenCalledWith(
+        { userId: 'userId123', type: 'magic', jti: expect.any(String) },
+        60
+      );
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const assertion = { id: 'credential1' } as any;
+
+    it('should issue tokens for a user-verified passkey even with two-factor enabled', async () => {
+      (PasskeyService.verifyAuthentication as jest.Mock).mockResolvedValue({ userId: 'userId123', userVerified: true });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (TwoFactorService.isEnabled as jest.Mock).mockReturnValueOnce(true);
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('accessToken');
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('refreshToken');
+
+      const result = await AuthService.loginWithPasskey('challenge1', assertion, false, context);
+
+      expect(result).toEqual({ accessToken: 'accessToken', refreshToken: 'refreshToken' });
+      expect(PasskeyService.verifyAuthentication).toHaveBeenCalledWith('challenge1', assertion);
+      expect(SessionService.createSession).toHaveBeenCalledWith('userId123', false, context);
+    });
+
+    it('should require the second factor when the passkey did not verify the user', async () => {
+      (PasskeyService.verifyAuthentication as jest.Mock).mockResolvedValue({ userId: 'userId123', userVerified: false });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (TwoFactorService.isEnabled as jest.Mock).mockReturnValueOnce(true);
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('mfaToken');
+
+      const result = await AuthService.loginWithPasskey('challenge1', assertion, false, context);
+
+      expect(result).toEqual({ mfaToken: 'mfaToken' });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should not start a two-factor challenge for locked accounts', async () => {
+      (PasskeyService.verifyAuthentication as jest.Mock).mockResolvedValue({ userId: 'userId123', userVerified: false });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, locked: true });
+      (TwoFactorService.isEnabled as jest.Mock).mockReturnValueOnce(true);
+
+      await expect(AuthService.loginWithPasskey('challenge1', assertion, false, context)).rejects.toMatchObject({ statusCode: 403 });
+      expect(MfaChallengeRedisService.createChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should refuse passkey sign-in while a password reset is required', async () => {
+      (PasskeyService.verifyAuthentication as jest.Mock).mockResolvedValue({ userId: 'userId123', userVerified: true });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, passwordResetRequired: true });
+
+      await expect(AuthService.loginWithPasskey('challenge1', assertion, false, context))
+        .rejects.toMatchObject({ statusCode: 403, meta: { passwordResetRequired: true } });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject passkeys of users who have not verified their email', async () => {
+      (PasskeyService.verifyAuthentication as jest.Mock).mockResolvedValue({ userId: 'userId123', userVerified: true });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, verified: false });
+
+      await expect(AuthService.loginWithPasskey('challenge1', assertion, false, context)).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('completeMfaLogin', () => {
+    const mfaPayload = { userId: 'userId123', type: 'mfa_pending', jti: 'mfaJti' };
+
+    beforeEach(() => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue(mfaPayload);
+      (MfaChallengeRedisService.getChallenge as jest.Mock).mockResolvedValue({
+        userId: 'userId123',
+        rememberMe: true,
+        attemptsLeft: 5,
+      });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (TwoFactorService.isEnabled as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should consume the challenge and issue tokens for a valid code', async () => {
+      (TwoFactorService.verifyTotpCode as jest.Mock).mockResolvedValue(true);
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+      (TokenService.generateToken as jest.Mock).mockReturnValueOnce('accessToken');
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('refreshToken');
+
+      const result = await AuthService.completeMfaLogin('mfaToken', { code: '123456' }, context);
+
+      expect(result).toEqual({ accessToken: 'accessToken', refreshToken: 'refreshToken', persistent: true });
+      expect(MfaChallengeRedisService.deleteChallenge).toHaveBeenCalledWith('mfaJti');
+      expect(SessionService.createSession).toHaveBeenCalledWith('userId123', true, context);
+    });
+
+    it('should accept a backup code in place of an authenticator code', async () => {
+      (BackupCodeService.consume as jest.Mock).mockResolvedValue(true);
+      (SessionService.createSession as jest.Mock).mockResolvedValue({ id: 'session1' });
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('refreshToken');
+
+      await AuthService.completeMfaLogin('mfaToken', { backupCode: 'abcde-fghjk' }, context);
+
+      expect(BackupCodeService.consume).toHaveBeenCalledWith(mockUser, 'abcde-fghjk', 'login');
+      expect(TwoFactorService.verifyTotpCode).not.toHaveBeenCalled();
+      expect(MfaChallengeRedisService.deleteChallenge).toHaveBeenCalledWith('mfaJti');
+    });
+
+    it('should report remaining attempts for an invalid code', async () => {
+      (TwoFactorService.verifyTotpCode as jest.Mock).mockResolvedValue(false);
+      (MfaChallengeRedisService.decreaseAttempts as jest.Mock).mockResolvedValue(4);
+
+      await expect(AuthService.completeMfaLogin('mfaToken', { code: '000000' }, context)).rejects.toMatchObject({
+        statusCode: 401,
+        meta: { attemptsLeft: 4 },
+      });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject a challenge that was already used or expired', async () => {
+      (MfaChallengeRedisService.getChallenge as jest.Mock).mockResolvedValue(null);
+
+      await expect(AuthService.completeMfaLogin('mfaToken', { code: '123456' }, context)).rejects.toThrow(HttpError);
+      expect(TwoFactorService.verifyTotpCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens that are not mfa_pending tokens', async () => {
+      (TokenService.verifyToken as jest.Mock).mockReturnValue({ ...mfaPayload, type: 'access' });
+
+      await expect(AuthService.completeMfaLogin('accessToken', { code: '123456' }, context)).rejects.toThrow(HttpError);
+      expect(MfaChallengeRedisService.getChallenge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshTokens', () => {
+    it('should rotate the refresh token and issue a new access token', async () => {
+      (RefreshTokenService.rotate as jest.Mock).mockResolvedValue({
+        userId: 'userId123',
+        sessionId: 'session1',
+        refreshToken: 'rotatedRefreshToken',
+        persistent: true,
+      });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (TokenService.generateToken as jest.Mock).mockReturnValue('accessToken');
+
+      const result = await AuthService.refreshTokens('oldRefreshToken', context);
+      expect(result).toEqual({ accessToken: 'accessToken', refreshToken: 'rotatedRefreshToken', persistent: true });
+      expect(SessionService.touch).toHaveBeenCalledWith('userId123', 'session1', context);
+    });
+
+    it('should embed the current roles, so role changes apply on the next refresh', async () => {
+      (RefreshTokenService.rotate as jest.Mock).mockResolvedValue({
+        userId: 'userId123',
+        sessionId: 'session1',
+        refreshToken: 'rotatedRefreshToken',
+        persistent: false,
+      });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, roles: ['moderator'], authzVersion: 4 });
+      (TokenService.generateToken as jest.Mock).mockReturnValue('accessToken');
+
+      await AuthService.refreshTokens('oldRefreshToken', context);
+
+      expect(TokenService.generateToken).toHaveBeenCalledWith(expect.objectContaining({
+        roles: ['moderator'],
+        permissions: ['posts:read', 'posts:write', 'sessions:read'],
+        authzVersion: 4,
+      }), '1h');
+    });
+
+    it('should audit refresh tokens that fail to rotate', async () => {
+      (RefreshTokenService.rotate as jest.Mock).mockRejectedValue(new HttpError('Refresh token has been revoked.', 401));
+
+      await expect(AuthService.refreshTokens('reusedRefreshToken', context)).rejects.toMatchObject({ statusCode: 401 });
+      expect(AuditService.record).toHaveBeenCalledWith({
+        action: 'auth.token_refresh',
+        outcome: 'failure',
+        context,
+        details: { reason: 'Refresh token has been revoked.' },
+      });
+    });
+
+    it('should revoke the session and throw if user no longer exists', async () => {
+      (RefreshTokenService.rotate as jest.Mock).mockResolvedValue({
+        userId: 'userId123',
+        sessionId: 'session1',
+        refreshToken: 'rotatedRefreshToken',
+        persistent: false,
+      });
+      (UserService.getUserById as jest.Mock).mockResolvedValue(null);
+
+      await expect(AuthService.refreshTokens('oldRefreshToken', context)).rejects.toThrow(HttpError);
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('userId123', 'session1');
+    });
+
+    it('should revoke the session of a locked user instead of refreshing it', async () => {
+      (RefreshTokenService.rotate as jest.Mock).mockResolvedValue({
+        userId: 'userId123',
+        sessionId: 'session1',
+        refreshToken: 'rotatedRefreshToken',
+        persistent: false,
+      });
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, locked: true });
+
+      await expect(AuthService.refreshTokens('oldRefreshToken', context)).rejects.toMatchObject({ statusCode: 403 });
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('userId123', 'session1');
+      expect(TokenService.generateToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    const accessToken = { userId: 'userId123', type: 'access' as const, sessionId: 'session1', jti: 'jti1', exp };
+
+    it('should revoke the current session and denylist the access token', async () => {
+      await AuthService.logout(accessToken);
+
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('userId123', 'session1');
+      expect(AccessTokenDenylistRedisService.add).toHaveBeenCalledWith('jti1', expect.any(Number));
+      const ttl = (AccessTokenDenylistRedisService.add as jest.Mock).mock.calls[0][1];
+      expect(ttl).toBeGreaterThan(590);
+      expect(ttl).toBeLessThanOrEqual(600);
+    });
+
+    it('should revoke every session on logoutAll', async () => {
+      (SessionService.revokeAllSessions as jest.Mock).mockResolvedValue(3);
+
+      const result = await AuthService.logoutAll(accessToken);
+
+      expect(result).toBe(3);
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('userId123');
+      expect(AccessTokenDenylistRedisService.add).toHaveBeenCalledWith('jti1', expect.any(Number));
     });
   });
 
   describe('changePassword', () => {
     it('should update the user password', async () => {
       (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
-      (bcrypt.hash as jest.Mock).mockResolvedValue('newHashed');
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
+      (hashing.hash as jest.Mock).mockResolvedValue('newHashed');
       (UserService.changePassword as jest.Mock).mockResolvedValue({ ...mockUser, password: 'newHashed' });
 
       const result = await AuthService.changePassword('test@example.com', 'newPass');
@@ -98,5 +579,67 @@ describe('AuthService', () => {
 
       await expect(AuthService.changePassword('not@found.com', 'newPass')).rejects.toThrow(HttpError);
     });
+
+    it('should refuse a new password containing the email address', async () => {
+      (UserService.getUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
+
+      await expect(AuthService.changePassword('test@example.com', 'Test#Kx7qLm2v'))
+        .rejects.toMatchObject({ statusCode: 400, details: { newPassword: [expect.stringMatching(/name or email/)] } });
+      expect(UserService.changePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updatePassword', () => {
+    it('should change the password, revoke other sessions and reissue the refresh token', async () => {
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      // The current password matches; the new one does not match it.
+      (hashing.compare as jest.Mock).mockResolvedValueOnce(true).mockResolvedValue(false);
+      (hashing.hash as jest.Mock).mockResolvedValue('newHashed');
+      (UserService.changePassword as jest.Mock).mockResolvedValue({ ...mockUser, password: 'newHashed' });
+      (SessionService.revokeAllSessions as jest.Mock).mockResolvedValue(3);
+      (SessionRedisService.getSession as jest.Mock).mockResolvedValue({ persistent: true });
+      (RefreshTokenService.issue as jest.Mock).mockResolvedValue('newRefreshToken');
+
+      const result = await AuthService.updatePassword('userId123', 'session1', 'OldPass1!', 'NewPass1!');
+
+      expect(hashing.compare).toHaveBeenCalledWith('OldPass1!', 'hashedPassword');
+      expect(UserService.changePassword).toHaveBeenCalledWith(mockUser, 'newHashed');
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('userId123', 'session1');
+      expect(RefreshTokenService.issue).toHaveBeenCalledWith('session1', 'userId123');
+      expect(result).toMatchObject({ refreshToken: 'newRefreshToken', persistent: true, revokedSessions: 3 });
+    });
+
+    it('should refuse a wrong current password without changing anything', async () => {
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(false);
+
+      await expect(AuthService.updatePassword('userId123', 'session1', 'wrong', 'NewPass1!'))
+        .rejects.toMatchObject({ statusCode: 400, details: { currentPassword: expect.any(Array) } });
+      expect(UserService.changePassword).not.toHaveBeenCalled();
+      expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a password used recently', async () => {
+      (UserService.getUserById as jest.Mock).mockResolvedValue({ ...mockUser, passwordHistory: ['olderHash'] });
+      (hashing.compare as jest.Mock).mockImplementation(async (password: string, hashed: string) =>
+        hashed === 'hashedPassword' ? password === 'OldPass1!' : password === 'Older#Pass1x'
+      );
+
+      await expect(AuthService.updatePassword('userId123', 'session1', 'OldPass1!', 'Older#Pass1x'))
+        .rejects.toMatchObject({ statusCode: 400, details: { newPassword: [expect.stringMatching(/last \d+ passwords/)] } });
+      expect(hashing.compare).toHaveBeenCalledWith('Older#Pass1x', 'olderHash');
+      expect(UserService.changePassword).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the current password without hashing it again', async () => {
+      (UserService.getUserById as jest.Mock).mockResolvedValue(mockUser);
+      (hashing.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(AuthService.updatePassword('userId123', 'session1', 'OldPass1!', 'OldPass1!'))
+        .rejects.toMatchObject({ statusCode: 400, details: { newPassword: [expect.stringMatching(/last \d+ passwords/)] } });
+      expect(hashing.compare).toHaveBeenCalledTimes(1);
+      expect(UserService.changePassword).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { BackupCodeService } from '../../src/services/backupCode.service';
+import { ReauthService } from '../../src/services/reauth.service';
+import { UserService } from '../../src/services/user.service';
+import { EmailService } from '../../src/utils/email/emailService';
+import { compare } from '../../src/utils/encryption/hashing.encryption';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/reauth.service');
+jest.mock('../../src/utils/email/emailService');
+jest.mock('../../src/utils/logger');
+
+const buildUser = () => ({
+  _id: 'user123',
+  email: 'test@example.com',
+  backupCodes: [] as string[],
+}) as unknown as UserDocument;
+
+describe('BackupCodeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.setBackupCodes as jest.Mock).mockImplementation(async (user, hashedCodes) => {
+      user.backupCodes = hashedCodes;
+      return user;
+    });
+    (UserService.removeBackupCode as jest.Mock).mockImplementation(async (user, hashedCode) => {
+      if (!user.backupCodes.includes(hashedCode)) return null;
+      user.backupCodes = user.backupCodes.filter((stored: string) => stored !== hashedCode);
+      return user;
+    });
+  });
+
+  const proof = { password: 'Current#Pass1' };
+
+  describe('generateCode', () => {
+    it('should generate a dashed code without ambiguous characters', () => {
+      const code = BackupCodeService.generateCode();
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+    });
+  });
+
+  describe('regenerate', () => {
+    it('should store ten hashed codes and return the plain ones', async () => {
+      const user = buildUser();
+
+      const codes = await BackupCodeService.regenerate(user, proof);
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(user.backupCodes).toHaveLength(10);
+      expect(user.backupCodes).not.toContain(codes[0]);
+      expect(user.backupCodes![0]).toMatch(/^\$argon2id\$v=19\$m=4096,/);
+      await expect(compare(BackupCodeService.normalize(codes[0]), user.backupCodes![0])).resolves.toBe(true);
+      expect(BackupCodeService.countRemaining(user)).toBe(10);
+      expect(ReauthService.verify).toHaveBeenCalledWith(user, proof);
+      expect(EmailService.sendEmail).toHaveBeenCalledWith('BACKUP_CODES_REGENERATED', { user });
+    });
+
+    it('should keep the old codes when re-authentication fails', async () => {
+      const user = buildUser();
+      (ReauthService.verify as jest.Mock).mockRejectedValueOnce(new Error('Password is incorrect.'));
+
+      await expect(BackupCodeService.regenerate(user, { password: 'wrong' })).rejects.toThrow('Password is incorrect.');
+      expect(UserService.setBackupCodes).not.toHaveBeenCalled();
+      expect(EmailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consume', () => {
+    it('should accept a code once, remove it and notify the user', async () => {
+      const user = buildUser();
+      const [code] = await BackupCodeService.regenerate(user, proof);
+
+      await expect(BackupCodeService.consume(user, code, 'password-reset')).resolves.toBe(true);
+      expect(BackupCodeService.countRemaining(user)).toBe(9);
+      expect(EmailService.sendEmail).toHaveBeenCalledWith('BACKUP_CODE_USED', {
+        user,
+        usage: 'password-reset',
+        remainingCodes: 9,
+      });
+
+      await expect(BackupCodeService.consume(user, code, 'password-reset')).resolves.toBe(false);
+      expect(BackupCodeService.countRemaining(user)).toBe(9);
+    });
+
+    it('should ignore case, whitespace and the dash', async () => {
+      const user = buildUser();
+      const [code] = await BackupCodeService.regenerate(user, proof);
+
+      const typed = ` ${code.replace('-', '').toUpperCase()} `;
+      await expect(BackupCodeService.consume(user, typed, 'login')).resolves.toBe(true);
+    });
+
+    it('should reject unknown codes without touching the stored ones', async () => {
+      const user = buildUser();
+      await BackupCodeService.regenerate(user, proof);
+      jest.clearAllMocks();
+
+      await expect(BackupCodeService.consume(user, 'aaaaa-aaaaa', 'login')).resolves.toBe(false);
+      expect(UserService.removeBackupCode).not.toHaveBeenCalled();
+      expect(EmailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a code a concurrent request spent first', async () => {
+      const user = buildUser();
+      const [code] = await BackupCodeService.regenerate(user, proof);
+      jest.clearAllMocks();
+      (UserService.removeBackupCode as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(BackupCodeService.consume(user, code, 'login')).resolves.toBe(false);
+      expect(EmailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should still accept the code if the notification email fails', async () => {
+      const user = buildUser();
+      const [code] = await BackupCodeService.regenerate(user, proof);
+      (EmailService.sendEmail as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+      await expect(BackupCodeService.consume(user, code, 'login')).resolves.toBe(true);
+    });
+  });
+});
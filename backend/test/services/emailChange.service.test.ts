@@ -0,0 +1,136 @@
+import Redis from 'ioredis-mock';
+import { EmailChangeService } from '../../src/services/emailChange.service';
+import { UserService } from '../../src/services/user.service';
+import { AuditService } from '../../src/services/audit.service';
+import { EmailService } from '../../src/utils/email/emailService';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/utils/email/emailService');
+jest.mock('../../src/env', () => ({
+  env: {
+    accessTokenSecret: 'mock-access-secret',
+    refreshTokenSecret: 'mock-refresh-secret',
+    verificationTokenSecret: 'mock-verification-secret',
+    accessTokenAlgorithm: 'HS256',
+    jwtClaims: {
+      access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+    },
+    jwtClockToleranceSeconds: 0,
+    backendDomain: 'http://localhost:3000',
+  },
+}));
+
+describe('EmailChangeService', () => {
+  const context = { ip: '10.0.0.1', userAgent: 'jest' };
+
+  let user: UserDocument;
+
+  const linkToken = (type: 'EMAIL_CHANGE_CONFIRM' | 'EMAIL_CHANGE_NOTICE') => {
+    const call = (EmailService.sendEmail as jest.Mock).mock.calls.find(([emailType]) => emailType === type);
+    const { confirmationLink, cancelLink } = call[1];
+    return new URL(confirmationLink ?? cancelLink).searchParams.get('token')!;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    user = {
+      _id: { toString: () => 'user123' },
+      email: 'old@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+    } as unknown as UserDocument;
+
+    (UserService.getUserById as jest.Mock).mockImplementation(async () => user);
+    (UserService.isEmailTaken as jest.Mock).mockResolvedValue(false);
+    (UserService.setPendingEmail as jest.Mock).mockImplementation(async (current, pendingEmail, expiresAt) => {
+      user = { ...current, pendingEmail, pendingEmailExpiresAt: expiresAt };
+      return user;
+    });
+    (UserService.clearPendingEmail as jest.Mock).mockImplementation(async (current) => {
+      user = { ...current, pendingEmail: undefined, pendingEmailExpiresAt: undefined };
+      return user;
+    });
+    (UserService.applyPendingEmail as jest.Mock).mockImplementation(async (current) => {
+      user = { ...current, email: current.pendingEmail, pendingEmail: undefined, verified: true };
+      return user;
+    });
+  });
+
+  it('records the pending email and mails both the new and the current address', async () => {
+    const updated = await EmailChangeService.requestChange('user123', 'new@example.com', context);
+
+    expect(updated.email).toBe('old@example.com');
+    expect(updated.pendingEmail).toBe('new@example.com');
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('EMAIL_CHANGE_CONFIRM', expect.objectContaining({
+      newEmail: 'new@example.com',
+      confirmationLink: expect.stringMatching(/^http:\/\/localhost:3000\/api\/v1\/confirm-email-change\?token=/),
+    }));
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('EMAIL_CHANGE_NOTICE', expect.objectContaining({
+      user: expect.objectContaining({ email: 'old@example.com' }),
+      cancelLink: expect.stringMatching(/^http:\/\/localhost:3000\/api\/v1\/cancel-email-change\?token=/),
+    }));
+  });
+
+  it('refuses addresses used or pending on another account', async () => {
+    (UserService.isEmailTaken as jest.Mock).mockResolvedValue(true);
+
+    await expect(EmailChangeService.requestChange('user123', 'taken@example.com', context))
+      .rejects.toMatchObject({ statusCode: 400, details: { email: ['Email already in use.'] } });
+    expect(UserService.isEmailTaken).toHaveBeenCalledWith('taken@example.com', 'user123');
+    expect(UserService.setPendingEmail).not.toHaveBeenCalled();
+    expect(EmailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('refuses the current address', async () => {
+    await expect(EmailChangeService.requestChange('user123', 'old@example.com', context))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('switches the email once confirmed, and only once', async () => {
+    await EmailChangeService.requestChange('user123', 'new@example.com', context);
+    const token = linkToken('EMAIL_CHANGE_CONFIRM');
+
+    const updated = await EmailChangeService.confirmChange(token, context);
+
+    expect(updated).toMatchObject({ email: 'new@example.com', verified: true });
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.email_changed',
+      details: { previousEmail: 'old@example.com', newEmail: 'new@example.com' },
+    }));
+    await expect(EmailChangeService.confirmChange(token, context)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('keeps the current email when the change is cancelled, and voids the confirmation link', async () => {
+    await EmailChangeService.requestChange('user123', 'new@example.com', context);
+    const confirmToken = linkToken('EMAIL_CHANGE_CONFIRM');
+
+    const updated = await EmailChangeService.cancelChange(linkToken('EMAIL_CHANGE_NOTICE'), context);
+
+    expect(updated).toMatchObject({ email: 'old@example.com', pendingEmail: undefined });
+    await expect(EmailChangeService.confirmChange(confirmToken, context)).rejects.toMatchObject({ statusCode: 401 });
+    expect(UserService.applyPendingEmail).not.toHaveBeenCalled();
+  });
+
+  it('does not accept the cancel link as a confirmation', async () => {
+    await EmailChangeService.requestChange('user123', 'new@example.com', context);
+
+    await expect(EmailChangeService.confirmChange(linkToken('EMAIL_CHANGE_NOTICE'), context))
+      .rejects.toMatchObject({ statusCode: 401 });
+    expect(UserService.applyPendingEmail).not.toHaveBeenCalled();
+  });
+
+  it('drops the change if the address was registered while it was pending', async () => {
+    await EmailChangeService.requestChange('user123', 'new@example.com', context);
+    (UserService.isEmailTaken as jest.Mock).mockResolvedValue(true);
+
+    await expect(EmailChangeService.confirmChange(linkToken('EMAIL_CHANGE_CONFIRM'), context))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(UserService.clearPendingEmail).toHaveBeenCalled();
+    expect(UserService.applyPendingEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import Redis from 'ioredis-mock';
+import { LockoutService } from '../../src/services/lockout.service';
+import { UserService } from '../../src/services/user.service';
+import { AuditService } from '../../src/services/audit.service';
+import { EmailService } from '../../src/utils/email/emailService';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/audit.service');
+jest.mock('../../src/utils/email/emailService');
+jest.mock('../../src/env', () => ({
+  env: {
+    accessTokenSecret: 'mock-access-secret',
+    refreshTokenSecret: 'mock-refresh-secret',
+    verificationTokenSecret: 'mock-verification-secret',
+    accessTokenAlgorithm: 'HS256',
+    jwtClaims: {
+      access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+      verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000' },
+    },
+    jwtClockToleranceSeconds: 0,
+    backendDomain: 'http://localhost:3000',
+    accountLockout: { threshold: 5, baseSeconds: 60, maxSeconds: 86400 },
+  },
+}));
+
+describe('LockoutService', () => {
+  const context = { ip: '10.0.0.1', userAgent: 'jest' };
+
+  const makeUser = (overrides = {}) => ({
+    _id: { toString: () => 'user123' },
+    email: 'jane@example.com',
+    failedLoginAttempts: 0,
+    ...overrides,
+  }) as unknown as UserDocument;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.setLockedUntil as jest.Mock).mockImplementation(async (user, lockedUntil) => ({ ...user, lockedUntil }));
+    (UserService.resetFailedLogins as jest.Mock).mockImplementation(async (user) => ({ ...user, failedLoginAttempts: 0, lockedUntil: undefined }));
+  });
+
+  it('doubles the lock duration after each failure past the threshold, up to the maximum', () => {
+    expect(LockoutService.lockDurationSeconds(4)).toBe(0);
+    expect(LockoutService.lockDurationSeconds(5)).toBe(60);
+    expect(LockoutService.lockDurationSeconds(6)).toBe(120);
+    expect(LockoutService.lockDurationSeconds(8)).toBe(480);
+    expect(LockoutService.lockDurationSeconds(500)).toBe(86400);
+  });
+
+  it('only counts failures below the threshold', async () => {
+    (UserService.incrementFailedLogins as jest.Mock).mockResolvedValue(makeUser({ failedLoginAttempts: 3 }));
+
+    const updated = await LockoutService.registerFailure(makeUser(), context);
+
+    expect(UserService.incrementFailedLogins).toHaveBeenCalledWith('user123');
+    expect(LockoutService.isLocked(updated)).toBe(false);
+    expect(UserService.setLockedUntil).not.toHaveBeenCalled();
+  });
+
+  it('locks the account and emails an unlock link when the threshold is reached', async () => {
+    (UserService.incrementFailedLogins as jest.Mock).mockResolvedValue(makeUser({ failedLoginAttempts: 5 }));
+
+    const updated = await LockoutService.registerFailure(makeUser(), context);
+
+    expect(LockoutService.isLocked(updated)).toBe(true);
+    expect(updated.lockedUntil!.getTime()).toBeGreaterThan(Date.now() + 55 * 1000);
+    expect(EmailService.sendEmail).toHaveBeenCalledWith('ACCOUNT_LOCKED', {
+      user: expect.objectContaining({ email: 'jane@example.com' }),
+      unlockLink: expect.stringMatching(/^http:\/\/localhost:3000\/api\/v1\/unlock-account\?token=/),
+    });
+    expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.account_locked',
+      details: { failedAttempts: 5, lockSeconds: 60 },
+    }));
+  });
+
+  it('extends the lock without emailing again on later failures', async () => {
+    (UserService.incrementFailedLogins as jest.Mock).mockResolvedValue(makeUser({ failedLoginAttempts: 7 }));
+
+    await LockoutService.registerFailure(makeUser(), context);
+
+    expect(UserService.setLockedUntil).toHaveBeenCalled();
+    expect(EmailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('reports the remaining lock time in the error', () => {
+    const error = LockoutService.lockedError(makeUser({ lockedUntil: new Date(Date.now() + 90 * 1000) }));
+
+    expect(error).toMatchObject({ statusCode: 423, meta: { retryAfterSeconds: 90 } });
+  });
+
+  it('unlocks the account with a single-use link', async () => {
+    const user = makeUser({ failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60 * 1000) });
+    (UserService.getUserById as jest.Mock).mockResolvedValue(user);
+
+    await LockoutService.sendUnlockEmail(user);
+    const { unlockLink } = (EmailService.sendEmail as jest.Mock).mock.calls[0][1];
+    const token = new URL(unlockLink).searchParams.get('token')!;
+
+    const unlocked = await LockoutService.unlockWithToken(token, context);
+
+    expect(LockoutService.isLocked(unlocked)).toBe(false);
+    expect(UserService.resetFailedLogins).toHaveBeenCalledWith(user);
+    await expect(LockoutService.unlockWithToken(token, context)).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,247 @@
+import Redis from 'ioredis-mock';
+import { OAuthService } from '../../src/services/oauth.service';
+import { UserService } from '../../src/services/user.service';
+import { LockoutService } from '../../src/services/lockout.service';
+import { env } from '../../src/env';
+import { hash } from '../../src/utils/encryption/hashing.encryption';
+import HttpError from '../../src/utils/HttpError';
+import { MockOidcProvider } from '../helpers/mockOidcProvider';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/services/lockout.service', () => ({
+  LockoutService: {
+    isLocked: jest.fn(),
+    lockedError: jest.fn(),
+    registerFailure: jest.fn(),
+    reset: jest.fn(),
+  },
+}));
+jest.mock('../../src/env', () => ({
+  env: {
+    bcryptSaltRounds: 4,
+    passwordHashAlgorithm: 'bcrypt',
+    oauth: {
+      callbackBaseUrl: 'http://localhost:3000/api/v1/oauth',
+      oidc: {
+        name: 'acme',
+        issuer: '',
+        clientId: 'client-1',
+        clientSecret: 'secret-1',
+        scopes: ['openid', 'email', 'profile'],
+      },
+    },
+  },
+}));
+
+const mockedUserService = UserService as jest.Mocked<typeof UserService>;
+const mockedLockoutService = LockoutService as jest.Mocked<typeof LockoutService>;
+
+describe('OAuthService', () => {
+  const provider = new MockOidcProvider('client-1', 'secret-1');
+
+  beforeAll(async () => {
+    env.oauth.oidc!.issuer = await provider.start();
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider.user = {
+      sub: 'oidc-user-1',
+      email: 'jane@example.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe',
+    };
+    mockedUserService.getUserByOAuthAccount.mockResolvedValue(null);
+    mockedUserService.getUserByEmail.mockResolvedValue(null);
+  });
+
+  const signIn = async (rememberMe = false) => {
+    const { url } = await OAuthService.createAuthorizationUrl('acme', rememberMe);
+    const { code, state } = await provider.approve(url);
+    return OAuthService.handleCallback('acme', code, state, state);
+  };
+
+  it('lists the configured providers', () => {
+    expect(OAuthService.listProviders()).toEqual(['acme']);
+  });
+
+  it('builds an authorization URL with state and an S256 PKCE challenge', async () => {
+    const { url: authorizationUrl, state } = await OAuthService.createAuthorizationUrl('acme', false);
+    const url = new URL(authorizationUrl);
+
+    expect(url.origin).toBe(env.oauth.oidc!.issuer);
+    expect(url.searchParams.get('client_id')).toBe('client-1');
+    expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/v1/oauth/acme/callback');
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBe(state);
+  });
+
+  it('rejects unknown providers', async () => {
+    await expect(OAuthService.createAuthorizationUrl('nope', false))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('logs in a user whose provider account is already linked', async () => {
+    mockedUserService.getUserByOAuthAccount.mockResolvedValue({ _id: 'user123' } as any);
+
+    const result = await signIn(true);
+
+    expect(mockedUserService.getUserByOAuthAccount).toHaveBeenCalledWith('acme', 'oidc-user-1');
+    expect(result).toEqual({ type: 'login', userId: 'user123', rememberMe: true });
+  });
+
+  it('creates a verified user for a new provider account', async () => {
+    mockedUserService.createOAuthUser.mockResolvedValue({ _id: 'new-user' } as any);
+
+    const result = await signIn();
+
+    expect(mockedUserService.createOAuthUser).toHaveBeenCalledWith(
+      expect.objectContaining({ firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com', verified: true }),
+      { provider: 'acme', providerUserId: 'oidc-user-1' }
+    );
+    expect(result).toEqual({ type: 'login', userId: 'new-user', rememberMe: false });
+  });
+
+  it('asks to link instead of logging in when the email belongs to an existing user', async () => {
+    mockedUserService.getUserByEmail.mockResolvedValue({ _id: 'user123', email: 'jane@example.com' } as any);
+
+    const result = await signIn();
+
+    expect(result).toMatchObject({ type: 'link', provider: 'acme', email: 'jane@example.com' });
+    expect(mockedUserService.createOAuthUser).not.toHaveBeenCalled();
+  });
+
+  it('refuses provider accounts without a verified email', async () => {
+    provider.user.email_verified = false;
+
+    await expect(signIn()).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockedUserService.getUserByEmail).not.toHaveBeenCalled();
+  });
+
+  it('rejects a reused state', async () => {
+    const { url } = await OAuthService.createAuthorizationUrl('acme', false);
+    const { code, state } = await provider.approve(url);
+    await OAuthService.handleCallback('acme', code, state, state);
+
+    await expect(OAuthService.handleCallback('acme', code, state, state))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('rejects a callback in a browser that did not start the flow', async () => {
+    const { url } = await OAuthService.createAuthorizationUrl('acme', false);
+    const { code, state } = await provider.approve(url);
+    const { state: victimState } = await OAuthService.createAuthorizationUrl('acme', false);
+
+    await expect(OAuthService.handleCallback('acme', code, state, undefined))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(OAuthService.handleCallback('acme', code, state, victimState))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(mockedUserService.getUserByOAuthAccount).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code the provider does not accept', async () => {
+    const { url } = await OAuthService.createAuthorizationUrl('acme', false);
+    const { state } = await provider.approve(url);
+
+    await expect(OAuthService.handleCallback('acme', 'forged-code', state, state))
+      .rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  describe('confirmLink', () => {
+    const context = { ip: '127.0.0.1', userAgent: 'jest' };
+
+    beforeEach(() => {
+      mockedLockoutService.isLocked.mockReturnValue(false);
+      mockedLockoutService.registerFailure.mockImplementation(async (user) => user);
+    });
+
+    const startLink = async () => {
+      const user = {
+        _id: 'user123',
+        email: 'jane@example.com',
+        password: await hash('correct-password'),
+        verified: true,
+      };
+      mockedUserService.getUserByEmail.mockResolvedValue(user as any);
+      mockedUserService.getUserById.mockResolvedValue(user as any);
+
+      const result = await signIn(true);
+      if (result.type !== 'link') throw new Error('expected a pending link');
+      return { user, linkToken: result.linkToken };
+    };
+
+    it('links the provider account after the password is confirmed', async () => {
+      const { user, linkToken } = await startLink();
+
+      const result = await OAuthService.confirmLink(linkToken, 'correct-password', context);
+
+      expect(mockedUserService.linkOAuthAccount).toHaveBeenCalledWith(user, {
+        provider: 'acme',
+        providerUserId: 'oidc-user-1',
+      });
+      expect(result).toEqual({ user, rememberMe: true });
+
+      await expect(OAuthService.confirmLink(linkToken, 'correct-password', context))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('keeps the pending link on a wrong password', async () => {
+      const { linkToken } = await startLink();
+
+      await expect(OAuthService.confirmLink(linkToken, 'wrong-password', context))
+        .rejects.toMatchObject({ statusCode: 401 });
+      expect(mockedUserService.linkOAuthAccount).not.toHaveBeenCalled();
+
+      await expect(OAuthService.confirmLink(linkToken, 'correct-password', context)).resolves.toBeDefined();
+    });
+
+    it('counts a wrong password towards the account lockout', async () => {
+      const { user, linkToken } = await startLink();
+
+      await expect(OAuthService.confirmLink(linkToken, 'wrong-password', context))
+        .rejects.toMatchObject({ statusCode: 401 });
+
+      expect(mockedLockoutService.registerFailure).toHaveBeenCalledWith(user, context);
+    });
+
+    it('refuses a locked account without checking the password', async () => {
+      const { linkToken } = await startLink();
+      const lockedError = new HttpError('Too many failed sign-in attempts.', 423);
+      mockedLockoutService.isLocked.mockReturnValue(true);
+      mockedLockoutService.lockedError.mockReturnValue(lockedError);
+
+      await expect(OAuthService.confirmLink(linkToken, 'correct-password', context)).rejects.toBe(lockedError);
+      expect(mockedLockoutService.registerFailure).not.toHaveBeenCalled();
+      expect(mockedUserService.linkOAuthAccount).not.toHaveBeenCalled();
+    });
+
+    it('drops the pending link after three wrong passwords', async () => {
+      const { linkToken } = await startLink();
+
+      for (let i = 0; i < 3; i++) {
+        await expect(OAuthService.confirmLink(linkToken, 'wrong-password', context))
+          .rejects.toMatchObject({ statusCode: 401 });
+      }
+
+      await expect(OAuthService.confirmLink(linkToken, 'correct-password', context))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockedUserService.linkOAuthAccount).not.toHaveBeenCalled();
+    });
+
+    it('refuses to link an account that was linked elsewhere in the meantime', async () => {
+      const { linkToken } = await startLink();
+      mockedUserService.getUserByOAuthAccount.mockResolvedValue({ _id: 'other' } as any);
+
+      await expect(OAuthService.confirmLink(linkToken, 'correct-password', context))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import * as crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Redis from 'ioredis-mock';
+import { OidcService } from '../../src/services/oidc.service';
+import { UserService } from '../../src/services/user.service';
+import { TokenService } from '../../src/services/token.service';
+import { SessionRedisService } from '../../src/services/redis.service';
+import OidcClient from '../../src/models/oidcClient';
+import OidcConsent from '../../src/models/oidcConsent';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/services/user.service');
+jest.mock('../../src/models/oidcClient', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    deleteOne: jest.fn(),
+  },
+}));
+jest.mock('../../src/models/oidcConsent', () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+}));
+
+const REDIRECT_URI = 'https://app.example.com/callback';
+
+const user = {
+  _id: { toString: () => 'user123' },
+  email: 'jane@example.com',
+  verified: true,
+  firstName: 'Jane',
+  lastName: 'Doe',
+};
+
+const pkce = () => {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+};
+
+describe('OidcService', () => {
+  let clients: any[];
+  let consents: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clients = [];
+    consents = [];
+
+    (OidcClient.create as jest.Mock).mockImplementation(async (data) => {
+      const client = { ...data, createdAt: new Date() };
+      clients.push(client);
+      return client;
+    });
+    (OidcClient.findOne as jest.Mock).mockImplementation(async ({ clientId }) =>
+      clients.find((client) => client.clientId === clientId) ?? null
+    );
+    (OidcConsent.findOne as jest.Mock).mockImplementation(async ({ userId, clientId }) =>
+      consents.find((consent) => consent.userId === userId && consent.clientId === clientId) ?? null
+    );
+    (OidcConsent.updateOne as jest.Mock).mockImplementation(async ({ userId, clientId }, update) => {
+      const scopes: string[] = update.$addToSet.scopes.$each;
+      const existing = consents.find((consent) => consent.userId === userId && consent.clientId === clientId);
+      if (existing) existing.scopes = [...new Set([...existing.scopes, ...scopes])];
+      else consents.push({ userId, clientId, scopes });
+    });
+    (UserService.getUserById as jest.Mock).mockResolvedValue(user);
+  });
+
+  const authorizationParams = (clientId: string, challenge: string, overrides = {}) => ({
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: 'openid email profile offline_access',
+    state: 'state123',
+    nonce: 'nonce123',
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    ...overrides,
+  });
+
+  const requestIdFrom = (redirectTo: string) => new URL(redirectTo).searchParams.get('request')!;
+
+  const authorize = async (clientId: string, challenge: string) => {
+    const requestId = requestIdFrom(await OidcService.startAuthorization(authorizationParams(clientId, challenge)));
+    const redirectTo = await OidcService.decideAuthorization(requestId, 'user123', 'session1', true);
+    return new URL(redirectTo).searchParams.get('code')!;
+  };
+
+  it('registers a confidential client and only stores a hash of its secret', async () => {
+    const { client, clientSecret } = await OidcService.registerClient('owner1', {
+      name: 'Wiki',
+      redirectUris: [REDIRECT_URI],
+      confidential: true,
+    });
+
+    expect(client).toMatchObject({ name: 'Wiki', redirectUris: [REDIRECT_URI], confidential: true });
+    expect(clientSecret).toEqual(expect.any(String));
+    expect(clients[0].secretHash).not.toBe(clientSecret);
+  });
+
+  describe('startAuthorization', () => {
+    let clientId: string;
+
+    beforeEach(async () => {
+      ({ client: { clientId } } = await OidcService.registerClient('owner1', {
+        name: 'Wiki',
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      }));
+    });
+
+    it('parks a valid request and sends the browser to the consent page', async () => {
+      const redirectTo = await OidcService.startAuthorization(authorizationParams(clientId, pkce().challenge));
+
+      expect(redirectTo).toMatch(/\/oidc\/authorize\?request=/);
+
+      const request = await OidcService.getAuthorizationRequest(requestIdFrom(redirectTo), 'user123');
+      expect(request).toEqual({ client: { name: 'Wiki' }, scopes: ['openid', 'email', 'profile'], consentRequired: true });
+    });
+
+    it('refuses unregistered redirect URIs without redirecting', async () => {
+      await expect(OidcService.startAuthorization(
+        authorizationParams(clientId, pkce().challenge, { redirect_uri: 'https://evil.example.com/callback' })
+      )).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('redirects back to the client with an error when PKCE is missing', async () => {
+      const redirectTo = new URL(await OidcService.startAuthorization(
+        authorizationParams(clientId, '', { code_challenge: undefined })
+      ));
+
+      expect(redirectTo.origin + redirectTo.pathname).toBe(REDIRECT_URI);
+      expect(redirectTo.searchParams.get('error')).toBe('invalid_request');
+      expect(redirectTo.searchParams.get('state')).toBe('state123');
+    });
+
+    it('requires the openid scope', async () => {
+      const redirectTo = new URL(await OidcService.startAuthorization(
+        authorizationParams(clientId, pkce().challenge, { scope: 'email' })
+      ));
+
+      expect(redirectTo.searchParams.get('error')).toBe('invalid_scope');
+    });
+
+    it('skips consent once granted, unless the client asks for it', async () => {
+      const { challenge } = pkce();
+      await authorize(clientId, challenge);
+
+      const again = await OidcService.startAuthorization(authorizationParams(clientId, challenge));
+      await expect(OidcService.getAuthorizationRequest(requestIdFrom(again), 'user123'))
+        .resolves.toMatchObject({ consentRequired: false });
+
+      const forced = await OidcService.startAuthorization(authorizationParams(clientId, challenge, { prompt: 'consent' }));
+      await expect(OidcService.getAuthorizationRequest(requestIdFrom(forced), 'user123'))
+        .resolves.toMatchObject({ consentRequired: true });
+    });
+
+    it('returns access_denied when the user declines', async () => {
+      const requestId = requestIdFrom(await OidcService.startAuthorization(authorizationParams(clientId, pkce().challenge)));
+
+      const redirectTo = new URL(await OidcService.decideAuthorization(requestId, 'user123', 'session1', false));
+
+      expect(redirectTo.searchParams.get('error')).toBe('access_denied');
+      expect(OidcConsent.updateOne).not.toHaveBeenCalled();
+      await expect(OidcService.decideAuthorization(requestId, 'user123', 'session1', true))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('exchangeCode', () => {
+    let clientId: string;
+    let clientSecret: string;
+
+    beforeEach(async () => {
+      const registered = await OidcService.registerClient('owner1', {
+        name: 'Wiki',
+        redirectUris: [REDIRECT_URI],
+        confidential: true,
+      });
+      clientId = registered.client.clientId;
+      clientSecret = registered.clientSecret!;
+    });
+
+    it('issues an ID token and an access token for userinfo', async () => {
+      const { verifier, challenge } = pkce();
+      await SessionRedisService.createSession({
+        id: 'session1', userId: 'user123', currentJti: '', persistent: false,
+        device: 'Firefox on Linux', ip: '127.0.0.1', userAgent: 'test',
+        createdAt: 1_700_000_000_000, lastUsedAt: 1_700_000_000_000,
+      });
+      const code = await authorize(clientId, challenge);
+
+      const tokens = await OidcService.exchangeCode({
+        code, redirectUri: REDIRECT_URI, codeVerifier: verifier, clientId, clientSecret,
+      });
+
+      expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'openid email profile' });
+
+      const idToken = jwt.decode(tokens.id_token) as jwt.JwtPayload;
+      expect(idToken).toMatchObject({
+        sub: 'user123',
+        aud: clientId,
+        nonce: 'nonce123',
+        auth_time: 1_700_000_000,
+        email: 'jane@example.com',
+        email_verified: true,
+        given_name: 'Jane',
+      });
+      expect(idToken.type).toBeUndefined();
+
+      await expect(OidcService.getUserInfo(tokens.access_token)).resolves.toEqual({
+        sub: 'user123',
+        email: 'jane@example.com',
+        email_verified: true,
+        name: 'Jane Doe',
+        given_name: 'Jane',
+        family_name: 'Doe',
+      });
+    });
+
+    it('rejects a wrong client secret', async () => {
+      const { verifier, challenge } = pkce();
+      const code = await authorize(clientId, challenge);
+
+      await expect(OidcService.exchangeCode({
+        code, redirectUri: REDIRECT_URI, codeVerifier: verifier, clientId, clientSecret: 'wrong',
+      })).rejects.toMatchObject({ statusCode: 401, meta: { error: 'invalid_client' } });
+    });
+
+    it('rejects a wrong PKCE verifier and burns the code', async () => {
+      const { verifier, challenge } = pkce();
+      const code = await authorize(clientId, challenge);
+
+      await expect(OidcService.exchangeCode({
+        code, redirectUri: REDIRECT_URI, codeVerifier: pkce().verifier, clientId, clientSecret,
+      })).rejects.toMatchObject({ statusCode: 400, meta: { error: 'invalid_grant' } });
+
+      await expect(OidcService.exchangeCode({
+        code, redirectUri: REDIRECT_URI, codeVerifier: verifier, clientId, clientSecret,
+      })).rejects.toMatchObject({ meta: { error: 'invalid_grant' } });
+    });
+
+    it('rejects a redirect URI that differs from the authorization request', async () => {
+      const { verifier, challenge } = pkce();
+      const code = await authorize(clientId, challenge);
+
+      await expect(OidcService.exchangeCode({
+        code, redirectUri: 'https://app.example.com/other', codeVerifier: verifier, clientId, clientSecret,
+      })).rejects.toMatchObject({ meta: { error: 'invalid_grant' } });
+    });
+  });
+
+  it('does not accept first-party access tokens at userinfo', async () => {
+    const accessToken = TokenService.generateToken({ userId: 'user123', type: 'access', sessionId: 'session1' });
+
+    await expect(OidcService.getUserInfo(accessToken)).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
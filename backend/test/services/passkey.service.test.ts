@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import Redis from 'ioredis-mock';
+import { PasskeyService } from '../../src/services/passkey.service';
+import Passkey, { IPasskey } from '../../src/models/passkey';
+import { UserDocument } from '../../src/models/user';
+import { ReauthService } from '../../src/services/reauth.service';
+import HttpError from '../../src/utils/HttpError';
+import { SoftwareAuthenticator } from '../helpers/softwareAuthenticator';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/services/reauth.service', () => ({ ReauthService: { verify: jest.fn() } }));
+jest.mock('../../src/env', () => ({
+  env: {
+    webauthn: {
+      rpId: 'localhost',
+      rpName: 'Test App',
+      origin: 'http://localhost:5173',
+    },
+  },
+}));
+jest.mock('../../src/models/passkey', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    deleteOne: jest.fn(),
+  },
+}));
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:5173';
+
+const user = {
+  _id: { toString: () => 'user123' },
+  email: 'test@example.com',
+  firstName: 'Test',
+  lastName: 'User',
+} as unknown as UserDocument;
+
+// What the mocked model hands back: the stored fields plus the bits of a document the service uses.
+type StoredPasskey = IPasskey & { _id: { toString(): string }; save: jest.Mock };
+
+describe('PasskeyService', () => {
+  let stored: StoredPasskey[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = [];
+    (ReauthService.verify as jest.Mock).mockResolvedValue(undefined);
+
+    (Passkey.find as jest.Mock).mockImplementation(async () => stored);
+    (Passkey.findOne as jest.Mock).mockImplementation(async ({ credentialId }) =>
+      stored.find((passkey) => passkey.credentialId === credentialId) ?? null
+    );
+    (Passkey.create as jest.Mock).mockImplementation(async (data: IPasskey) => {
+      const passkey: StoredPasskey = { ...data, _id: { toString: () => `passkey${stored.length}` }, save: jest.fn() };
+      stored.push(passkey);
+      return passkey;
+    });
+  });
+
+  const proof = { password: 'Current#Pass1' };
+
+  const register = async (authenticator: SoftwareAuthenticator) => {
+    const options = await PasskeyService.generateRegistrationOptions(user, proof);
+    return PasskeyService.verifyRegistration(user, authenticator.createCredential(options.challenge), proof, 'Laptop');
+  };
+
+  describe('registration', () => {
+    it('should verify a new credential and store its public key', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+
+      const summary = await register(authenticator);
+
+      expect(summary).toMatchObject({ name: 'Laptop', deviceType: 'singleDevice', backedUp: false });
+      expect(Passkey.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: user._id,
+        credentialId: authenticator.id,
+        counter: 0,
+        transports: ['internal'],
+      }));
+      expect(Buffer.isBuffer(stored[0].publicKey)).toBe(true);
+    });
+
+    it('should exclude credentials the user already registered', async () => {
+      await register(new SoftwareAuthenticator(RP_ID, ORIGIN));
+
+      const options = await PasskeyService.generateRegistrationOptions(user, proof);
+
+      expect(options.excludeCredentials).toEqual([{ id: stored[0].credentialId, type: 'public-key', transports: ['internal'] }]);
+      expect(options.rp).toEqual({ id: RP_ID, name: 'Test App' });
+    });
+
+    it('should reject a response without a pending challenge', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      const credential = authenticator.createCredential('bm90LWEtY2hhbGxlbmdl');
+
+      await expect(PasskeyService.verifyRegistration(user, credential, proof)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should only accept the challenge once', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      const options = await PasskeyService.generateRegistrationOptions(user, proof);
+      const credential = authenticator.createCredential(options.challenge);
+
+      await PasskeyService.verifyRegistration(user, credential, proof);
+
+      await expect(PasskeyService.verifyRegistration(user, credential, proof)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should require re-authentication to start and to finish a registration', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      (ReauthService.verify as jest.Mock).mockRejectedValueOnce(new HttpError('Invalid two-factor code.', 401));
+
+      await expect(PasskeyService.generateRegistrationOptions(user, { code: '000000' }))
+        .rejects.toMatchObject({ statusCode: 401 });
+
+      const options = await PasskeyService.generateRegistrationOptions(user, proof);
+      expect(ReauthService.verify).toHaveBeenLastCalledWith(user, proof);
+      (ReauthService.verify as jest.Mock).mockRejectedValueOnce(new HttpError('Password is incorrect.', 400));
+
+      await expect(PasskeyService.verifyRegistration(user, authenticator.createCredential(options.challenge), { password: 'wrong' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(Passkey.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a credential created for another origin', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, 'https://evil.example');
+
+      await expect(register(authenticator)).rejects.toMatchObject({ statusCode: 400 });
+      expect(Passkey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authentication', () => {
+    it('should verify an assertion and bump the stored counter', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      await register(authenticator);
+
+      const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+      const result = await PasskeyService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge));
+
+      expect(result).toEqual({ userId: 'user123', userVerified: true });
+      expect(stored[0].counter).toBe(1);
+      expect(stored[0].lastUsedAt).toBeInstanceOf(Date);
+      expect(stored[0].save).toHaveBeenCalled();
+    });
+
+    it('should report when the user was not verified', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN, false);
+      await register(authenticator);
+
+      const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+      const result = await PasskeyService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge));
+
+      expect(result.userVerified).toBe(false);
+    });
+
+    it('should reject an assertion replayed against a used challenge', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      await register(authenticator);
+
+      const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+      const assertion = authenticator.getAssertion(options.challenge);
+      await PasskeyService.verifyAuthentication(challengeId, assertion);
+
+      await expect(PasskeyService.verifyAuthentication(challengeId, assertion)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject unknown credentials', async () => {
+      const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+      const assertion = new SoftwareAuthenticator(RP_ID, ORIGIN).getAssertion(options.challenge);
+
+      await expect(PasskeyService.verifyAuthentication(challengeId, assertion)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject a signature made with another key', async () => {
+      const authenticator = new SoftwareAuthenticator(RP_ID, ORIGIN);
+      await register(authenticator);
+
+      const { challengeId, options } = await PasskeyService.generateAuthenticationOptions();
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const assertion = authenticator.getAssertion(options.challenge, privateKey);
+
+      await expect(PasskeyService.verifyAuthentication(challengeId, assertion)).rejects.toMatchObject({ statusCode: 401 });
+      expect(stored[0].save).not.toHaveBeenCalled();
+    });
+  });
+});
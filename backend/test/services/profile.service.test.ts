@@ -0,0 +1,72 @@
+import Redis from 'ioredis-mock';
+import { ProfileService } from '../../src/services/profile.service';
+import { UserService } from '../../src/services/user.service';
+import { updateProfileSchema } from '../../src/schemas/profile.schema';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/services/user.service');
+
+describe('ProfileService', () => {
+  const makeUser = (overrides = {}) => ({
+    _id: { toString: () => 'user123' },
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    status: 'On the path to success.',
+    password: 'hashedPassword',
+    verified: true,
+    roles: ['user'],
+    permissions: [],
+    twoFactor: { enabled: true, secret: 'encrypted-secret' },
+    backupCodes: ['hashedCode'],
+    ...overrides,
+  }) as unknown as UserDocument;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.getUserById as jest.Mock).mockResolvedValue(makeUser());
+  });
+
+  it('returns the profile without the password or two-factor secrets', async () => {
+    const profile = await ProfileService.getProfile('user123');
+
+    expect(profile).toMatchObject({
+      id: 'user123',
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      status: 'On the path to success.',
+      verified: true,
+      twoFactorEnabled: true,
+    });
+    expect(profile).not.toHaveProperty('password');
+    expect(JSON.stringify(profile)).not.toMatch(/hashedPassword|encrypted-secret|hashedCode/);
+  });
+
+  it('throws 404 when the user no longer exists', async () => {
+    (UserService.getUserById as jest.Mock).mockResolvedValue(null);
+
+    await expect(ProfileService.getProfile('user123')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('updates names and status', async () => {
+    (UserService.updateProfile as jest.Mock).mockImplementation(async (user, changes) => ({ ...user, ...changes }));
+
+    const profile = await ProfileService.updateProfile('user123', { status: 'Shipping.' });
+
+    expect(UserService.updateProfile).toHaveBeenCalledWith(expect.objectContaining({ email: 'jane@example.com' }), { status: 'Shipping.' });
+    expect(profile.status).toBe('Shipping.');
+  });
+
+  describe('updateProfileSchema', () => {
+    it('trims names and accepts partial updates', () => {
+      expect(updateProfileSchema.parse({ firstName: ' Janet ' })).toEqual({ firstName: 'Janet' });
+    });
+
+    it('rejects empty updates and fields other than names and status', () => {
+      expect(updateProfileSchema.safeParse({}).success).toBe(false);
+      expect(updateProfileSchema.safeParse({ email: 'new@example.com' }).success).toBe(false);
+      expect(updateProfileSchema.safeParse({ password: 'Secret1!' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import Redis from 'ioredis-mock';
+import { RbacService } from '../../src/services/rbac.service';
+import { UserService } from '../../src/services/user.service';
+import { AuthzVersionRedisService } from '../../src/services/redis.service';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/services/user.service');
+
+describe('RbacService', () => {
+  const user = {
+    _id: { toString: () => 'user123' },
+    roles: ['user'],
+    permissions: [],
+    authzVersion: 2,
+  } as unknown as UserDocument;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.updateAccess as jest.Mock).mockImplementation(async (target, roles, permissions) => ({
+      ...target,
+      roles,
+      permissions,
+      authzVersion: target.authzVersion + 1,
+    }));
+  });
+
+  it('should update roles, keep direct permissions and publish the new version', async () => {
+    await RbacService.updateAccess(user, { roles: ['admin'] });
+
+    expect(UserService.updateAccess).toHaveBeenCalledWith(user, ['admin'], []);
+    await expect(AuthzVersionRedisService.getVersion('user123')).resolves.toBe(3);
+  });
+
+  it('should flag tokens issued before the latest change as stale', async () => {
+    await RbacService.updateAccess(user, { permissions: ['users:read'] });
+
+    await expect(RbacService.isStale('user123', 2)).resolves.toBe(true);
+    await expect(RbacService.isStale('user123', 3)).resolves.toBe(false);
+    await expect(RbacService.isStale('user123')).resolves.toBe(true);
+  });
+
+  it('should accept any token when the roles did not change recently', async () => {
+    await expect(RbacService.isStale('someone-else', 0)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { ReauthService } from '../../src/services/reauth.service';
+import { TwoFactorService } from '../../src/services/twoFactor.service';
+import { compare } from '../../src/utils/encryption/hashing.encryption';
+import { UserDocument } from '../../src/models/user';
+import HttpError from '../../src/utils/HttpError';
+
+jest.mock('../../src/services/twoFactor.service', () => ({
+  TwoFactorService: { verifyTotpCode: jest.fn() },
+}));
+jest.mock('../../src/utils/encryption/hashing.encryption');
+
+describe('ReauthService', () => {
+  const user = { _id: 'user123', password: 'hashedPassword' } as unknown as UserDocument;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept the current password', async () => {
+    (compare as jest.Mock).mockResolvedValue(true);
+
+    await expect(ReauthService.verify(user, { password: 'Current#Pass1' })).resolves.toBeUndefined();
+    expect(compare).toHaveBeenCalledWith('Current#Pass1', 'hashedPassword');
+  });
+
+  it('should reject a wrong password on the password field', async () => {
+    (compare as jest.Mock).mockResolvedValue(false);
+
+    await expect(ReauthService.verify(user, { password: 'wrong' })).rejects.toMatchObject({
+      statusCode: 400,
+      details: { password: ['Password is incorrect.'] },
+    });
+  });
+
+  it('should accept an authenticator code instead of the password', async () => {
+    (TwoFactorService.verifyTotpCode as jest.Mock).mockResolvedValue(true);
+
+    await expect(ReauthService.verify(user, { code: '123456' })).resolves.toBeUndefined();
+    expect(compare).not.toHaveBeenCalled();
+  });
+
+  it('should reject a wrong authenticator code', async () => {
+    (TwoFactorService.verifyTotpCode as jest.Mock).mockResolvedValue(false);
+
+    await expect(ReauthService.verify(user, { code: '123456' })).rejects.toThrow('Invalid two-factor code.');
+  });
+
+  it('should require some proof', async () => {
+    await expect(ReauthService.verify(user, {})).rejects.toThrow(HttpError);
+  });
+});
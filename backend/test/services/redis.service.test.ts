@@ -1,6 +1,6 @@
 import Redis from 'ioredis-mock';
 import redisClient from '../../src/utils/redisClient';
-import { OtpRedisService, ResetTokenRedisService } from '../../src/services/redis.service';
+import { MagicLinkRedisService, MfaChallengeRedisService, OtpRedisService, ResetTokenRedisService } from '../../src/services/redis.service';
 import { UserDocument } from '../../src/models/user';
 
 jest.mock('../../src/utils/redisClient', () => new Redis());
@@ -70,4 +70,48 @@ describe('ResetTokenRedisService', () => {
     const token = await ResetTokenRedisService.getToken(email);
     expect(token).toBeNull();
   });
-});
\ No newline at end of file
+});
+
+describe('MfaChallengeRedisService', () => {
+  beforeEach(async () => {
+    await redisClient.flushall();
+  });
+
+  it('should store a challenge with a TTL and delete it after the last attempt', async () => {
+    await MfaChallengeRedisService.createChallenge('jti1', 'user123', true, 300);
+
+    expect(await MfaChallengeRedisService.getChallenge('jti1')).toEqual({
+      userId: 'user123',
+      rememberMe: true,
+      attemptsLeft: 5,
+    });
+    expect(await redisClient.ttl(MfaChallengeRedisService.getKey('jti1'))).toBeGreaterThan(0);
+
+    for (let i = 4; i > 0; i--) {
+      expect(await MfaChallengeRedisService.decreaseAttempts('jti1')).toBe(i);
+    }
+    expect(await MfaChallengeRedisService.decreaseAttempts('jti1')).toBe(0);
+    expect(await MfaChallengeRedisService.getChallenge('jti1')).toBeNull();
+  });
+});
+
+describe('MagicLinkRedisService', () => {
+  beforeEach(async () => {
+    await redisClient.flushall();
+  });
+
+  it('should return the link data only once', async () => {
+    await MagicLinkRedisService.setLink('jti1', 'user123', false, 900);
+
+    expect(await MagicLinkRedisService.consumeLink('jti1')).toEqual({ userId: 'user123', rememberMe: false });
+    expect(await MagicLinkRedisService.consumeLink('jti1')).toBeNull();
+  });
+
+  it('should expire links after the TTL', async () => {
+    await MagicLinkRedisService.setLink('jti1', 'user123', true, 900);
+
+    const ttl = await redisClient.ttl(MagicLinkRedisService.getKey('jti1'));
+    expect(ttl).toBeGreaterThan(890);
+    expect(ttl).toBeLessThanOrEqual(900);
+  });
+});
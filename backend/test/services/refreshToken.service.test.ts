@@ -0,0 +1,108 @@
+import Redis from 'ioredis-mock';
+import redisClient from '../../src/utils/redisClient';
+import { RefreshTokenService } from '../../src/services/refreshToken.service';
+import { SessionRedisService } from '../../src/services/redis.service';
+import { SessionService } from '../../src/services/session.service';
+import { TokenService } from '../../src/services/token.service';
+import HttpError from '../../src/utils/HttpError';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/env', () => ({
+  env: {
+    accessTokenSecret: 'mock-access-secret',
+    refreshTokenSecret: 'mock-refresh-secret',
+    verificationTokenSecret: 'mock-verification-secret',
+    accessTokenAlgorithm: 'HS256',
+    jwtClaims: {
+      access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/api' },
+      refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/refresh' },
+      verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/verification' },
+    },
+    jwtClockToleranceSeconds: 0,
+  },
+}));
+
+describe('RefreshTokenService', () => {
+  const userId = 'user123';
+  const context = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const createSession = (persistent: boolean = false) =>
+    SessionService.createSession(userId, persistent, context);
+
+  beforeEach(async () => {
+    await redisClient.flushall();
+  });
+
+  it('should issue a refresh token bound to the session', async () => {
+    const session = await createSession(true);
+    const token = await RefreshTokenService.issue(session.id, userId);
+    const payload = TokenService.verifyToken(token);
+
+    expect(payload.type).toBe('refresh');
+    expect(payload.sessionId).toBe(session.id);
+
+    const stored = await SessionRedisService.getSession(session.id);
+    expect(stored?.currentJti).toBe(payload.jti);
+  });
+
+  it('should rotate a refresh token and keep the session', async () => {
+    const session = await createSession();
+    const token = await RefreshTokenService.issue(session.id, userId);
+
+    const result = await RefreshTokenService.rotate(token);
+    const rotated = TokenService.verifyToken(result.refreshToken);
+
+    expect(result.userId).toBe(userId);
+    expect(result.sessionId).toBe(session.id);
+    expect(result.persistent).toBe(false);
+    expect(rotated.sessionId).toBe(session.id);
+
+    const stored = await SessionRedisService.getSession(session.id);
+    expect(stored?.currentJti).toBe(rotated.jti);
+  });
+
+  it('should revoke the whole session when a rotated token is reused', async () => {
+    const session = await createSession();
+    const token = await RefreshTokenService.issue(session.id, userId);
+    const { refreshToken: latestToken } = await RefreshTokenService.rotate(token);
+
+    await expect(RefreshTokenService.rotate(token)).rejects.toThrow(HttpError);
+
+    expect(await SessionRedisService.getSession(session.id)).toBeNull();
+    await expect(RefreshTokenService.rotate(latestToken)).rejects.toThrow('Refresh token has been revoked.');
+  });
+
+  it('should let only one of two concurrent rotations of the same token through', async () => {
+    const session = await createSession();
+    const token = await RefreshTokenService.issue(session.id, userId);
+
+    const results = await Promise.allSettled([
+      RefreshTokenService.rotate(token),
+      RefreshTokenService.rotate(token),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await SessionRedisService.getSession(session.id)).toBeNull();
+  });
+
+  it('should reject refresh tokens of a revoked session', async () => {
+    const session = await createSession();
+    const token = await RefreshTokenService.issue(session.id, userId);
+    await SessionService.revokeSession(userId, session.id);
+
+    await expect(RefreshTokenService.rotate(token)).rejects.toThrow('Refresh token has been revoked.');
+  });
+
+  it('should reject tokens that are not refresh tokens', async () => {
+    const accessToken = TokenService.generateToken({ userId, type: 'access' });
+
+    await expect(RefreshTokenService.rotate(accessToken)).rejects.toThrow('Invalid token type.');
+  });
+
+  it('should reject refresh tokens without a session', async () => {
+    const legacyToken = TokenService.generateToken({ userId, type: 'refresh' });
+
+    await expect(RefreshTokenService.rotate(legacyToken)).rejects.toThrow('Invalid refresh token.');
+  });
+});
@@ -0,0 +1,114 @@
+import Redis from 'ioredis-mock';
+import redisClient from '../../src/utils/redisClient';
+import { SessionService } from '../../src/services/session.service';
+import { SessionRedisService } from '../../src/services/redis.service';
+
+jest.mock('../../src/utils/redisClient', () => new Redis());
+
+describe('SessionService', () => {
+  const userId = 'user123';
+  const context = {
+    ip: '10.0.0.1',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  };
+
+  beforeEach(async () => {
+    await redisClient.flushall();
+  });
+
+  describe('describeDevice', () => {
+    it('should describe browser and platform', () => {
+      expect(SessionService.describeDevice(context.userAgent)).toBe('Chrome on Windows');
+      expect(SessionService.describeDevice(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+      )).toBe('Safari on iOS');
+    });
+
+    it('should fall back for unknown user agents', () => {
+      expect(SessionService.describeDevice('curl/8.0')).toBe('Unknown device');
+    });
+  });
+
+  it('should create a session and record client details', async () => {
+    const session = await SessionService.createSession(userId, true, context);
+    const stored = await SessionRedisService.getSession(session.id);
+
+    expect(stored).toMatchObject({
+      userId,
+      persistent: true,
+      device: 'Chrome on Windows',
+      ip: context.ip,
+      userAgent: context.userAgent,
+    });
+    expect(await SessionService.isActive(session.id, userId)).toBe(true);
+    expect(await SessionService.isActive(session.id, 'someoneElse')).toBe(false);
+  });
+
+  it('should update last-used details on touch', async () => {
+    const session = await SessionService.createSession(userId, false, context);
+    await SessionService.touch(userId, session.id, { ip: '10.0.0.2', userAgent: 'curl/8.0' });
+
+    const stored = await SessionRedisService.getSession(session.id);
+    expect(stored?.ip).toBe('10.0.0.2');
+    expect(stored?.lastUsedAt).toBeGreaterThanOrEqual(session.lastUsedAt);
+  });
+
+  it('should not recreate an expired session on touch', async () => {
+    const session = await SessionService.createSession(userId, false, context);
+    await redisClient.del(SessionRedisService.getKey(session.id));
+
+    await SessionService.touch(userId, session.id, context);
+
+    expect(await redisClient.exists(SessionRedisService.getKey(session.id))).toBe(0);
+  });
+
+  it('should keep the session index alive as long as its sessions', async () => {
+    const session = await SessionService.createSession(userId, false, context);
+    const userKey = SessionRedisService.getUserKey(userId);
+    await redisClient.expire(userKey, 60);
+
+    await SessionService.touch(userId, session.id, context);
+    expect(await redisClient.ttl(userKey)).toBeGreaterThan(60);
+
+    await redisClient.expire(userKey, 60);
+    await SessionRedisService.rotateJti(session.id, userId, 'jti-2');
+    expect(await redisClient.ttl(userKey)).toBeGreaterThan(60);
+
+    await redisClient.del(userKey);
+    expect(await SessionRedisService.swapJti(session.id, userId, 'jti-2', 'jti-3')).toBe(true);
+    expect(await SessionRedisService.getSessionIds(userId)).toEqual([session.id]);
+    expect(await redisClient.ttl(userKey)).toBeGreaterThan(60);
+  });
+
+  it('should list sessions without token state and drop expired entries', async () => {
+    const session = await SessionService.createSession(userId, false, context);
+    const expired = await SessionService.createSession(userId, false, context);
+    await redisClient.del(SessionRedisService.getKey(expired.id));
+
+    const sessions = await SessionService.listSessions(userId);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).toBe(session.id);
+    expect(sessions[0]).not.toHaveProperty('currentJti');
+    expect(await SessionRedisService.getSessionIds(userId)).toEqual([session.id]);
+  });
+
+  it('should only revoke sessions owned by the user', async () => {
+    const session = await SessionService.createSession(userId, false, context);
+
+    expect(await SessionService.revokeSession('someoneElse', session.id)).toBe(false);
+    expect(await SessionService.revokeSession(userId, session.id)).toBe(true);
+    expect(await SessionService.isActive(session.id, userId)).toBe(false);
+  });
+
+  it('should revoke all sessions except the current one', async () => {
+    const current = await SessionService.createSession(userId, false, context);
+    await SessionService.createSession(userId, false, context);
+    await SessionService.createSession(userId, false, context);
+
+    const revoked = await SessionService.revokeAllSessions(userId, current.id);
+
+    expect(revoked).toBe(2);
+    expect(await SessionRedisService.getSessionIds(userId)).toEqual([current.id]);
+  });
+});
@@ -1,4 +1,5 @@
 
+import * as crypto from 'crypto';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import { TokenService, TokenPayloadData } from '../../src/services/token.service';
 
@@ -8,11 +9,20 @@ jest.mock('../../src/env', () => ({
     accessTokenSecret: 'mock-access-secret',
     refreshTokenSecret: 'mock-refresh-secret',
     verificationTokenSecret: 'mock-verification-secret',
+    accessTokenAlgorithm: 'HS256',
+    jwtClaims: {
+      access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/api' },
+      refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/refresh' },
+      verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/verification' },
+    },
+    jwtClockToleranceSeconds: 0,
     backendDomain: 'http://localhost:3000',
   },
 }));
 
 describe('TokenService', () => {
+  const accessClaims = { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/api' };
+
   const mockPayload: TokenPayloadData = {
     userId: '12345',
     type: 'access',
@@ -39,7 +49,7 @@ describe('TokenService', () => {
   it('should verify a valid token and return the correct payload', () => {
     const token = TokenService.generateToken(mockPayload, '1h');
     const verifiedPayload = TokenService.verifyToken(token);
-    expect(verifiedPayload).toEqual(mockPayload);
+    expect(verifiedPayload).toEqual({ ...mockPayload, jti: expect.any(String), exp: expect.any(Number) });
   });
 
   it('should throw an error for token with unknown kid', () => {
@@ -55,7 +65,8 @@ describe('TokenService', () => {
       header: { kid: 'access-token-v1', alg: 'HS256' },
     });
 
-    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token payload');
+    // A string payload cannot carry the audience claim, so it fails claim validation
+    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token');
   });
 
   it('should throw an error for expired token', async () => {
@@ -71,8 +82,10 @@ describe('TokenService', () => {
   });
 
   it('should throw an error for token missing required payload fields', () => {
-    const incompletePayload = { userId: '12345' }; // missing "type"
+    const incompletePayload = { userId: '12345', jti: 'jti1' }; // missing "type"
     const token = jwt.sign(incompletePayload, 'mock-access-secret', {
+      ...accessClaims,
+      subject: '12345',
       header: { kid: 'access-token-v1', alg: 'HS256' },
     });
 
@@ -83,6 +96,104 @@ describe('TokenService', () => {
     const refreshPayload = { userId: 'abcde', type: 'refresh' as const };
     const token = TokenService.generateToken(refreshPayload, '1h');
     const result = TokenService.verifyToken(token);
-    expect(result).toEqual(refreshPayload);
+    expect(result).toEqual({ ...refreshPayload, jti: expect.any(String), exp: expect.any(Number) });
+  });
+
+  it('should set the standard claims on every token', () => {
+    const token = TokenService.generateToken(mockPayload, '1h');
+    const other = TokenService.generateToken(mockPayload, '1h');
+    const payload = jwt.decode(token) as JwtPayload;
+
+    expect(payload.iss).toBe('http://localhost:3000');
+    expect(payload.aud).toBe('http://localhost:3000/api');
+    expect(payload.sub).toBe(mockPayload.userId);
+    expect(typeof payload.iat).toBe('number');
+    expect(payload.jti).toEqual(expect.any(String));
+    expect((jwt.decode(other) as JwtPayload).jti).not.toBe(payload.jti);
+  });
+
+  it('should use the issuer and audience of the token type', () => {
+    const token = TokenService.generateToken({ userId: '12345', type: 'refresh' }, '1h');
+    const payload = jwt.decode(token) as JwtPayload;
+
+    expect(payload.aud).toBe('http://localhost:3000/refresh');
+  });
+
+  it('should reject a token minted for another issuer', () => {
+    const token = jwt.sign({ ...mockPayload, jti: 'jti1' }, 'mock-access-secret', {
+      ...accessClaims,
+      issuer: 'https://staging.example.com',
+      subject: mockPayload.userId,
+      header: { kid: 'access-token-v1', alg: 'HS256' },
+    });
+
+    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token');
+  });
+
+  it('should reject a token minted for another audience', () => {
+    const token = jwt.sign({ ...mockPayload, jti: 'jti1' }, 'mock-access-secret', {
+      ...accessClaims,
+      audience: 'https://other-service.example.com',
+      subject: mockPayload.userId,
+      header: { kid: 'access-token-v1', alg: 'HS256' },
+    });
+
+    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token');
+  });
+
+  it('should reject a token whose subject does not match the user', () => {
+    const token = jwt.sign({ ...mockPayload, jti: 'jti1' }, 'mock-access-secret', {
+      ...accessClaims,
+      subject: 'someone-else',
+      header: { kid: 'access-token-v1', alg: 'HS256' },
+    });
+
+    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token payload');
+  });
+
+  it('should reject a token without a jti', () => {
+    const token = jwt.sign(mockPayload, 'mock-access-secret', {
+      ...accessClaims,
+      subject: mockPayload.userId,
+      header: { kid: 'access-token-v1', alg: 'HS256' },
+    });
+
+    expect(() => TokenService.verifyToken(token)).toThrow('Invalid token payload');
+  });
+
+  it('should sign ID tokens with an asymmetric key published in the JWKS', () => {
+    const idToken = TokenService.generateIdToken('12345', 'client1', { auth_time: 1700000000 });
+    const { header } = jwt.decode(idToken, { complete: true })!;
+    const jwk = TokenService.getJwks().keys.find((key) => key.kid === header.kid)!;
+
+    expect(header.alg).toBe('RS256');
+    expect(TokenService.getIdTokenSigningAlgorithm()).toBe('RS256');
+    expect(jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+      algorithms: ['RS256'],
+      issuer: 'http://localhost:3000',
+      audience: 'client1',
+    })).toMatchObject({ sub: '12345', auth_time: 1700000000 });
+  });
+
+  it('should never accept an ID token as one of our own tokens', () => {
+    const idToken = TokenService.generateIdToken('12345', 'client1', { auth_time: 1700000000 });
+
+    expect(() => TokenService.verifyToken(idToken)).toThrow('Unknown or missing token kid');
+  });
+
+  describe('with a clock skew tolerance', () => {
+    const { env } = jest.requireMock('../../src/env');
+
+    afterEach(() => {
+      env.jwtClockToleranceSeconds = 0;
+    });
+
+    it('should accept a token that expired within the tolerance', () => {
+      const token = TokenService.generateToken(mockPayload, -5);
+      expect(() => TokenService.verifyToken(token)).toThrow('Token expired');
+
+      env.jwtClockToleranceSeconds = 30;
+      expect(TokenService.verifyToken(token).userId).toBe(mockPayload.userId);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,131 @@
+import { TwoFactorService } from '../../src/services/twoFactor.service';
+import { UserService } from '../../src/services/user.service';
+import { decrypt, encrypt } from '../../src/utils/encryption/aes.encryption';
+import { generateTotp, timeStep } from '../../src/utils/totp';
+import HttpError from '../../src/utils/HttpError';
+import { UserDocument } from '../../src/models/user';
+
+jest.mock('../../src/services/user.service');
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+const buildUser = (twoFactor?: Record<string, unknown>) => ({
+  _id: 'user123',
+  email: 'test@example.com',
+  twoFactor,
+}) as unknown as UserDocument;
+
+describe('TwoFactorService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (UserService.updateTwoFactor as jest.Mock).mockImplementation(async (user, twoFactor) => {
+      user.twoFactor = twoFactor;
+      return user;
+    });
+    // Mirrors the conditional update: only a later step than the stored one is accepted.
+    (UserService.recordTotpStep as jest.Mock).mockImplementation(async (user, step) => {
+      const lastUsedStep = user.twoFactor?.lastUsedStep;
+      if (typeof lastUsedStep === 'number' && step <= lastUsedStep) return false;
+      user.twoFactor = { ...user.twoFactor, lastUsedStep: step };
+      return true;
+    });
+  });
+
+  describe('startTotpEnrollment', () => {
+    it('should store an encrypted pending secret and return the otpauth uri', async () => {
+      const user = buildUser();
+
+      const { secret, otpauthUri } = await TwoFactorService.startTotpEnrollment(user);
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(otpauthUri).toContain('test%40example.com');
+      expect(user.twoFactor?.enabled).toBe(false);
+      expect(user.twoFactor?.pendingSecret).not.toBe(secret);
+      expect(decrypt(user.twoFactor!.pendingSecret!)).toBe(secret);
+    });
+
+    it('should refuse when two-factor is already enabled', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+
+      await expect(TwoFactorService.startTotpEnrollment(user)).rejects.toThrow(HttpError);
+      expect(UserService.updateTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmTotpEnrollment', () => {
+    it('should activate the pending secret when the code is valid', async () => {
+      const pendingSecret = encrypt(SECRET);
+      const user = buildUser({ enabled: false, pendingSecret });
+
+      await TwoFactorService.confirmTotpEnrollment(user, generateTotp(SECRET));
+
+      expect(user.twoFactor).toEqual({
+        enabled: true,
+        secret: pendingSecret,
+        lastUsedStep: timeStep(),
+      });
+    });
+
+    it('should reject an invalid code', async () => {
+      const user = buildUser({ enabled: false, pendingSecret: encrypt(SECRET) });
+
+      await expect(TwoFactorService.confirmTotpEnrollment(user, '000000')).rejects.toMatchObject({ statusCode: 401 });
+      expect(UserService.updateTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should fail when no enrollment is in progress', async () => {
+      await expect(TwoFactorService.confirmTotpEnrollment(buildUser(), '123456')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    it('should accept a valid code and record its time step', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+
+      await expect(TwoFactorService.verifyTotpCode(user, generateTotp(SECRET))).resolves.toBe(true);
+      expect(UserService.recordTotpStep).toHaveBeenCalledWith(user, timeStep());
+      expect(user.twoFactor?.lastUsedStep).toBe(timeStep());
+    });
+
+    it('should reject a code whose step another request recorded first', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+      (UserService.recordTotpStep as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(TwoFactorService.verifyTotpCode(user, generateTotp(SECRET))).resolves.toBe(false);
+    });
+
+    it('should reject a code that was already used', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+      const code = generateTotp(SECRET);
+
+      await TwoFactorService.verifyTotpCode(user, code);
+
+      await expect(TwoFactorService.verifyTotpCode(user, code)).resolves.toBe(false);
+    });
+
+    it('should reject codes when two-factor is not enabled', async () => {
+      const user = buildUser({ enabled: false, pendingSecret: encrypt(SECRET) });
+
+      await expect(TwoFactorService.verifyTotpCode(user, generateTotp(SECRET))).resolves.toBe(false);
+      expect(UserService.recordTotpStep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disableTotp', () => {
+    it('should disable two-factor and drop the secret with a valid code', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+
+      await TwoFactorService.disableTotp(user, generateTotp(SECRET));
+
+      expect(user.twoFactor).toEqual({ enabled: false });
+    });
+
+    it('should reject an invalid code', async () => {
+      const user = buildUser({ enabled: true, secret: encrypt(SECRET) });
+
+      await expect(TwoFactorService.disableTotp(user, '000000')).rejects.toMatchObject({ statusCode: 401 });
+      expect(user.twoFactor?.enabled).toBe(true);
+    });
+  });
+});
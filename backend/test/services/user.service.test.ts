@@ -3,6 +3,7 @@ import User from '../../src/models/user';
 import { UserDocument } from '../../src/models/user';
 
 jest.mock('../../src/models/user');
+jest.mock('../../src/utils/passwordPolicy', () => ({ passwordPolicy: { historySize: 3 } }));
 
 describe('UserService', () => {
   const mockSave = jest.fn();
@@ -33,6 +34,23 @@ describe('UserService', () => {
     expect(mockFindOne).toHaveBeenCalledWith({ email: 'test@example.com' });
   });
 
+  it('isEmailTaken should also match pending addresses and skip the asking user', async () => {
+    const mockExists = jest.fn().mockResolvedValue({ _id: 'other' });
+    (User as any).exists = mockExists;
+
+    await expect(UserService.isEmailTaken('test@example.com', 'user123')).resolves.toBe(true);
+    expect(mockExists).toHaveBeenCalledWith({
+      _id: { $ne: 'user123' },
+      $or: [{ email: 'test@example.com' }, { pendingEmail: 'test@example.com', pendingEmailExpiresAt: { $gt: expect.any(Date) } }],
+    });
+
+    mockExists.mockResolvedValueOnce(null);
+    await expect(UserService.isEmailTaken('new@example.com')).resolves.toBe(false);
+    expect(mockExists).toHaveBeenLastCalledWith({
+      $or: [{ email: 'new@example.com' }, { pendingEmail: 'new@example.com', pendingEmailExpiresAt: { $gt: expect.any(Date) } }],
+    });
+  });
+
   it('getUserById should call User.findById with correct ID', async () => {
     const mockFindById = jest.fn();
     (User as any).findById = mockFindById;
@@ -56,4 +74,66 @@ describe('UserService', () => {
     expect(user.verified).toBe(true);
     expect(mockSave).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  it('changePassword should keep the previous hashes the policy remembers, newest first', async () => {
+    const user = { password: 'hash3', passwordHistory: ['hash2', 'hash1'], save: mockSave } as unknown as UserDocument;
+    await UserService.changePassword(user, 'hash4');
+
+    expect(user.password).toBe('hash4');
+    expect(user.passwordHistory).toEqual(['hash3', 'hash2']);
+  });
+
+  it('prunePasswordHistory should trim histories longer than the policy keeps', async () => {
+    (User as any).updateMany = jest.fn().mockResolvedValue({ modifiedCount: 2 });
+
+    await expect(UserService.prunePasswordHistory()).resolves.toBe(2);
+    expect((User as any).updateMany).toHaveBeenCalledWith(
+      { 'passwordHistory.2': { $exists: true } },
+      { $push: { passwordHistory: { $each: [], $slice: 2 } } }
+    );
+  });
+
+  it('changePassword should clear a pending forced reset', async () => {
+    const user = { password: 'oldPass', passwordResetRequired: true, save: mockSave } as unknown as UserDocument;
+    await UserService.changePassword(user, 'newHash123');
+
+    expect(user.passwordResetRequired).toBe(false);
+  });
+
+  it('recordTotpStep should only move the last used step forward', async () => {
+    const twoFactor = { enabled: true, secret: 'encrypted', lastUsedStep: 42 };
+    const mockFindOneAndUpdate = jest.fn().mockResolvedValue({ twoFactor });
+    (User as any).findOneAndUpdate = mockFindOneAndUpdate;
+    const user = { _id: 'user123', twoFactor: { enabled: true, secret: 'encrypted', lastUsedStep: 41 } } as unknown as UserDocument;
+
+    await expect(UserService.recordTotpStep(user, 42)).resolves.toBe(true);
+    expect(mockFindOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: 'user123',
+        'twoFactor.enabled': true,
+        $or: [{ 'twoFactor.lastUsedStep': { $lt: 42 } }, { 'twoFactor.lastUsedStep': { $exists: false } }],
+      },
+      { $set: { 'twoFactor.lastUsedStep': 42 } },
+      { new: true }
+    );
+    expect(user.twoFactor).toBe(twoFactor);
+
+    mockFindOneAndUpdate.mockResolvedValueOnce(null);
+    await expect(UserService.recordTotpStep(user, 42)).resolves.toBe(false);
+  });
+
+  it('searchUsers should match the query literally across email and names', async () => {
+    const query = { sort: jest.fn().mockReturnThis(), skip: jest.fn().mockReturnThis(), limit: jest.fn().mockResolvedValue([]) };
+    (User as any).find = jest.fn().mockReturnValue(query);
+    (User as any).countDocuments = jest.fn().mockResolvedValue(0);
+
+    await UserService.searchUsers('a.b+', 2, 10);
+
+    const filter = (User as any).find.mock.calls[0][0];
+    const pattern: RegExp = filter.$or[0].email;
+    expect(pattern.test('A.B+@example.com')).toBe(true);
+    expect(pattern.test('axbb@example.com')).toBe(false);
+    expect(query.skip).toHaveBeenCalledWith(10);
+    expect(query.limit).toHaveBeenCalledWith(10);
+  });
+});
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isBreachedPassword, loadBreachedPasswordFile } from '../../src/utils/breachedPasswords';
+import { changePasswordSchema, createUserSchema, resetPasswordSchema } from '../../src/schemas/auth.schema';
+
+jest.mock('../../src/env', () => ({
+  env: {
+    breachedPasswordsPath: 'data/breached-passwords.txt',
+    passwordPolicy: {
+      minLength: 8,
+      maxLength: 128,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      minStrength: 0,
+      historySize: 0,
+      forbidPersonalInfo: false,
+      rejectBreached: true,
+    },
+  },
+}));
+
+describe('breached passwords', () => {
+  // SHA-1 of "Password1!"
+  const hash = '32CA9FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573';
+
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'breached-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeCorpus = (content: string): string => {
+    const filePath = path.join(dir, `corpus-${Date.now()}-${Math.random()}.txt`);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('groups hashes into five character prefix buckets, ignoring counts and comments', () => {
+    const buckets = loadBreachedPasswordFile(writeCorpus(`# comment\n\n${hash.toLowerCase()}:42\n`));
+
+    expect([...buckets.keys()]).toEqual([hash.slice(0, 5)]);
+    expect(buckets.get(hash.slice(0, 5))).toEqual(new Set([hash.slice(5)]));
+  });
+
+  it('rejects a file with a line that is not a SHA-1 hash', () => {
+    expect(() => loadBreachedPasswordFile(writeCorpus('not-a-hash\n'))).toThrow(/line 1/);
+  });
+
+  it('matches passwords from the bundled corpus only', () => {
+    expect(isBreachedPassword('P@ssw0rd')).toBe(true);
+    expect(isBreachedPassword('Kx7#qLm2vR')).toBe(false);
+  });
+
+  it('rejects breached passwords on signup, reset and change as a field error', () => {
+    const signup = createUserSchema.safeParse({ email: 'jane@example.com', password: 'P@ssw0rd', firstName: 'Jane', lastName: 'Doe' });
+    const reset = resetPasswordSchema.safeParse({ email: 'jane@example.com', newPassword: 'P@ssw0rd', resetToken: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed' });
+    const change = changePasswordSchema.safeParse({ currentPassword: 'Kx7#qLm2vR', newPassword: 'P@ssw0rd' });
+
+    expect(signup.error?.issues).toEqual([expect.objectContaining({ path: ['password'], message: expect.stringMatching(/data breach/) })]);
+    expect(reset.error?.issues).toEqual([expect.objectContaining({ path: ['newPassword'], message: expect.stringMatching(/data breach/) })]);
+    expect(change.error?.issues).toEqual([expect.objectContaining({ path: ['newPassword'], message: expect.stringMatching(/data breach/) })]);
+  });
+});
@@ -29,10 +29,82 @@ jest.mock('../../../src/utils/email/templates/passwordResetSuccess', () => ({
   })),
 }));
 
+jest.mock('../../../src/utils/email/templates/backupCodeUsed', () => ({
+  generateBackupCodeUsedEmail: jest.fn(() => ({
+    subject: 'Backup Code Subject',
+    html: '<p>Backup Code Used Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/backupCodesRegenerated', () => ({
+  generateBackupCodesRegeneratedEmail: jest.fn(() => ({
+    subject: 'Backup Codes Regenerated Subject',
+    html: '<p>Backup Codes Regenerated Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/magicLinkEmail', () => ({
+  generateMagicLinkEmail: jest.fn(() => ({
+    subject: 'Magic Link Subject',
+    html: '<p>Magic Link Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/passwordResetRequired', () => ({
+  generatePasswordResetRequiredEmail: jest.fn(() => ({
+    subject: 'Password Reset Required Subject',
+    html: '<p>Password Reset Required Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/accountLocked', () => ({
+  generateAccountLockedEmail: jest.fn(() => ({
+    subject: 'Account Locked Subject',
+    html: '<p>Account Locked Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/emailChangeConfirm', () => ({
+  generateEmailChangeConfirmEmail: jest.fn(() => ({
+    subject: 'Email Change Confirm Subject',
+    html: '<p>Email Change Confirm Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/emailChangeNotice', () => ({
+  generateEmailChangeNoticeEmail: jest.fn(() => ({
+    subject: 'Email Change Notice Subject',
+    html: '<p>Email Change Notice Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/accountDeletionConfirm', () => ({
+  generateAccountDeletionConfirmEmail: jest.fn(() => ({
+    subject: 'Account Deletion Confirm Subject',
+    html: '<p>Account Deletion Confirm Email</p>',
+  })),
+}));
+
+jest.mock('../../../src/utils/email/templates/accountDeletionScheduled', () => ({
+  generateAccountDeletionScheduledEmail: jest.fn(() => ({
+    subject: 'Account Deletion Subject',
+    html: '<p>Account Deletion Email</p>',
+  })),
+}));
+
 // Import mocks
 import { generateOtpEmail } from '../../../src/utils/email/templates/otpEmail';
 import { generateVerifyEmail } from '../../../src/utils/email/templates/verifyEmail';
 import { generateResetSuccessEmail } from '../../../src/utils/email/templates/passwordResetSuccess';
+import { generateBackupCodeUsedEmail } from '../../../src/utils/email/templates/backupCodeUsed';
+import { generateBackupCodesRegeneratedEmail } from '../../../src/utils/email/templates/backupCodesRegenerated';
+import { generateMagicLinkEmail } from '../../../src/utils/email/templates/magicLinkEmail';
+import { generatePasswordResetRequiredEmail } from '../../../src/utils/email/templates/passwordResetRequired';
+import { generateAccountLockedEmail } from '../../../src/utils/email/templates/accountLocked';
+import { generateEmailChangeConfirmEmail } from '../../../src/utils/email/templates/emailChangeConfirm';
+import { generateEmailChangeNoticeEmail } from '../../../src/utils/email/templates/emailChangeNotice';
+import { generateAccountDeletionConfirmEmail } from '../../../src/utils/email/templates/accountDeletionConfirm';
+import { generateAccountDeletionScheduledEmail } from '../../../src/utils/email/templates/accountDeletionScheduled';
 
 describe('EmailService', () => {
   const mockUser = {
@@ -64,6 +136,54 @@ describe('EmailService', () => {
       templateFn: generateResetSuccessEmail,
       expected: { subject: 'Reset Subject', html: '<p>Reset Success Email</p>' },
     },
+    {
+      type: 'BACKUP_CODE_USED' as const,
+      payload: { user: mockUser, usage: 'login' as const, remainingCodes: 9 },
+      templateFn: generateBackupCodeUsedEmail,
+      expected: { subject: 'Backup Code Subject', html: '<p>Backup Code Used Email</p>' },
+    },
+    {
+      type: 'BACKUP_CODES_REGENERATED' as const,
+      payload: { user: mockUser },
+      templateFn: generateBackupCodesRegeneratedEmail,
+      expected: { subject: 'Backup Codes Regenerated Subject', html: '<p>Backup Codes Regenerated Email</p>' },
+    },
+    {
+      type: 'MAGIC_LINK' as const,
+      payload: { user: mockUser, magicLink: 'http://example.com/magic-link?token=abc' },
+      templateFn: generateMagicLinkEmail,
+      expected: { subject: 'Magic Link Subject', html: '<p>Magic Link Email</p>' },
+    },
+    {
+      type: 'PASSWORD_RESET_REQUIRED' as const,
+      payload: { user: mockUser, resetLink: 'http://example.com/auth' },
+      templateFn: generatePasswordResetRequiredEmail,
+      expected: { subject: 'Password Reset Required Subject', html: '<p>Password Reset Required Email</p>' },
+    },
+    {
+      type: 'ACCOUNT_LOCKED' as const,
+      payload: { user: mockUser, unlockLink: 'http://example.com/api/v1/unlock-account?token=abc' },
+      templateFn: generateAccountLockedEmail,
+      expected: { subject: 'Account Locked Subject', html: '<p>Account Locked Email</p>' },
+    },
+    {
+      type: 'EMAIL_CHANGE_NOTICE' as const,
+      payload: { user: mockUser, newEmail: 'new@example.com', cancelLink: 'http://example.com/api/v1/cancel-email-change?token=abc' },
+      templateFn: generateEmailChangeNoticeEmail,
+      expected: { subject: 'Email Change Notice Subject', html: '<p>Email Change Notice Email</p>' },
+    },
+    {
+      type: 'ACCOUNT_DELETION_CONFIRM' as const,
+      payload: { user: mockUser, confirmLink: 'http://example.com/api/v1/confirm-account-deletion?token=abc' },
+      templateFn: generateAccountDeletionConfirmEmail,
+      expected: { subject: 'Account Deletion Confirm Subject', html: '<p>Account Deletion Confirm Email</p>' },
+    },
+    {
+      type: 'ACCOUNT_DELETION_SCHEDULED' as const,
+      payload: { user: mockUser, undoLink: 'http://example.com/api/v1/restore-account?token=abc', deletionScheduledAt: new Date('2026-01-15') },
+      templateFn: generateAccountDeletionScheduledEmail,
+      expected: { subject: 'Account Deletion Subject', html: '<p>Account Deletion Email</p>' },
+    },
   ];
 
   test.each(cases)(
@@ -80,4 +200,18 @@ describe('EmailService', () => {
       });
     }
   );
-});
\ No newline at end of file
+
+  it('should send the email change confirmation to the new address', async () => {
+    const payload = { user: mockUser, newEmail: 'new@example.com', confirmationLink: 'http://example.com/api/v1/confirm-email-change?token=abc' };
+
+    await EmailService.sendEmail('EMAIL_CHANGE_CONFIRM', payload);
+
+    expect(generateEmailChangeConfirmEmail).toHaveBeenCalledWith(payload);
+    expect(transporter.sendMail).toHaveBeenCalledWith({
+      from: expect.stringContaining('no-reply'),
+      to: 'new@example.com',
+      subject: 'Email Change Confirm Subject',
+      html: '<p>Email Change Confirm Email</p>',
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import bcrypt from 'bcryptjs';
+import argon2 from 'argon2';
+import { compare, hash, hashSecret, identifyAlgorithm, needsRehash } from '../../../src/utils/encryption/hashing.encryption';
+
+jest.mock('../../../src/env', () => ({
+  env: {
+    passwordHashAlgorithm: 'argon2id',
+    bcryptSaltRounds: 4,
+    argon2: { memoryCost: 1024, timeCost: 2, parallelism: 1 },
+  },
+}));
+
+describe('Hashing', () => {
+  const plainText = 'password123';
+
+  it('hashes new secrets with argon2id and the configured parameters', async () => {
+    const hashed = await hash(plainText);
+
+    expect(hashed).toMatch(/^\$argon2id\$v=19\$m=1024,p=1,t=2\$/);
+    expect(identifyAlgorithm(hashed)).toBe('argon2id');
+    await expect(compare(plainText, hashed)).resolves.toBe(true);
+    await expect(compare('wrongPassword', hashed)).resolves.toBe(false);
+    expect(needsRehash(hashed)).toBe(false);
+  });
+
+  it('hashes generated secrets with argon2id at a fixed low cost', async () => {
+    const hashed = await hashSecret('abcde23456');
+
+    expect(hashed).toMatch(/^\$argon2id\$v=19\$m=4096,p=1,t=1\$/);
+    await expect(compare('abcde23456', hashed)).resolves.toBe(true);
+    await expect(compare('abcde23457', hashed)).resolves.toBe(false);
+  });
+
+  it('still verifies bcrypt hashes, and marks them for an upgrade', async () => {
+    const hashed = await bcrypt.hash(plainText, 4);
+
+    expect(identifyAlgorithm(hashed)).toBe('bcrypt');
+    await expect(compare(plainText, hashed)).resolves.toBe(true);
+    await expect(compare('wrongPassword', hashed)).resolves.toBe(false);
+    expect(needsRehash(hashed)).toBe(true);
+  });
+
+  it('marks argon2id hashes made with other parameters for an upgrade', async () => {
+    const hashed = await argon2.hash(plainText, { type: argon2.argon2id, memoryCost: 512, timeCost: 2, parallelism: 1 });
+
+    expect(needsRehash(hashed)).toBe(true);
+  });
+
+  it('rejects hashes no supported algorithm made', async () => {
+    expect(identifyAlgorithm('plain-text')).toBeNull();
+    await expect(compare('plain-text', 'plain-text')).resolves.toBe(false);
+    expect(needsRehash('plain-text')).toBe(true);
+  });
+});
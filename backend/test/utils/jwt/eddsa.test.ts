@@ -0,0 +1,88 @@
+import * as crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { signEdDSA, verifyEdDSA } from '../../../src/utils/jwt/eddsa';
+
+describe('EdDSA JWT helpers', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const payload = { userId: 'user123', type: 'access' };
+
+  it('should sign a token with an EdDSA header and verify it', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: '1h', header: { kid: 'ed-key', alg: 'EdDSA' } });
+
+    const decoded = jwt.decode(token, { complete: true });
+    expect(decoded?.header).toEqual({ alg: 'EdDSA', typ: 'JWT', kid: 'ed-key' });
+
+    const verified = verifyEdDSA(token, publicKey) as jwt.JwtPayload;
+    expect(verified).toMatchObject(payload);
+    expect(verified.exp).toBe((verified.iat as number) + 3600);
+  });
+
+  it('should reject a token signed by another key', () => {
+    const other = crypto.generateKeyPairSync('ed25519');
+    const token = signEdDSA(payload, other.privateKey, { expiresIn: '1h' });
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow('invalid signature');
+  });
+
+  it('should reject a token with a tampered payload', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: '1h' });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ ...payload, userId: 'admin' })).toString('base64url');
+
+    expect(() => verifyEdDSA(`${header}.${forgedPayload}.${signature}`, publicKey)).toThrow('invalid signature');
+  });
+
+  it('should reject tokens that do not use EdDSA', () => {
+    const token = jwt.sign(payload, 'secret', { algorithm: 'HS256' });
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow('invalid algorithm');
+  });
+
+  it('should reject unsigned tokens', () => {
+    const token = jwt.sign(payload, null, { algorithm: 'none' });
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: -10 });
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow(jwt.TokenExpiredError);
+  });
+
+  it('should accept a recently expired token within the clock tolerance', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: -10 });
+
+    expect(verifyEdDSA(token, publicKey, { clockTolerance: 30 })).toMatchObject(payload);
+  });
+
+  it('should reject tokens that are not active yet', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: '1h', notBefore: '10m' });
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow(jwt.NotBeforeError);
+  });
+
+  it('should reject a non-numeric exp claim', () => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode({ alg: 'EdDSA', typ: 'JWT' })}.${encode({ ...payload, exp: 'never' })}`;
+    const signature = crypto.sign(null, Buffer.from(signingInput), privateKey).toString('base64url');
+    const token = `${signingInput}.${signature}`;
+
+    expect(() => verifyEdDSA(token, publicKey)).toThrow('invalid exp value');
+  });
+
+  it('should check the issuer and audience', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: '1h', issuer: 'https://auth.example.com', audience: ['api', 'web'] });
+
+    expect(verifyEdDSA(token, publicKey, { issuer: 'https://auth.example.com', audience: 'web' })).toMatchObject(payload);
+    expect(() => verifyEdDSA(token, publicKey, { issuer: 'https://evil.example.com' })).toThrow('jwt issuer invalid');
+    expect(() => verifyEdDSA(token, publicKey, { audience: 'admin' })).toThrow('jwt audience invalid');
+  });
+
+  it('should reject tokens without the expected claims', () => {
+    const token = signEdDSA(payload, privateKey, { expiresIn: '1h' });
+
+    expect(() => verifyEdDSA(token, publicKey, { issuer: 'https://auth.example.com' })).toThrow(jwt.JsonWebTokenError);
+    expect(() => verifyEdDSA(token, publicKey, { audience: 'api' })).toThrow(jwt.JsonWebTokenError);
+  });
+});
@@ -0,0 +1,271 @@
+import * as crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createAsymmetricKey,
+  createKeyStore,
+  createSecretKey,
+  jwkThumbprint,
+  keyStore,
+  loadKeyFile,
+  SigningKey,
+  toPublicJwk,
+} from '../../../src/utils/jwt/keyStore';
+import { TokenService } from '../../../src/services/token.service';
+import { verifyEdDSA } from '../../../src/utils/jwt/eddsa';
+
+jest.mock('../../../src/env', () => {
+  const { generateKeyPairSync } = jest.requireActual('crypto');
+  const { writeFileSync, mkdtempSync } = jest.requireActual('fs');
+  const { join } = jest.requireActual('path');
+  const { tmpdir } = jest.requireActual('os');
+
+  const keyPath = join(mkdtempSync(join(tmpdir(), 'jwt-keys-')), 'access.pem');
+  const { privateKey } = generateKeyPairSync('ed25519');
+  writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+
+  return {
+    env: {
+      accessTokenSecret: 'mock-access-secret',
+      refreshTokenSecret: 'mock-refresh-secret',
+      verificationTokenSecret: 'mock-verification-secret',
+      accessTokenAlgorithm: 'EdDSA',
+      accessTokenPrivateKeyPath: keyPath,
+      accessTokenKeyId: 'access-ed25519-v1',
+      jwtClaims: {
+        access: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/api' },
+        refresh: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/refresh' },
+        verification: { issuer: 'http://localhost:3000', audience: 'http://localhost:3000/verification' },
+      },
+      jwtClockToleranceSeconds: 0,
+    },
+  };
+});
+
+describe('keyStore', () => {
+  describe('createAsymmetricKey', () => {
+    it('should build an RS256 key with a thumbprint kid', () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const key = createAsymmetricKey('access', 'RS256', privateKey.export({ type: 'pkcs8', format: 'pem' }) as string);
+
+      expect(key.alg).toBe('RS256');
+      expect(key.kid).toBe(jwkThumbprint(publicKey));
+    });
+
+    it('should reject a key that does not match the algorithm', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ed25519');
+      const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+
+      expect(() => createAsymmetricKey('access', 'RS256', pem)).toThrow('RS256 requires a rsa key, got ed25519.');
+    });
+  });
+
+  describe('toPublicJwk', () => {
+    it('should not publish shared secrets', () => {
+      expect(toPublicJwk(createSecretKey('refresh', 'secret-v1', 'secret'))).toBeNull();
+    });
+
+    it('should publish only the public part of an asymmetric key', () => {
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const key = createAsymmetricKey('access', 'RS256', privateKey.export({ type: 'pkcs8', format: 'pem' }) as string, 'rsa-v1');
+      const jwk = toPublicJwk(key);
+
+      expect(jwk).toMatchObject({ kty: 'RSA', kid: 'rsa-v1', alg: 'RS256', use: 'sig' });
+      expect(jwk).not.toHaveProperty('d');
+    });
+  });
+
+  describe('createKeyStore', () => {
+    const current = (key: SigningKey): SigningKey => ({ ...key, current: true });
+    const baseKeys = [
+      current(createSecretKey('refresh', 'refresh-v1', 'refresh-secret')),
+      current(createSecretKey('verification', 'verification-v1', 'verification-secret')),
+    ];
+
+    it('should sign with the current key and verify older keys until they retire', () => {
+      const retiresAt = new Date('2030-01-01T00:00:00Z');
+      const store = createKeyStore([
+        ...baseKeys,
+        current(createSecretKey('access', 'access-v2', 'new-secret')),
+        { ...createSecretKey('access', 'access-v1', 'old-secret'), retiresAt },
+      ]);
+
+      expect(store.getSigningKey('access').kid).toBe('access-v2');
+      expect(store.getVerificationKey('access-v1', new Date('2029-12-31T23:59:59Z'))?.kid).toBe('access-v1');
+      expect(store.getVerificationKey('access-v1', retiresAt)).toBeUndefined();
+      expect(store.getVerificationKey('access-v2', new Date('2040-01-01T00:00:00Z'))?.kid).toBe('access-v2');
+    });
+
+    it('should use the verification ring for other short-lived token types', () => {
+      const store = createKeyStore([...baseKeys, current(createSecretKey('access', 'access-v1', 'secret'))]);
+
+      expect(store.getSigningKey('verification').kid).toBe('verification-v1');
+    });
+
+    it('should sign OpenID Connect client tokens with the access ring', () => {
+      const store = createKeyStore([...baseKeys, current(createSecretKey('access', 'access-v1', 'secret'))]);
+
+      expect(store.getSigningKey('client_access').kid).toBe('access-v1');
+    });
+
+    it('should stop publishing retired keys in the JWKS', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ed25519');
+      const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+      const store = createKeyStore([
+        ...baseKeys,
+        current(createSecretKey('access', 'access-v2', 'secret')),
+        { ...createAsymmetricKey('access', 'EdDSA', pem, 'access-ed-v1'), retiresAt: new Date('2030-01-01T00:00:00Z') },
+      ]);
+
+      expect(store.getJwks(new Date('2029-01-01T00:00:00Z')).keys.map((key) => key.kid)).toEqual(['access-ed-v1']);
+      expect(store.getJwks(new Date('2031-01-01T00:00:00Z')).keys).toEqual([]);
+    });
+
+    it('should require exactly one current key per ring', () => {
+      expect(() => createKeyStore(baseKeys)).toThrow('Key ring "access" has no current key.');
+      expect(() => createKeyStore([
+        ...baseKeys,
+        current(createSecretKey('access', 'access-v1', 'a')),
+        current(createSecretKey('access', 'access-v2', 'b')),
+      ])).toThrow('Key ring "access" has more than one current key.');
+    });
+
+    it('should reject duplicate kids and retiring current keys', () => {
+      expect(() => createKeyStore([
+        ...baseKeys,
+        current(createSecretKey('access', 'refresh-v1', 'a')),
+      ])).toThrow('Duplicate signing key kid "refresh-v1".');
+      expect(() => createKeyStore([
+        ...baseKeys,
+        { ...current(createSecretKey('access', 'access-v1', 'a')), retiresAt: new Date() },
+      ])).toThrow('Current key "access-v1" cannot have a retirement date.');
+    });
+  });
+
+  describe('loadKeyFile', () => {
+    const writeKeyFile = (content: object): string => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keyring-'));
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      fs.writeFileSync(path.join(dir, 'access.pem'), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+      const filePath = path.join(dir, 'keys.json');
+      fs.writeFileSync(filePath, JSON.stringify(content));
+      return filePath;
+    };
+
+    it('should load secrets and private keys relative to the file', () => {
+      const filePath = writeKeyFile({
+        access: [
+          { kid: 'access-rsa-v1', alg: 'RS256', privateKeyPath: 'access.pem', current: true },
+          { kid: 'access-token-v1', alg: 'HS256', secret: 'old', retiresAt: '2030-01-01T00:00:00Z' },
+        ],
+        refresh: [{ kid: 'refresh-v1', alg: 'HS256', secret: 'refresh', current: true }],
+        verification: [{ kid: 'verification-v1', alg: 'HS256', secret: 'verification', current: true }],
+      });
+
+      const keys = loadKeyFile(filePath);
+      const store = createKeyStore(keys);
+
+      expect(store.getSigningKey('access')).toMatchObject({ kid: 'access-rsa-v1', alg: 'RS256' });
+      expect(keys.find((key) => key.kid === 'access-token-v1')?.retiresAt).toEqual(new Date('2030-01-01T00:00:00Z'));
+    });
+
+    it('should add the ID token key from the environment unless the file has one', () => {
+      const rings = {
+        access: [{ kid: 'access-v1', alg: 'HS256', secret: 'access', current: true }],
+        refresh: [{ kid: 'refresh-v1', alg: 'HS256', secret: 'refresh', current: true }],
+        verification: [{ kid: 'verification-v1', alg: 'HS256', secret: 'verification', current: true }],
+      };
+
+      expect(createKeyStore(loadKeyFile(writeKeyFile(rings))).getIdTokenSigningKey().alg).toBe('RS256');
+
+      const store = createKeyStore(loadKeyFile(writeKeyFile({
+        ...rings,
+        id_token: [{ kid: 'id-token-v1', alg: 'RS256', privateKeyPath: 'access.pem', current: true }],
+      })));
+      expect(store.getIdTokenSigningKey().kid).toBe('id-token-v1');
+    });
+
+    it('should reject shared secrets for ID tokens', () => {
+      const filePath = writeKeyFile({
+        id_token: [{ kid: 'id-token-v1', alg: 'HS256', secret: 'secret', current: true }],
+      });
+
+      expect(() => loadKeyFile(filePath)).toThrow(/id_token\.0\.alg must be RS256 or EdDSA/);
+    });
+
+    it('should reject invalid key files', () => {
+      const filePath = writeKeyFile({
+        access: [{ kid: 'access-v1', alg: 'HS256', current: true }],
+      });
+
+      expect(() => loadKeyFile(filePath)).toThrow(/Invalid key file/);
+    });
+  });
+
+  describe('with an EdDSA access key', () => {
+    it('should publish the access key in the JWKS', () => {
+      const { keys } = keyStore.getJwks();
+
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', kid: 'access-ed25519-v1', alg: 'EdDSA', use: 'sig' });
+    });
+
+    it('should sign ID tokens with a key of their own, published next to the access key', () => {
+      const idTokenKey = keyStore.getIdTokenSigningKey();
+
+      expect(idTokenKey).toMatchObject({ ring: 'id_token', alg: 'RS256' });
+      expect(keyStore.getJwks().keys[1]).toMatchObject({ kty: 'RSA', kid: idTokenKey.kid, alg: 'RS256', use: 'sig' });
+    });
+
+    it('should sign access tokens that can be verified from the JWKS alone', () => {
+      const token = TokenService.generateToken({ userId: 'user123', type: 'access' });
+      const { header } = jwt.decode(token, { complete: true })!;
+      const jwk = keyStore.getJwks().keys.find((key) => key.kid === header.kid)!;
+      const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+      expect(verifyEdDSA(token, publicKey)).toMatchObject({ userId: 'user123', type: 'access' });
+      expect(TokenService.verifyToken(token)).toMatchObject({ userId: 'user123', type: 'access' });
+    });
+
+    it('should keep signing refresh tokens with their shared secret', () => {
+      const token = TokenService.generateToken({ userId: 'user123', type: 'refresh' });
+      const { header } = jwt.decode(token, { complete: true })!;
+
+      expect(header).toMatchObject({ alg: 'HS256', kid: 'refresh-token-v1' });
+      expect(TokenService.verifyToken(token).type).toBe('refresh');
+    });
+
+    it('should still accept access tokens signed with the previous HS256 secret', () => {
+      const legacyToken = jwt.sign({ userId: 'user123', type: 'access', jti: 'jti1' }, 'mock-access-secret', {
+        header: { kid: 'access-token-v1', alg: 'HS256' },
+        subject: 'user123',
+        issuer: 'http://localhost:3000',
+        audience: 'http://localhost:3000/api',
+      });
+
+      expect(TokenService.verifyToken(legacyToken).userId).toBe('user123');
+    });
+
+    it('should reject a token whose type does not match the key ring', () => {
+      const forged = jwt.sign({ userId: 'user123', type: 'access', jti: 'jti1' }, 'mock-refresh-secret', {
+        header: { kid: 'refresh-token-v1', alg: 'HS256' },
+        subject: 'user123',
+        issuer: 'http://localhost:3000',
+        audience: 'http://localhost:3000/refresh',
+      });
+
+      expect(() => TokenService.verifyToken(forged)).toThrow('Invalid token type for signing key');
+    });
+
+    it('should reject an HS256 token forged with the public key as secret', () => {
+      const jwk = keyStore.getJwks().keys[0];
+      const forged = jwt.sign({ userId: 'admin', type: 'access' }, JSON.stringify(jwk), {
+        header: { kid: jwk.kid, alg: 'HS256' },
+      });
+
+      expect(() => TokenService.verifyToken(forged)).toThrow('Invalid token');
+    });
+  });
+});
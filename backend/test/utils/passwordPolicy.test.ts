@@ -0,0 +1,96 @@
+import {
+  BREACHED_PASSWORD_MESSAGE,
+  PERSONAL_INFO_MESSAGE,
+  PasswordPolicy,
+  WEAK_PASSWORD_MESSAGE,
+  checkPassword,
+  checkPersonalInfo,
+  describePasswordPolicy,
+  estimateStrength,
+} from '../../src/utils/passwordPolicy';
+import { createUserSchema, loginUserSchema } from '../../src/schemas/auth.schema';
+
+jest.mock('../../src/env', () => ({
+  env: {
+    breachedPasswordsPath: 'data/breached-passwords.txt',
+    passwordPolicy: {
+      minLength: 8,
+      maxLength: 128,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      minStrength: 2,
+      historySize: 5,
+      forbidPersonalInfo: true,
+      rejectBreached: true,
+    },
+  },
+}));
+
+describe('password policy', () => {
+  const lenient: PasswordPolicy = {
+    minLength: 1,
+    maxLength: 128,
+    requireUppercase: false,
+    requireLowercase: false,
+    requireDigit: false,
+    requireSymbol: false,
+    minStrength: 0,
+    historySize: 0,
+    forbidPersonalInfo: false,
+    rejectBreached: false,
+  };
+
+  it('reports every broken length and character class rule', () => {
+    expect(checkPassword('abc')).toEqual([
+      'Password must be at least 8 characters.',
+      'Password must contain at least one uppercase letter.',
+      'Password must contain at least one number.',
+      'Password must contain at least one special character (e.g. @, #, $).',
+    ]);
+  });
+
+  it('accepts long passphrases', () => {
+    expect(checkPassword('Correct horse battery staple 9!')).toEqual([]);
+  });
+
+  it('rejects guessable and breached passwords once the basic rules pass', () => {
+    expect(checkPassword('Qwerty123456!')).toEqual([WEAK_PASSWORD_MESSAGE]);
+    expect(checkPassword('P@ssw0rd')).toEqual([BREACHED_PASSWORD_MESSAGE]);
+  });
+
+  it('scores patterns lower than random characters of the same length', () => {
+    expect(estimateStrength('aaaaaaaaaa')).toBe(0);
+    expect(estimateStrength('abcdefgh12345')).toBeLessThanOrEqual(1);
+    expect(estimateStrength('P4ssw0rd2024')).toBeLessThanOrEqual(2);
+    expect(estimateStrength('Kx7#qLm2vR')).toBe(4);
+  });
+
+  it('forbids the name and the local part of the email address', () => {
+    const info = { email: 'jane.doe@example.com', firstName: 'Jane', lastName: 'Doe' };
+
+    expect(checkPersonalInfo('MyJane#2024x', info)).toEqual([PERSONAL_INFO_MESSAGE]);
+    expect(checkPersonalInfo('x.JANE.DOE.x', info)).toEqual([PERSONAL_INFO_MESSAGE]);
+    expect(checkPersonalInfo('Kx7#qLm2vR', info)).toEqual([]);
+    expect(checkPersonalInfo('MyJane#2024x', info, lenient)).toEqual([]);
+  });
+
+  it('describes only the rules that are switched on', () => {
+    expect(describePasswordPolicy(lenient)).toEqual(['Between 1 and 128 characters.']);
+    expect(describePasswordPolicy()).toContain('Not one of your last 5 passwords.');
+  });
+
+  it('checks new passwords on signup, but not existing ones on login', () => {
+    const signup = createUserSchema.safeParse({
+      email: 'jane@example.com',
+      password: 'Jane#Kx7qLm2v',
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+    const login = loginUserSchema.safeParse({ email: 'jane@example.com', password: 'short' });
+
+    expect(signup.error?.issues).toEqual([expect.objectContaining({ path: ['password'], message: PERSONAL_INFO_MESSAGE })]);
+    expect(login.success).toBe(true);
+  });
+});
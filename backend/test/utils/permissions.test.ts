@@ -0,0 +1,27 @@
+import { accessClaimsFor, PERMISSIONS, resolvePermissions } from '../../src/utils/permissions';
+
+describe('permissions', () => {
+  it('should combine role permissions with directly granted ones', () => {
+    expect(resolvePermissions(['user'], ['users:read'])).toEqual(['posts:read', 'sessions:read', 'users:read']);
+  });
+
+  it('should give admins every permission', () => {
+    expect(resolvePermissions(['admin'])).toEqual([...PERMISSIONS]);
+  });
+
+  it('should default users without roles to the user role', () => {
+    expect(accessClaimsFor({})).toEqual({
+      roles: ['user'],
+      permissions: ['posts:read', 'sessions:read'],
+      authzVersion: 0,
+    });
+  });
+
+  it('should carry the authorization version', () => {
+    expect(accessClaimsFor({ roles: ['moderator'], authzVersion: 3 })).toEqual({
+      roles: ['moderator'],
+      permissions: ['posts:read', 'posts:write', 'sessions:read'],
+      authzVersion: 3,
+    });
+  });
+});
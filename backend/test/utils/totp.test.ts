@@ -0,0 +1,80 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../src/utils/totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890") in base32.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+      expect(base32Encode(bytes)).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true);
+    });
+
+    it('should ignore padding, whitespace and case when decoding', () => {
+      expect(base32Decode('mzxw 6===').toString()).toBe('foo');
+    });
+
+    it('should throw on characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character.');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111111 * 1000;
+
+    it('should return the matching time step', () => {
+      expect(verifyTotp(RFC_SECRET, '050471', 1, now)).toBe(Math.floor(1111111111 / 30));
+    });
+
+    it('should accept a code from an adjacent step within the window', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+      expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(Math.floor(1111111111 / 30) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const old = generateTotp(RFC_SECRET, now - 90 * 1000);
+      expect(verifyTotp(RFC_SECRET, old, 1, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build a key URI authenticator apps understand', () => {
+      const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'My App');
+      expect(uri).toBe(
+        'otpauth://totp/My%20App%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=My+App&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
@@ -2,6 +2,10 @@ import 'bootstrap/dist/css/bootstrap.min.css';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import AuthPage from './pages/AuthPage';
 import VerifyEmailPage from './pages/VerifyEmailPage';
+import MagicLinkPage from './pages/MagicLinkPage';
+import OAuthLinkPage from './pages/OAuthLinkPage';
+import OidcAuthorizePage from './pages/OidcAuthorizePage';
+import ProfilePage from './pages/ProfilePage';
 
 function App() {
   return (
@@ -10,6 +14,10 @@ function App() {
         <Route path="/" element={<h1>Home</h1>} />
         <Route path="/auth" element={<AuthPage />} />
         <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/magic-link" element={<MagicLinkPage />} />
+        <Route path="/oauth/link" element={<OAuthLinkPage />} />
+        <Route path="/oidc/authorize" element={<OidcAuthorizePage />} />
+        <Route path="/profile" element={<ProfilePage />} />
         <Route path="*" element={<h1>Page not found</h1>} />
       </Routes>
     </BrowserRouter>
@@ -1,10 +1,13 @@
 import { useState } from 'react';
 import LoginForm from './LoginForm';
 import SignupForm from './SignupForm';
+import SocialLoginButtons from './SocialLoginButtons';
 import { Card, Container } from 'react-bootstrap';
 
 export default function AuthSwitcher() {
   const [isLogin, setIsLogin] = useState(true);
+  // Shared so social sign-in honours the box ticked on the login form.
+  const [rememberMe, setRememberMe] = useState(false);
 
   return (
     <Container
@@ -14,8 +17,9 @@ export default function AuthSwitcher() {
     >
       <Card className="shadow-lg border-0 rounded-4 p-4" style={{ maxWidth: '420px', width: '100%' }}>      <Card.Body>
         {isLogin
-          ? <LoginForm onSwitch={() => setIsLogin(false)} />
+          ? <LoginForm onSwitch={() => setIsLogin(false)} rememberMe={rememberMe} onRememberMeChange={setRememberMe} />
           : <SignupForm onSwitch={() => setIsLogin(true)} />}
+        <SocialLoginButtons rememberMe={isLogin && rememberMe} />
       </Card.Body>
       </Card>
     </Container>
@@ -1,26 +1,21 @@
-import { Form, Button, FormControl } from 'react-bootstrap';
+import { Form, Button, FormControl, Alert } from 'react-bootstrap';
 import { useRef, useState } from 'react';
 import { z } from 'zod';
 import axios, { AxiosError } from 'axios';
 import { env } from '../../env';
 import CountdownButton from '../CountdownButton';
-import { useNavigate } from 'react-router-dom';
+import TwoFactorPrompt from './TwoFactorPrompt';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { IoReturnUpBack } from "react-icons/io5";
+import { browserSupportsWebAuthn, startAuthentication } from '@simplewebauthn/browser';
 
 const loginUserSchema = z.object({
   email: z
     .string()
     .email({ message: 'Please enter a valid email address.' })
     .transform((val) => val.trim().toLowerCase()),
-  password: z
-    .string()
-    .min(5, { message: 'Password must be at least 5 characters long.' })
-    .max(12, { message: 'Password must be between 5 and 12 characters long.' })
-    .regex(/[A-Z]/, { message: 'Password must contain at least one uppercase letter.' })
-    .regex(/[a-z]/, { message: 'Password must contain at least one lowercase letter.' })
-    .regex(/[0-9]/, { message: 'Password must contain at least one number.' })
-    .regex(/[^A-Za-z0-9]/, { message: 'Password must contain at least one special character (e.g. @, #, $).' })
-    .refine(val => !val.includes(' '), 'Password must not contain spaces.'),
+  // Not held to the password policy: it may have changed since this password was set.
+  password: z.string().min(1, { message: 'Password is required.' }),
   rememberMe: z.boolean().default(false),
 });
 
@@ -31,23 +26,54 @@ const OtpRequestSchema = z.object({
     .transform((val) => val.trim().toLowerCase()),
 });
 
+type ApiErrorBody = {
+  message?: string;
+  meta?: {
+    retryAfterSeconds?: number;
+    accountLocked?: boolean;
+    passwordResetRequired?: boolean;
+    deletionScheduled?: boolean;
+  };
+};
+
 type LoginUserInput = z.infer<typeof loginUserSchema>;
 type OtpRequestInput = z.infer<typeof OtpRequestSchema>;
 
 interface Props {
   onSwitch: () => void;
+  rememberMe: boolean;
+  onRememberMeChange: (rememberMe: boolean) => void;
 }
 
+// Set by the backend when it redirects back from an account unlock link:
+const unlockNotices: Record<string, { variant: string; message: string }> = {
+  success: { variant: 'success', message: 'Your account has been unlocked. You can sign in again.' },
+  invalid: { variant: 'danger', message: 'This unlock link has expired or was already used.' },
+};
+
+// Set by the backend when it redirects back from an account restore link:
+const accountRestoreNotices: Record<string, { variant: string; message: string }> = {
+  success: { variant: 'success', message: 'Your account will not be deleted. You can sign in again.' },
+  invalid: { variant: 'danger', message: 'This restore link has expired or was already used.' },
+};
+
+// Set by the backend when it redirects back from an account deletion confirmation link:
+const accountDeletionNotices: Record<string, { variant: string; message: string }> = {
+  scheduled: { variant: 'info', message: 'Your account will be deleted. We emailed you a link to keep it.' },
+  invalid: { variant: 'danger', message: 'This deletion link has expired or was already used.' },
+};
 
 
-export default function LoginForm({ onSwitch }: Props) {
+
+export default function LoginForm({ onSwitch, rememberMe, onRememberMeChange }: Props) {
   const [isLoading, setIsLoading] = useState(false);
   const [loginInfo, setLoginInfo] = useState('');
   const [loginInputError, setLoginInputError] = useState<Partial<Record<keyof LoginUserInput, string[]>>>({});
   const [email, setEmail] = useState('abutbulgilad@gmail.com');
   const passwordRef = useRef<HTMLInputElement>(null);
-  const [rememberMe, setRememberMe] = useState(false);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
   const [loginTimeout, setLoginTimeout] = useState(0);
+  const [passwordLockTimeout, setPasswordLockTimeout] = useState(0);
   const [isForgotPassword, setIsForgotPassword] = useState(false);
 
   const [forgotPasswordInfo, setForgotPasswordInfo] = useState('');
@@ -59,6 +85,10 @@ export default function LoginForm({ onSwitch }: Props) {
   const [otp, setOtp] = useState(['', '', '', '', '', '']);
   const [otpError, setOtpError] = useState('');
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const unlockNotice = unlockNotices[searchParams.get('unlock') ?? ''];
+  const accountRestoreNotice = accountRestoreNotices[searchParams.get('accountRestore') ?? ''];
+  const accountDeletionNotice = accountDeletionNotices[searchParams.get('accountDeletion') ?? ''];
 
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -85,6 +115,7 @@ export default function LoginForm({ onSwitch }: Props) {
       setLoginInputError({});
       setLoginInfo('');
       setLoginTimeout(0);
+      setPasswordLockTimeout(0);
 
       const response = await axios.post(`${env.backendDomain}/api/v1/login`, {
         email: parseResult.data.email,
@@ -92,6 +123,11 @@ export default function LoginForm({ onSwitch }: Props) {
         rememberMe: parseResult.data.rememberMe,
       });
 
+      if (response.data?.meta?.mfaRequired) {
+        setMfaToken(response.data.meta.mfaToken);
+        return;
+      }
+
       if (response.status === 200) console.log('Login successful!');
 
     } catch (err) {
@@ -127,12 +163,24 @@ export default function LoginForm({ onSwitch }: Props) {
           setLoginInfo('Email and password do not match');
           break;
 
-        // User Email Address Not Verified:
+        // Account Locked, Password Reset Required Or Deletion Scheduled:
         case 403:
+          if (data?.meta?.accountLocked || data?.meta?.passwordResetRequired || data?.meta?.deletionScheduled) {
+            setLoginInfo(data.message);
+            break;
+          }
+
+          // User Email Address Not Verified:
           const email = parseResult.data.email;
           navigate(`/verify-email?e=${btoa(email).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`);
           break;
 
+        // Too Many Failed Passwords (other sign-in methods stay available):
+        case 423:
+          setLoginInfo(data?.message || 'Too many failed sign-in attempts. Try again later.');
+          setPasswordLockTimeout(data?.meta?.retryAfterSeconds || 60);
+          break;
+
         // Limiter Error:
         case 429:
           if (data?.message) {
@@ -157,6 +205,78 @@ export default function LoginForm({ onSwitch }: Props) {
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    setIsLoading(true);
+    try {
+      setLoginInputError({});
+      setLoginInfo('');
+      setLoginTimeout(0);
+
+      const optionsResponse = await axios.post(`${env.backendDomain}/api/v1/login/passkey/options`);
+      const { challengeId, options } = optionsResponse.data.meta;
+
+      const credential = await startAuthentication({ optionsJSON: options });
+
+      const response = await axios.post(`${env.backendDomain}/api/v1/login/passkey`, {
+        challengeId,
+        credential,
+        rememberMe,
+      });
+
+      if (response.data?.meta?.mfaRequired) {
+        setMfaToken(response.data.meta.mfaToken);
+        return;
+      }
+
+      if (response.status === 200) console.log('Login successful!');
+
+    } catch (err) {
+
+      // The browser rejects with a DOMException-like error when the user dismisses the prompt:
+      if (!axios.isAxiosError(err)) {
+        setLoginInfo('Passkey sign-in was cancelled or is not available on this device.');
+        return;
+      }
+
+      const error = err as AxiosError<ApiErrorBody>;
+
+      if (!error.response) {
+        setLoginInfo('Network error or server is down.')
+        return;
+      }
+
+      const { status, data } = error.response;
+
+      switch (status) {
+
+        // Unknown or invalid passkey:
+        case 401:
+          setLoginInfo(data?.message || 'Passkey could not be verified.');
+          break;
+
+        // Account Locked, Deletion Scheduled, Password Reset Required Or User Email Address Not Verified:
+        case 403:
+          setLoginInfo((data?.meta?.accountLocked || data?.meta?.passwordResetRequired || data?.meta?.deletionScheduled) && data.message
+            ? data.message
+            : 'Please verify your email address before signing in.');
+          break;
+
+        // Limiter Error:
+        case 429:
+          setLoginInfo(data?.message || 'Too many requests! Try again later.');
+          setLoginTimeout(data?.meta?.retryAfterSeconds || 60);
+          break;
+
+        // Server Error:
+        default:
+          setLoginInfo('An unexpected error occurred. Please try again later.')
+          break;
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleForgotSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
 
@@ -252,6 +372,10 @@ export default function LoginForm({ onSwitch }: Props) {
 
   }
 
+  if (mfaToken) {
+    return <TwoFactorPrompt mfaToken={mfaToken} onCancel={() => setMfaToken(null)} />;
+  }
+
   if (isForgotPassword && otpSent) {
     return (
       <>
@@ -386,6 +510,9 @@ export default function LoginForm({ onSwitch }: Props) {
   return (
     <>
       <h1 className="text-center mb-4">Login</h1>
+      {unlockNotice && <Alert variant={unlockNotice.variant}>{unlockNotice.message}</Alert>}
+      {accountRestoreNotice && <Alert variant={accountRestoreNotice.variant}>{accountRestoreNotice.message}</Alert>}
+      {accountDeletionNotice && <Alert variant={accountDeletionNotice.variant}>{accountDeletionNotice.message}</Alert>}
       <Form onSubmit={handleSubmit} noValidate>
         {loginInfo && <Form.Text className="text-danger">{loginInfo}</Form.Text>}
 
@@ -433,19 +560,32 @@ export default function LoginForm({ onSwitch }: Props) {
             type="checkbox"
             label="Remember me"
             checked={rememberMe}
-            onChange={e => setRememberMe(e.target.checked)}
+            onChange={e => onRememberMeChange(e.target.checked)}
           />
         </Form.Group>
 
         <CountdownButton
           type='submit'
           className="w-100"
-          countdownSeconds={loginTimeout}
+          countdownSeconds={Math.max(loginTimeout, passwordLockTimeout)}
           disabled={isLoading}
         >
           Login
         </CountdownButton>
 
+        {browserSupportsWebAuthn() && (
+          <CountdownButton
+            type='button'
+            variant="outline-secondary"
+            className="w-100 mt-2"
+            countdownSeconds={loginTimeout}
+            disabled={isLoading}
+            onClick={handlePasskeyLogin}
+          >
+            Sign in with passkey
+          </CountdownButton>
+        )}
+
         <div className="mt-3 text-center">
           <Button variant="link" onClick={() => setIsForgotPassword(true)}>
             Forgot Password?
@@ -1,5 +1,6 @@
-import { Form, Button } from 'react-bootstrap';
-import { useState } from 'react';
+import { Form, Button, FormControl } from 'react-bootstrap';
+import { useEffect, useState } from 'react';
+import { checkPassword, fetchPasswordPolicy, type PasswordPolicyResponse } from '../../passwordPolicy';
 
 interface Props {
   onSwitch: () => void;
@@ -10,9 +11,21 @@ export default function SignupForm({ onSwitch }: Props) {
   const [lastName, setLastName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicyResponse | null>(null);
+  const [passwordErrors, setPasswordErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Without the policy the server still checks the password on submit.
+    fetchPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null));
+  }, []);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    const issues = passwordPolicy ? checkPassword(password, passwordPolicy.policy) : [];
+    setPasswordErrors(issues);
+    if (issues.length > 0) return;
+
     console.log({ firstName, lastName, email, password });
   };
 
@@ -36,7 +49,24 @@ export default function SignupForm({ onSwitch }: Props) {
 
       <Form.Group className="mb-3">
         <Form.Label>סיסמה</Form.Label>
-        <Form.Control type="password" value={password} onChange={e => setPassword(e.target.value)} required />
+        <Form.Control
+          type="password"
+          value={password}
+          onChange={e => {
+            setPassword(e.target.value);
+            setPasswordErrors([]);
+          }}
+          isInvalid={passwordErrors.length > 0}
+          required
+        />
+        {passwordErrors.map((err, index) => (
+          <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+        ))}
+        {passwordPolicy && (
+          <Form.Text as="ul" className="mt-2 ps-3">
+            {passwordPolicy.rules.map((rule) => <li key={rule}>{rule}</li>)}
+          </Form.Text>
+        )}
       </Form.Group>
 
       <Button type="submit" variant="success" className="w-100">הירשם</Button>
@@ -46,4 +76,4 @@ export default function SignupForm({ onSwitch }: Props) {
       </div>
     </Form>
   );
-}
\ No newline at end of file
+}
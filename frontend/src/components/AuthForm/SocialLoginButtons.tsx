@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Alert, Button } from 'react-bootstrap';
+import axios from 'axios';
+import { env } from '../../env';
+
+const providerLabel = (provider: string) => provider.charAt(0).toUpperCase() + provider.slice(1);
+
+interface Props {
+  rememberMe: boolean;
+}
+
+export default function SocialLoginButtons({ rememberMe }: Props) {
+  const [providers, setProviders] = useState<string[]>([]);
+  const [searchParams] = useSearchParams();
+  const oauthError = searchParams.get('oauthError');
+
+  useEffect(() => {
+    axios
+      .get<{ meta: { providers: string[] } }>(`${env.backendDomain}/api/v1/oauth/providers`)
+      .then((response) => setProviders(response.data.meta.providers))
+      .catch(() => setProviders([]));
+  }, []);
+
+  if (providers.length === 0 && !oauthError) return null;
+
+  return (
+    <div className="mt-3">
+      {oauthError && <Alert variant="danger">{oauthError}</Alert>}
+
+      {providers.map((provider) => (
+        <Button
+          key={provider}
+          variant="outline-secondary"
+          className="w-100 mb-2"
+          // The backend keeps rememberMe in the OAuth state and applies it when the provider sends the user back.
+          href={`${env.backendDomain}/api/v1/oauth/${provider}/authorize?rememberMe=${rememberMe}`}
+        >
+          Continue with {providerLabel(provider)}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Alert, Button, Form, FormControl } from 'react-bootstrap';
+import axios, { AxiosError } from 'axios';
+import { env } from '../../env';
+
+type ApiErrorBody = {
+  message?: string;
+  details?: Record<string, string[]>;
+  meta?: {
+    attemptsLeft?: number;
+  };
+};
+
+interface Props {
+  // Returned with `mfaRequired` by every first-factor sign-in (password, passkey, magic link, OAuth).
+  mfaToken: string;
+  onCancel?: () => void;
+}
+
+export default function TwoFactorPrompt({ mfaToken, onCancel }: Props) {
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await axios.post(
+        `${env.backendDomain}/api/v1/login/2fa`,
+        useBackupCode ? { mfaToken, backupCode: code.trim() } : { mfaToken, code: code.trim() },
+        { withCredentials: true }
+      );
+
+      if (response.status === 200) {
+        console.log('Login successful!');
+        setIsSignedIn(true);
+      }
+    } catch (err) {
+      const error = err as AxiosError<ApiErrorBody>;
+
+      if (!error.response) {
+        setError('Network error or server is down.');
+        return;
+      }
+
+      const { status, data } = error.response;
+
+      switch (status) {
+
+        // Server Validation Error:
+        case 400:
+          setError(Object.values(data?.details ?? {})[0]?.[0] ?? 'Invalid code.');
+          break;
+
+        // Wrong Code, Or The Challenge Expired:
+        case 401:
+          setError(data?.meta?.attemptsLeft !== undefined
+            ? `${data.message} ${data.meta.attemptsLeft} attempt(s) left.`
+            : data?.message || 'Invalid two-factor code.');
+          break;
+
+        // Limiter Error:
+        case 429:
+          setError(data?.message || 'Too many requests! Try again later.');
+          break;
+
+        // Server Error:
+        default:
+          setError('An unexpected error occurred. Please try again later.');
+          break;
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSignedIn) {
+    return <Alert variant="success">You are signed in.</Alert>;
+  }
+
+  return (
+    <Form onSubmit={handleSubmit} noValidate>
+      <h3 className="text-center mb-3">Two-Factor Authentication</h3>
+      <p className="text-center">
+        {useBackupCode
+          ? 'Enter one of your backup codes.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+
+      <Form.Group className="mb-3" controlId="twoFactorCode">
+        <Form.Control
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError('');
+          }}
+          inputMode={useBackupCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          placeholder={useBackupCode ? 'xxxxx-xxxxx' : '123456'}
+          isInvalid={!!error}
+          autoFocus
+          required
+        />
+        {error && <FormControl.Feedback type='invalid'>{error}</FormControl.Feedback>}
+      </Form.Group>
+
+      <Button type="submit" className="w-100" disabled={isLoading || !code.trim()}>
+        Verify
+      </Button>
+
+      <div className="mt-3 text-center">
+        <Button
+          variant="link"
+          onClick={() => {
+            setUseBackupCode(!useBackupCode);
+            setCode('');
+            setError('');
+          }}
+        >
+          {useBackupCode ? 'Use your authenticator app' : 'Use a backup code'}
+        </Button>
+        {onCancel && <Button variant="link" onClick={onCancel}>Back to Login</Button>}
+      </div>
+    </Form>
+  );
+}
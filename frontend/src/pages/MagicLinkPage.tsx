@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Container, Alert, Spinner } from 'react-bootstrap';
+import axios from 'axios';
+import { env } from '../env';
+import TwoFactorPrompt from '../components/AuthForm/TwoFactorPrompt';
+
+type Status = 'loading' | 'success' | 'mfa' | 'error';
+
+export default function MagicLinkPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<Status>(token ? 'loading' : 'error');
+  const [error, setError] = useState<string | null>(token ? null : 'This sign-in link is incomplete.');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+
+  // Links are single-use, so make sure StrictMode's double effect run does not burn it twice.
+  const consumed = useRef(false);
+
+  useEffect(() => {
+    if (!token || consumed.current) return;
+    consumed.current = true;
+
+    const consume = async () => {
+      try {
+        const response = await axios.post(`${env.backendDomain}/api/v1/login/magic-link/consume`, { token });
+
+        if (response.data?.meta?.mfaRequired) {
+          setMfaToken(response.data.meta.mfaToken);
+          setStatus('mfa');
+          return;
+        }
+
+        console.log('Login successful!');
+        setStatus('success');
+      } catch (err) {
+        const response = axios.isAxiosError<{ message?: string }>(err) ? err.response : undefined;
+        // 403: the account is locked, scheduled for deletion or must reset its password.
+        const message = response?.status === 401
+          ? 'This sign-in link has expired or was already used. Please request a new one.'
+          : response?.status === 403 && response.data?.message
+            ? response.data.message
+            : 'An unexpected error occurred. Please try again later.';
+        setError(message);
+        setStatus('error');
+      }
+    };
+
+    consume();
+  }, [token]);
+
+  return (
+    <Container className="mt-5" style={{ maxWidth: '500px' }}>
+      <h3 className="mb-3">Sign In</h3>
+
+      {status === 'loading' && <Spinner animation="border" />}
+      {status === 'success' && <Alert variant="success">You are signed in.</Alert>}
+      {status === 'mfa' && mfaToken && <TwoFactorPrompt mfaToken={mfaToken} />}
+      {status === 'error' && (
+        <Alert variant="danger">
+          {error} <Link to="/auth">Back to login</Link>
+        </Alert>
+      )}
+    </Container>
+  );
+}
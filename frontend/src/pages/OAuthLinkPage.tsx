@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Container, Alert, Button, Form } from 'react-bootstrap';
+import axios from 'axios';
+import { env } from '../env';
+import TwoFactorPrompt from '../components/AuthForm/TwoFactorPrompt';
+
+type Status = 'idle' | 'submitting' | 'success' | 'mfa';
+
+type ApiErrorBody = {
+  message?: string;
+};
+
+export default function OAuthLinkPage() {
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token');
+  const provider = searchParams.get('provider') ?? 'your provider';
+  const email = searchParams.get('email');
+
+  const [password, setPassword] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(linkToken ? null : 'This account link request is incomplete.');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setStatus('submitting');
+
+    try {
+      const response = await axios.post(
+        `${env.backendDomain}/api/v1/login/oauth-link`,
+        { linkToken, password },
+        { withCredentials: true }
+      );
+
+      if (response.data?.meta?.mfaRequired) {
+        setMfaToken(response.data.meta.mfaToken);
+        setStatus('mfa');
+        return;
+      }
+
+      setStatus('success');
+    } catch (err) {
+      const message = axios.isAxiosError<ApiErrorBody>(err) && err.response?.data?.message
+        ? err.response.data.message
+        : 'An unexpected error occurred. Please try again later.';
+      setError(message);
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <Container className="mt-5" style={{ maxWidth: '500px' }}>
+      <h3 className="mb-3">Link Your Account</h3>
+
+      {status === 'success' && <Alert variant="success">Your {provider} account is linked and you are signed in.</Alert>}
+      {status === 'mfa' && mfaToken && (
+        <>
+          <Alert variant="info">Your {provider} account is linked. Confirm it is you to finish signing in.</Alert>
+          <TwoFactorPrompt mfaToken={mfaToken} />
+        </>
+      )}
+
+      {(status === 'idle' || status === 'submitting') && linkToken && (
+        <Form onSubmit={handleSubmit}>
+          <p>
+            An account for {email ?? 'this email'} already exists. Enter its password to
+            link your {provider} account and sign in.
+          </p>
+
+          <Form.Group className="mb-3" controlId="linkPassword">
+            <Form.Label>Password</Form.Label>
+            <Form.Control
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </Form.Group>
+
+          <Button type="submit" className="w-100" disabled={status === 'submitting' || !password}>
+            Link and sign in
+          </Button>
+        </Form>
+      )}
+
+      {error && (
+        <Alert variant="danger" className="mt-3">
+          {error} <Link to="/auth">Back to login</Link>
+        </Alert>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Container, Alert, Button, Spinner } from 'react-bootstrap';
+import axios from 'axios';
+import { env } from '../env';
+
+type Status = 'loading' | 'consent' | 'redirecting' | 'login' | 'error';
+
+type AuthorizationRequest = {
+  client: { name: string };
+  scopes: string[];
+  consentRequired: boolean;
+};
+
+type ApiErrorBody = {
+  message?: string;
+};
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  openid: 'Know who you are on this service',
+  profile: 'See your name',
+  email: 'See your email address',
+};
+
+export default function OidcAuthorizePage() {
+  const [searchParams] = useSearchParams();
+  const requestId = searchParams.get('request');
+  const [status, setStatus] = useState<Status>(requestId ? 'loading' : 'error');
+  const [error, setError] = useState<string | null>(requestId ? null : 'This authorization request is incomplete.');
+  const [request, setRequest] = useState<AuthorizationRequest | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+
+  // The decision consumes the request, so StrictMode must not auto-approve it twice.
+  const started = useRef(false);
+
+  const handleError = (err: unknown) => {
+    const message = axios.isAxiosError<ApiErrorBody>(err) && err.response?.data?.message
+      ? err.response.data.message
+      : 'An unexpected error occurred. Please try again later.';
+    setError(message);
+    setStatus('error');
+  };
+
+  const decide = async (token: string, approved: boolean) => {
+    setStatus('redirecting');
+    try {
+      const response = await axios.post(
+        `${env.backendDomain}/api/v1/oidc/authorize/requests/${requestId}`,
+        { approved },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      window.location.assign(response.data.meta.redirectTo);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  useEffect(() => {
+    if (!requestId || started.current) return;
+    started.current = true;
+
+    const load = async () => {
+      let token: string;
+      try {
+        const refreshed = await axios.post(`${env.backendDomain}/api/v1/refresh`, {}, { withCredentials: true });
+        token = refreshed.data.meta.accessToken;
+      } catch {
+        setStatus('login');
+        return;
+      }
+
+      try {
+        const response = await axios.get<{ meta: AuthorizationRequest }>(
+          `${env.backendDomain}/api/v1/oidc/authorize/requests/${requestId}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+
+        setAccessToken(token);
+        setRequest(response.data.meta);
+
+        if (response.data.meta.consentRequired) {
+          setStatus('consent');
+        } else {
+          await decide(token, true);
+        }
+      } catch (err) {
+        handleError(err);
+      }
+    };
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestId]);
+
+  return (
+    <Container className="mt-5" style={{ maxWidth: '500px' }}>
+      <h3 className="mb-3">Authorize Application</h3>
+
+      {(status === 'loading' || status === 'redirecting') && <Spinner animation="border" />}
+
+      {status === 'login' && (
+        <Alert variant="info">
+          Please <Link to="/auth">sign in</Link> first, then return to the application and try again.
+        </Alert>
+      )}
+
+      {status === 'consent' && request && accessToken && (
+        <>
+          <p><strong>{request.client.name}</strong> would like to:</p>
+          <ul>
+            {request.scopes.map((scope) => (
+              <li key={scope}>{SCOPE_DESCRIPTIONS[scope] ?? scope}</li>
+            ))}
+          </ul>
+
+          <div className="d-flex gap-2">
+            <Button variant="primary" className="flex-fill" onClick={() => decide(accessToken, true)}>
+              Allow
+            </Button>
+            <Button variant="outline-secondary" className="flex-fill" onClick={() => decide(accessToken, false)}>
+              Deny
+            </Button>
+          </div>
+        </>
+      )}
+
+      {status === 'error' && (
+        <Alert variant="danger">
+          {error} <Link to="/auth">Back to login</Link>
+        </Alert>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Container, Alert, Button, Form, FormControl, Spinner } from 'react-bootstrap';
+import axios from 'axios';
+import { env } from '../env';
+
+type Status = 'loading' | 'ready' | 'login' | 'error' | 'deleted';
+
+type Profile = {
+  id: string;
+  email: string;
+  pendingEmail?: string;
+  firstName: string;
+  lastName: string;
+  status?: string;
+  verified: boolean;
+  twoFactorEnabled: boolean;
+  oauthProviders: string[];
+  createdAt?: string;
+};
+
+type ProfileFields = 'firstName' | 'lastName' | 'status';
+
+type ApiErrorBody = {
+  message?: string;
+  details?: Partial<Record<ProfileFields | 'email' | 'password' | 'code' | 'form', string[]>>;
+};
+
+// Set by the backend when it redirects back from an email change link:
+const emailChangeNotices: Record<string, { variant: string; message: string }> = {
+  confirmed: { variant: 'success', message: 'Your email address has been changed.' },
+  cancelled: { variant: 'info', message: 'The email change was cancelled. Your email address stays the same.' },
+  invalid: { variant: 'danger', message: 'This email change link has expired or was already used.' },
+};
+
+export default function ProfilePage() {
+  const [searchParams] = useSearchParams();
+  const emailChangeNotice = emailChangeNotices[searchParams.get('emailChange') ?? ''];
+  const [status, setStatus] = useState<Status>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [form, setForm] = useState<Record<ProfileFields, string>>({ firstName: '', lastName: '', status: '' });
+  const [fieldErrors, setFieldErrors] = useState<ApiErrorBody['details']>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [emailErrors, setEmailErrors] = useState<string[]>([]);
+  const [emailInfo, setEmailInfo] = useState<string | null>(null);
+  const [requestingEmail, setRequestingEmail] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deleteProof, setDeleteProof] = useState('');
+  const [deleteWithCode, setDeleteWithCode] = useState(false);
+  const [deleteLinkInfo, setDeleteLinkInfo] = useState<string | null>(null);
+  const [deleteErrors, setDeleteErrors] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState(false);
+  const [deletedInfo, setDeletedInfo] = useState<string | null>(null);
+
+  // Refreshing rotates the refresh token, so StrictMode must not run it twice.
+  const started = useRef(false);
+
+  const showProfile = (user: Profile) => {
+    setProfile(user);
+    setForm({ firstName: user.firstName, lastName: user.lastName, status: user.status ?? '' });
+  };
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const load = async () => {
+      let token: string;
+      try {
+        const refreshed = await axios.post(`${env.backendDomain}/api/v1/refresh`, {}, { withCredentials: true });
+        token = refreshed.data.meta.accessToken;
+      } catch {
+        setStatus('login');
+        return;
+      }
+
+      try {
+        const response = await axios.get<{ meta: { user: Profile } }>(
+          `${env.backendDomain}/api/v1/me`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+
+        setAccessToken(token);
+        showProfile(response.data.meta.user);
+        setStatus('ready');
+      } catch (err) {
+        setError(axios.isAxiosError<ApiErrorBody>(err) && err.response?.data?.message
+          ? err.response.data.message
+          : 'An unexpected error occurred. Please try again later.');
+        setStatus('error');
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !accessToken) return;
+
+    // Only send what changed, so an untouched field cannot fail validation.
+    const changes: Partial<Record<ProfileFields, string>> = {};
+    if (form.firstName !== profile.firstName) changes.firstName = form.firstName;
+    if (form.lastName !== profile.lastName) changes.lastName = form.lastName;
+    if (form.status !== (profile.status ?? '')) changes.status = form.status;
+    if (Object.keys(changes).length === 0) return;
+
+    setSaving(true);
+    setSaved(false);
+    setFieldErrors({});
+    setError(null);
+    try {
+      const response = await axios.patch<{ meta: { user: Profile } }>(
+        `${env.backendDomain}/api/v1/me`,
+        changes,
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+      showProfile(response.data.meta.user);
+      setSaved(true);
+    } catch (err) {
+      if (axios.isAxiosError<ApiErrorBody>(err) && err.response?.status === 400 && err.response.data?.details) {
+        setFieldErrors(err.response.data.details);
+      } else if (axios.isAxiosError<ApiErrorBody>(err) && err.response?.status === 401) {
+        setStatus('login');
+      } else {
+        setError('An unexpected error occurred. Please try again later.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessToken) return;
+
+    setRequestingEmail(true);
+    setEmailErrors([]);
+    setEmailInfo(null);
+    try {
+      const response = await axios.post<{ message: string; meta: { user: Profile } }>(
+        `${env.backendDomain}/api/v1/me/email`,
+        { email: newEmail },
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+      setProfile(response.data.meta.user);
+      setEmailInfo(response.data.message);
+      setNewEmail('');
+    } catch (err) {
+      if (!axios.isAxiosError<ApiErrorBody>(err) || !err.response) {
+        setEmailErrors(['Network error or server is down.']);
+      } else if (err.response.status === 401) {
+        setStatus('login');
+      } else if (err.response.data?.details?.email) {
+        setEmailErrors(err.response.data.details.email);
+      } else {
+        setEmailErrors([err.response.data?.message || 'An unexpected error occurred. Please try again later.']);
+      }
+    } finally {
+      setRequestingEmail(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!accessToken) return;
+
+    setExporting(true);
+    setError(null);
+    try {
+      const response = await axios.get<Blob>(`${env.backendDomain}/api/v1/me/export`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        responseType: 'blob',
+      });
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'account-export.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        setStatus('login');
+      } else {
+        setError('Your data could not be exported. Please try again later.');
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessToken) return;
+
+    setDeleting(true);
+    setDeleteErrors([]);
+    try {
+      const response = await axios.delete<{ message: string; meta: { deletionScheduledAt: string } }>(
+        `${env.backendDomain}/api/v1/me`,
+        { data: deleteWithCode ? { code: deleteProof } : { password: deleteProof }, headers: { Authorization: `Bearer ${accessToken}` }, withCredentials: true }
+      );
+      const deletionDate = new Date(response.data.meta.deletionScheduledAt).toLocaleDateString();
+      setDeletedInfo(`${response.data.message} It will be deleted on ${deletionDate}.`);
+      setStatus('deleted');
+    } catch (err) {
+      if (!axios.isAxiosError<ApiErrorBody>(err) || !err.response) {
+        setDeleteErrors(['Network error or server is down.']);
+      } else if (err.response.status === 401) {
+        setStatus('login');
+      } else if (err.response.data?.details?.password || err.response.data?.details?.code) {
+        setDeleteErrors(err.response.data.details.password ?? err.response.data.details.code ?? []);
+      } else {
+        setDeleteErrors([err.response.data?.message || 'An unexpected error occurred. Please try again later.']);
+      }
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  // For accounts without a password the user knows, such as those created through a provider.
+  const handleDeleteLink = async () => {
+    if (!accessToken) return;
+
+    setDeleting(true);
+    setDeleteErrors([]);
+    setDeleteLinkInfo(null);
+    try {
+      const response = await axios.post<{ message: string }>(
+        `${env.backendDomain}/api/v1/me/deletion-link`,
+        {},
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+      setDeleteLinkInfo(response.data.message);
+    } catch (err) {
+      if (!axios.isAxiosError<ApiErrorBody>(err) || !err.response) {
+        setDeleteErrors(['Network error or server is down.']);
+      } else if (err.response.status === 401) {
+        setStatus('login');
+      } else {
+        setDeleteErrors([err.response.data?.message || 'An unexpected error occurred. Please try again later.']);
+      }
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const updateField = (field: ProfileFields, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+    setSaved(false);
+  };
+
+  return (
+    <Container className="mt-5" style={{ maxWidth: '500px' }}>
+      <h3 className="mb-3">Your Profile</h3>
+
+      {emailChangeNotice && <Alert variant={emailChangeNotice.variant}>{emailChangeNotice.message}</Alert>}
+
+      {status === 'loading' && <Spinner animation="border" />}
+
+      {status === 'login' && (
+        <Alert variant="info">
+          Please <Link to="/auth">sign in</Link> to see your profile.
+        </Alert>
+      )}
+
+      {status === 'deleted' && (
+        <Alert variant="info">
+          {deletedInfo} <Link to="/auth">Back to login</Link>
+        </Alert>
+      )}
+
+      {status === 'error' && (
+        <Alert variant="danger">
+          {error} <Link to="/auth">Back to login</Link>
+        </Alert>
+      )}
+
+      {status === 'ready' && profile && (
+        <>
+          <p className="mb-1"><strong>Email:</strong> {profile.email} {!profile.verified && '(not verified)'}</p>
+          <p className="mb-1"><strong>Two-factor authentication:</strong> {profile.twoFactorEnabled ? 'On' : 'Off'}</p>
+          {profile.oauthProviders.length > 0 && (
+            <p className="mb-1"><strong>Linked accounts:</strong> {profile.oauthProviders.join(', ')}</p>
+          )}
+          {profile.createdAt && (
+            <p className="mb-3"><strong>Member since:</strong> {new Date(profile.createdAt).toLocaleDateString()}</p>
+          )}
+
+          {saved && <Alert variant="success">Profile updated.</Alert>}
+          {error && <Alert variant="danger">{error}</Alert>}
+          {fieldErrors?.form?.map((err, index) => <Alert variant="danger" key={index}>{err}</Alert>)}
+
+          <Form onSubmit={handleSubmit} noValidate>
+            <Form.Group className="mb-3" controlId="firstName">
+              <Form.Label>First name</Form.Label>
+              <Form.Control
+                value={form.firstName}
+                onChange={(e) => updateField('firstName', e.target.value)}
+                isInvalid={!!fieldErrors?.firstName}
+              />
+              {fieldErrors?.firstName?.map((err, index) => (
+                <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+              ))}
+            </Form.Group>
+
+            <Form.Group className="mb-3" controlId="lastName">
+              <Form.Label>Last name</Form.Label>
+              <Form.Control
+                value={form.lastName}
+                onChange={(e) => updateField('lastName', e.target.value)}
+                isInvalid={!!fieldErrors?.lastName}
+              />
+              {fieldErrors?.lastName?.map((err, index) => (
+                <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+              ))}
+            </Form.Group>
+
+            <Form.Group className="mb-3" controlId="status">
+              <Form.Label>Status</Form.Label>
+              <Form.Control
+                value={form.status}
+                onChange={(e) => updateField('status', e.target.value)}
+                isInvalid={!!fieldErrors?.status}
+              />
+              {fieldErrors?.status?.map((err, index) => (
+                <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+              ))}
+            </Form.Group>
+
+            <Button type="submit" className="w-100" disabled={saving}>
+              Save
+            </Button>
+          </Form>
+
+          <h5 className="mt-5 mb-3">Change Email</h5>
+          {profile.pendingEmail && (
+            <Alert variant="info">
+              Waiting for you to confirm <strong>{profile.pendingEmail}</strong> from that inbox.
+            </Alert>
+          )}
+          {emailInfo && <Alert variant="success">{emailInfo}</Alert>}
+
+          <Form onSubmit={handleEmailChange} noValidate>
+            <Form.Group className="mb-3" controlId="newEmail">
+              <Form.Label>New email</Form.Label>
+              <Form.Control
+                type="email"
+                value={newEmail}
+                onChange={(e) => {
+                  setNewEmail(e.target.value);
+                  setEmailErrors([]);
+                }}
+                isInvalid={emailErrors.length > 0}
+              />
+              {emailErrors.map((err, index) => (
+                <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+              ))}
+            </Form.Group>
+
+            <Button type="submit" variant="outline-primary" className="w-100" disabled={requestingEmail || !newEmail}>
+              Send confirmation link
+            </Button>
+          </Form>
+
+          <h5 className="mt-5 mb-3">Your Data</h5>
+          <Button variant="outline-secondary" className="w-100" onClick={handleExport} disabled={exporting}>
+            Download my data
+          </Button>
+
+          <h5 className="mt-5 mb-3">Delete Account</h5>
+          <p className="text-muted">
+            You will be signed out everywhere. We will email you a link to keep your account before it is deleted for good.
+          </p>
+
+          {deleteLinkInfo && <Alert variant="success">{deleteLinkInfo}</Alert>}
+
+          <Form onSubmit={handleDelete} noValidate>
+            <Form.Group className="mb-3" controlId="deleteProof">
+              <Form.Label>{deleteWithCode ? 'Authenticator code' : 'Current password'}</Form.Label>
+              <Form.Control
+                type={deleteWithCode ? 'text' : 'password'}
+                inputMode={deleteWithCode ? 'numeric' : undefined}
+                autoComplete={deleteWithCode ? 'one-time-code' : 'current-password'}
+                value={deleteProof}
+                onChange={(e) => {
+                  setDeleteProof(e.target.value);
+                  setDeleteErrors([]);
+                }}
+                isInvalid={deleteErrors.length > 0}
+              />
+              {deleteErrors.map((err, index) => (
+                <FormControl.Feedback type='invalid' key={index}>{err}</FormControl.Feedback>
+              ))}
+            </Form.Group>
+
+            <Button type="submit" variant="danger" className="w-100" disabled={deleting || !deleteProof}>
+              Delete my account
+            </Button>
+          </Form>
+
+          <div className="mt-2 text-center">
+            {profile.twoFactorEnabled && (
+              <Button
+                variant="link"
+                onClick={() => {
+                  setDeleteWithCode(!deleteWithCode);
+                  setDeleteProof('');
+                  setDeleteErrors([]);
+                }}
+              >
+                {deleteWithCode ? 'Use your password instead' : 'Use an authenticator code instead'}
+              </Button>
+            )}
+            <Button variant="link" onClick={handleDeleteLink} disabled={deleting}>
+              Confirm by email instead
+            </Button>
+          </div>
+        </>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,45 @@
+import axios from 'axios';
+import { env } from './env';
+
+// Mirrors the backend password policy, published at /api/v1/password-policy.
+export type PasswordPolicy = {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  minStrength: number;
+  historySize: number;
+  forbidPersonalInfo: boolean;
+  rejectBreached: boolean;
+};
+
+export type PasswordPolicyResponse = {
+  policy: PasswordPolicy;
+  rules: string[];
+};
+
+export async function fetchPasswordPolicy(): Promise<PasswordPolicyResponse> {
+  const response = await axios.get<{ meta: PasswordPolicyResponse }>(`${env.backendDomain}/api/v1/password-policy`);
+  return response.data.meta;
+}
+
+/**
+ * The rules that can be checked before submitting. Strength, breaches and personal
+ * information are left to the server.
+ */
+export function checkPassword(password: string, policy: PasswordPolicy): string[] {
+  const issues: string[] = [];
+
+  if (password.length < policy.minLength) issues.push(`Password must be at least ${policy.minLength} characters.`);
+  if (password.length > policy.maxLength) issues.push(`Password must be at most ${policy.maxLength} characters.`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) issues.push('Password must contain at least one uppercase letter.');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) issues.push('Password must contain at least one lowercase letter.');
+  if (policy.requireDigit && !/[0-9]/.test(password)) issues.push('Password must contain at least one number.');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    issues.push('Password must contain at least one special character (e.g. @, #, $).');
+  }
+
+  return issues;
+}